@@ -3,6 +3,9 @@
 // ============================================================================
 
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 
 // Mock @anthropic-ai/sdk
 vi.mock("@anthropic-ai/sdk", () => {
@@ -42,14 +45,52 @@ describe("AnthropicAdapter", () => {
         expect(result).toBe("Hello from Claude");
     });
 
-    it("should generate pseudo-embeddings", async () => {
+    it("should report usage for completions", async () => {
+        const result = await adapter.completeWithUsage("Hello");
+        expect(result.content).toBe("Hello from Claude");
+        expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    });
+
+    it("should fold prompt-cache reads into usage", async () => {
+        const a = new AnthropicAdapter({ apiKey: "test" });
+        const mockCreate = vi.fn().mockResolvedValue({
+            content: [{ type: "text", text: "cached" }],
+            usage: { input_tokens: 10, output_tokens: 5, cache_read_input_tokens: 90, cache_creation_input_tokens: null },
+        });
+        (a as any).client = { messages: { create: mockCreate } };
+
+        const result = await a.completeWithUsage("test");
+        expect(result.usage).toEqual({
+            promptTokens: 100,
+            completionTokens: 5,
+            totalTokens: 105,
+            cachedPromptTokens: 90,
+        });
+    });
+
+    it("should declare provider and model for pricing", () => {
+        const a = new AnthropicAdapter({ model: "claude-3-5-haiku-20241022" });
+        expect(a.provider).toBe("anthropic");
+        expect(a.model).toBe("claude-3-5-haiku-20241022");
+        expect(a.pricing).toBeUndefined();
+    });
+
+    it("should generate local BM25 embeddings by default", async () => {
         const result = await adapter.embed("test text");
-        expect(result).toHaveLength(128);
+        expect(result).toHaveLength(1024);
         // Should be normalized (magnitude ≈ 1)
         const magnitude = Math.sqrt(result.reduce((s, v) => s + v * v, 0));
         expect(magnitude).toBeCloseTo(1.0, 1);
     });
 
+    it("should delegate embeddings to a configured embedder", async () => {
+        const embedder = { embed: vi.fn(async () => [0.6, 0.8]) };
+        const a = new AnthropicAdapter({ apiKey: "test", embedder });
+
+        expect(await a.embed("zen")).toEqual([0.6, 0.8]);
+        expect(embedder.embed).toHaveBeenCalledWith("zen");
+    });
+
     it("should handle chat without tools", async () => {
         const result = await adapter.chat([
             { role: "user", content: "Hello" },
@@ -81,6 +122,40 @@ describe("AnthropicAdapter", () => {
         expect(result.content).toBe("Hello from Claude");
     });
 
+    it("should load image files and map images and PDFs to content blocks", async () => {
+        const mockCreate = vi.fn().mockResolvedValue({ content: [{ type: "text", text: "A cat" }], usage: { input_tokens: 1, output_tokens: 1 } });
+        (adapter as any).client = { messages: { create: mockCreate } };
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-anthropic-"));
+        const imagePath = path.join(dir, "cat.png");
+        fs.writeFileSync(imagePath, "png-bytes");
+
+        try {
+            await adapter.chat([
+                {
+                    role: "user",
+                    content: [
+                        { type: "text", text: "Describe" },
+                        { type: "image", path: imagePath },
+                        { type: "file", name: "spec.pdf", data: "JVBERg==", mimeType: "application/pdf" },
+                    ],
+                },
+                { role: "tool", toolCallId: "toolu_1", content: [{ type: "image", url: "https://example.com/s.png" }] },
+            ]);
+        } finally {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+
+        const { messages } = mockCreate.mock.calls[0][0];
+        expect(messages[0].content).toEqual([
+            { type: "text", text: "Describe" },
+            { type: "image", source: { type: "base64", media_type: "image/png", data: Buffer.from("png-bytes").toString("base64") } },
+            { type: "document", title: "spec.pdf", source: { type: "base64", media_type: "application/pdf", data: "JVBERg==" } },
+        ]);
+        expect(messages[1].content[0].content).toEqual([
+            { type: "image", source: { type: "url", url: "https://example.com/s.png" } },
+        ]);
+    });
+
     it("should return empty string when no text block", async () => {
         const a = new AnthropicAdapter({ apiKey: "test" });
         // Override mock for this test
@@ -96,6 +171,63 @@ describe("AnthropicAdapter", () => {
 
     it("should handle embed with empty text", async () => {
         const result = await adapter.embed("");
-        expect(result).toHaveLength(128);
+        expect(result).toHaveLength(1024);
+    });
+
+    it("should stream text and tool input deltas, then the assembled response", async () => {
+        async function* events() {
+            yield { type: "message_start", message: { usage: { input_tokens: 20, output_tokens: 1 } } };
+            yield { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } };
+            yield { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Looking" } };
+            yield { type: "content_block_start", index: 1, content_block: { type: "tool_use", id: "tu_1", name: "lookup", input: {} } };
+            yield { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"q":"z' } };
+            yield { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: 'en"}' } };
+            yield { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 12 } };
+            yield { type: "message_stop" };
+        }
+        const create = vi.fn().mockResolvedValue(events());
+        (adapter as any).client = { messages: { create } };
+
+        const received = [];
+        for await (const chunk of adapter.chatStream([{ role: "user", content: "Find zen" }])) {
+            received.push(chunk);
+        }
+
+        expect(create.mock.calls[0][0].stream).toBe(true);
+        expect(received.slice(0, -1)).toEqual([
+            { type: "text", delta: "Looking" },
+            { type: "tool_call", index: 0, id: "tu_1", name: "lookup", argumentsDelta: "" },
+            { type: "tool_call", index: 0, argumentsDelta: '{"q":"z' },
+            { type: "tool_call", index: 0, argumentsDelta: 'en"}' },
+        ]);
+        expect(received.at(-1)).toEqual({
+            type: "done",
+            response: {
+                content: "Looking",
+                toolCalls: [{ id: "tu_1", name: "lookup", arguments: { q: "zen" } }],
+                usage: { promptTokens: 20, completionTokens: 12, totalTokens: 32 },
+            },
+        });
+    });
+
+    it("should force a tool call for JSON output and return its input", async () => {
+        const mockCreate = vi.fn().mockResolvedValue({
+            content: [{ type: "tool_use", id: "toolu_1", name: "verdict", input: { ok: true } }],
+            usage: { input_tokens: 10, output_tokens: 5 },
+        });
+        (adapter as any).client = { messages: { create: mockCreate } };
+        const schema = {
+            type: "object" as const,
+            properties: { ok: { type: "boolean" as const } },
+            required: ["ok"],
+        };
+
+        const result = await adapter.completeJSON("Is it ok?", schema, { schemaName: "verdict" });
+
+        expect(result).toEqual({ value: { ok: true }, usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 } });
+        const request = mockCreate.mock.calls[0][0];
+        expect(request.tool_choice).toEqual({ type: "tool", name: "verdict" });
+        expect(request.tools[0].input_schema).toBe(schema);
+        expect(request.messages[0].content).toBe("Is it ok?");
     });
 });
@@ -4,12 +4,22 @@
 // ============================================================================
 
 import Anthropic from "@anthropic-ai/sdk";
+import { BM25Embedder, completeJSONWithRepair, contentText, resolveContent } from "@zen-ai/core";
 import type {
     LLMAdapter,
+    Embedder,
     ChatMessage,
     ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    ContentPart,
+    JSONCompletionResponse,
+    JSONSchema,
     LLMToolDefinition,
     LLMToolCall,
+    ModelPricing,
+    TokenUsage,
 } from "@zen-ai/core";
 
 /** Configuration for the Anthropic adapter. */
@@ -22,6 +32,15 @@ export interface AnthropicAdapterConfig {
     temperature?: number;
     /** Maximum tokens for completions. Default: 4096. */
     maxTokens?: number;
+    /** Override the registry rates for this model (USD per 1M tokens). */
+    pricing?: ModelPricing;
+    /** Context window in tokens. Default: the known limit of the model. */
+    contextWindow?: number;
+    /**
+     * Embedder used by embed(); Anthropic has no embeddings API.
+     * Default: a local BM25Embedder. Pass an HttpEmbedder for neural embeddings.
+     */
+    embedder?: Embedder;
 }
 
 /**
@@ -29,14 +48,19 @@ export interface AnthropicAdapterConfig {
  *
  * Supports:
  * - Text completion
- * - Embedding generation (via text similarity workaround)
+ * - Embedding generation (via a pluggable Embedder)
  * - Tool Use (function calling)
+ * - Streaming chat (text and tool-input deltas)
  */
 export class AnthropicAdapter implements LLMAdapter {
+    readonly provider = "anthropic";
+    readonly model: string;
+    readonly pricing?: ModelPricing;
+    readonly contextWindow?: number;
     private client: Anthropic;
-    private model: string;
     private temperature: number;
     private maxTokens: number;
+    private embedder: Embedder;
 
     constructor(config: AnthropicAdapterConfig = {}) {
         this.client = new Anthropic({
@@ -45,10 +69,18 @@ export class AnthropicAdapter implements LLMAdapter {
         this.model = config.model ?? "claude-sonnet-4-20250514";
         this.temperature = config.temperature ?? 0.7;
         this.maxTokens = config.maxTokens ?? 4096;
+        this.pricing = config.pricing;
+        this.contextWindow = config.contextWindow;
+        this.embedder = config.embedder ?? new BM25Embedder();
     }
 
     /** Generate a text completion. */
     async complete(prompt: string): Promise<string> {
+        return (await this.completeWithUsage(prompt)).content;
+    }
+
+    /** Generate a text completion and report token usage. */
+    async completeWithUsage(prompt: string): Promise<CompletionResponse> {
         const response = await this.client.messages.create({
             model: this.model,
             max_tokens: this.maxTokens,
@@ -57,28 +89,66 @@ export class AnthropicAdapter implements LLMAdapter {
         });
 
         const textBlock = response.content.find((b) => b.type === "text");
-        return textBlock?.type === "text" ? textBlock.text : "";
+        const usage = response.usage ? this.toUsage(response.usage) : undefined;
+
+        return {
+            content: textBlock?.type === "text" ? textBlock.text : "",
+            usage,
+        };
     }
 
     /**
-     * Generate an embedding vector.
-     * Note: Anthropic does not natively support embeddings.
-     * This implementation returns a simple hash-based vector as a placeholder.
-     * For production, use a dedicated embedding provider (OpenAI, Cohere, etc).
+     * Generate JSON matching a schema.
+     * Object schemas are enforced as the input of a forced tool call; other
+     * schemas are asked for in the prompt. Output is still validated and repaired.
      */
-    async embed(text: string): Promise<number[]> {
-        // Simple hash-based pseudo-embedding (128 dimensions)
-        const vector = new Array(128).fill(0);
-        for (let i = 0; i < text.length; i++) {
-            vector[i % 128] += text.charCodeAt(i) / 1000;
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        // Tool input schemas must be objects
+        if (schema.type !== "object") {
+            return completeJSONWithRepair<T>((p) => this.completeWithUsage(p), prompt, schema, options);
         }
-        // Normalize
-        const magnitude = Math.sqrt(
-            vector.reduce((sum: number, v: number) => sum + v * v, 0),
+
+        const name = options?.schemaName ?? "respond";
+        return completeJSONWithRepair<T>(
+            async (p) => {
+                const response = await this.client.messages.create({
+                    model: this.model,
+                    max_tokens: this.maxTokens,
+                    temperature: this.temperature,
+                    messages: [{ role: "user", content: p }],
+                    tools: [{
+                        name,
+                        description: "Respond with the requested data.",
+                        input_schema: schema as Anthropic.Tool.InputSchema,
+                    }],
+                    tool_choice: { type: "tool", name },
+                });
+
+                const toolBlock = response.content.find((b) => b.type === "tool_use");
+                const textBlock = response.content.find((b) => b.type === "text");
+                return {
+                    content: toolBlock?.type === "tool_use"
+                        ? JSON.stringify(toolBlock.input)
+                        : textBlock?.type === "text" ? textBlock.text : "",
+                    usage: response.usage ? this.toUsage(response.usage) : undefined,
+                };
+            },
+            prompt,
+            schema,
+            { ...options, schemaInPrompt: false },
         );
-        return magnitude > 0
-            ? vector.map((v: number) => v / magnitude)
-            : vector;
+    }
+
+    /**
+     * Generate an embedding vector.
+     * Anthropic does not offer embeddings, so this delegates to the configured Embedder.
+     */
+    async embed(text: string): Promise<number[]> {
+        return this.embedder.embed(text);
     }
 
     /** Chat completion with optional Tool Use. */
@@ -86,13 +156,107 @@ export class AnthropicAdapter implements LLMAdapter {
         messages: ChatMessage[],
         options?: { tools?: LLMToolDefinition[] },
     ): Promise<ChatResponse> {
+        const response = await this.client.messages.create(await this.toRequestParams(messages, options));
+
+        const contentBlock = response.content.find((c) => c.type === "text");
+        const content = contentBlock && contentBlock.type === "text" ? contentBlock.text : null;
+
+        const toolCallBlocks = response.content.filter((c) => c.type === "tool_use");
+        const toolCalls: LLMToolCall[] = toolCallBlocks.map((tc: any) => ({
+            id: tc.id,
+            name: tc.name,
+            arguments: tc.input,
+        }));
+
+        const usage = this.toUsage(response.usage);
+
+        return {
+            content,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage,
+        };
+    }
+
+    /**
+     * Streaming chat completion: yields deltas, then the assembled response.
+     * Tool-call indexes count tool_use blocks only (text blocks are skipped).
+     */
+    async *chatStream(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): AsyncGenerator<ChatStreamChunk> {
+        const stream = await this.client.messages.create({
+            ...(await this.toRequestParams(messages, options)),
+            stream: true,
+        });
+
+        let content = "";
+        let usage: Anthropic.Usage | undefined;
+        const calls: Array<{ id: string; name: string; input: string }> = [];
+        const callIndexByBlock = new Map<number, number>();
+
+        for await (const event of stream) {
+            switch (event.type) {
+                case "message_start":
+                    usage = { ...event.message.usage };
+                    break;
+                case "message_delta":
+                    if (usage) usage.output_tokens = event.usage.output_tokens;
+                    break;
+                case "content_block_start":
+                    if (event.content_block.type === "tool_use") {
+                        const index = calls.length;
+                        const { id, name } = event.content_block;
+                        callIndexByBlock.set(event.index, index);
+                        calls.push({ id, name, input: "" });
+                        yield { type: "tool_call", index, id, name, argumentsDelta: "" };
+                    }
+                    break;
+                case "content_block_delta":
+                    if (event.delta.type === "text_delta") {
+                        content += event.delta.text;
+                        yield { type: "text", delta: event.delta.text };
+                    } else if (event.delta.type === "input_json_delta") {
+                        const index = callIndexByBlock.get(event.index);
+                        if (index === undefined) break;
+                        calls[index].input += event.delta.partial_json;
+                        yield { type: "tool_call", index, argumentsDelta: event.delta.partial_json };
+                    }
+                    break;
+            }
+        }
+
+        const toolCalls: LLMToolCall[] = calls.map((c) => ({
+            id: c.id,
+            name: c.name,
+            arguments: c.input ? JSON.parse(c.input) : {},
+        }));
+
+        yield {
+            type: "done",
+            response: {
+                content: content || null,
+                toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+                usage: usage ? this.toUsage(usage) : undefined,
+            },
+        };
+    }
+
+    /** Build the request shared by chat() and chatStream(). */
+    private async toRequestParams(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): Promise<Anthropic.MessageCreateParamsNonStreaming> {
+        // Claude fetches image URLs itself; files are inlined
+        const resolved = await resolveContent(messages, { fetchUrls: ["file"] });
+
         // Convert messages to Anthropic format
-        const anthropicMessages = messages
+        const anthropicMessages = resolved
             .filter((m) => m.role !== "system")
             .map((m) => this.toAnthropicMessage(m));
 
-        const systemMessage = messages.find((m) => m.role === "system");
-        const systemMessageContent = systemMessage?.content;
+        const systemMessage = resolved.find((m) => m.role === "system");
+        const systemMessageContent = systemMessage && contentText(systemMessage.content);
 
         // Convert tools to Anthropic format
         let anthropicTools: Anthropic.Tool[] = [];
@@ -104,35 +268,29 @@ export class AnthropicAdapter implements LLMAdapter {
             }));
         }
 
-        const response = await this.client.messages.create({
+        return {
             model: this.model, // Using instance model
             max_tokens: this.maxTokens, // Using instance maxTokens
             temperature: this.temperature, // Using instance temperature
             messages: anthropicMessages,
             system: systemMessageContent,
             tools: anthropicTools.length > 0 ? anthropicTools : undefined,
-        });
-
-        const contentBlock = response.content.find((c) => c.type === "text");
-        const content = contentBlock && contentBlock.type === "text" ? contentBlock.text : null;
-
-        const toolCallBlocks = response.content.filter((c) => c.type === "tool_use");
-        const toolCalls: LLMToolCall[] = toolCallBlocks.map((tc: any) => ({
-            id: tc.id,
-            name: tc.name,
-            arguments: tc.input,
-        }));
-
-        const usage = {
-            promptTokens: response.usage.input_tokens,
-            completionTokens: response.usage.output_tokens,
-            totalTokens: response.usage.input_tokens + response.usage.output_tokens,
         };
+    }
 
+    /**
+     * Convert Anthropic usage to ZEN AI format.
+     * Anthropic reports cache reads/writes apart from input_tokens; they are
+     * folded into promptTokens so cached reads can be billed at their own rate.
+     */
+    private toUsage(usage: Anthropic.Usage): TokenUsage {
+        const cacheRead = usage.cache_read_input_tokens ?? 0;
+        const promptTokens = usage.input_tokens + cacheRead + (usage.cache_creation_input_tokens ?? 0);
         return {
-            content,
-            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-            usage,
+            promptTokens,
+            completionTokens: usage.output_tokens,
+            totalTokens: promptTokens + usage.output_tokens,
+            ...(cacheRead > 0 ? { cachedPromptTokens: cacheRead } : {}),
         };
     }
 
@@ -142,7 +300,7 @@ export class AnthropicAdapter implements LLMAdapter {
     ): Anthropic.MessageParam {
         switch (msg.role) {
             case "assistant":
-                return { role: "assistant", content: msg.content };
+                return { role: "assistant", content: contentText(msg.content) };
             case "tool":
                 return {
                     role: "user",
@@ -150,12 +308,45 @@ export class AnthropicAdapter implements LLMAdapter {
                         {
                             type: "tool_result",
                             tool_use_id: msg.toolCallId ?? "",
-                            content: msg.content,
+                            // Tool results hold text and images only
+                            content: typeof msg.content === "string"
+                                ? msg.content
+                                : msg.content.map((p) => {
+                                    const block = this.toAnthropicBlock(p);
+                                    return block.type === "document" ? { type: "text", text: contentText([p]) } : block;
+                                }),
                         },
                     ],
                 };
             default:
-                return { role: "user", content: msg.content };
+                return {
+                    role: "user",
+                    content: typeof msg.content === "string"
+                        ? msg.content
+                        : msg.content.map((p) => this.toAnthropicBlock(p)),
+                };
+        }
+    }
+
+    /** Convert a content part (already resolved) to an Anthropic content block. */
+    private toAnthropicBlock(
+        part: ContentPart,
+    ): Anthropic.TextBlockParam | Anthropic.ImageBlockParam | Anthropic.DocumentBlockParam {
+        if (part.type === "image" && (part.data || part.url)) {
+            return {
+                type: "image",
+                source: part.data
+                    ? { type: "base64", media_type: (part.mimeType ?? "image/png") as Anthropic.Base64ImageSource["media_type"], data: part.data }
+                    : { type: "url", url: part.url! },
+            };
+        }
+        if (part.type === "file" && part.data && part.mimeType === "application/pdf") {
+            return {
+                type: "document",
+                title: part.name,
+                source: { type: "base64", media_type: "application/pdf", data: part.data },
+            };
         }
+        return { type: "text", text: contentText([part]) };
     }
 }
@@ -7,7 +7,7 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 // Mock @google/generative-ai
 vi.mock("@google/generative-ai", () => {
     return {
-        SchemaType: { OBJECT: "OBJECT", STRING: "STRING" },
+        SchemaType: { OBJECT: "OBJECT", STRING: "STRING", NUMBER: "NUMBER", BOOLEAN: "BOOLEAN", ARRAY: "ARRAY" },
         GoogleGenerativeAI: class MockGoogleAI {
             getGenerativeModel() {
                 return {
@@ -47,6 +47,12 @@ describe("GoogleAdapter", () => {
         adapter = new GoogleAdapter({ apiKey: "test-key" });
     });
 
+    it("should report usage for completions", async () => {
+        const result = await adapter.completeWithUsage("Hello");
+        expect(result.content).toBe("Hello from Gemini");
+        expect(result.usage).toEqual({ promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+    });
+
     it("should create with default config", () => {
         const a = new GoogleAdapter();
         expect(a).toBeDefined();
@@ -94,6 +100,19 @@ describe("GoogleAdapter", () => {
         expect(result.content).toBe("Hello from Gemini");
     });
 
+    it("should send images as inline data, after the function response for tool results", async () => {
+        const generateContent = (adapter as any).generativeModel.generateContent;
+        await adapter.chat([
+            { role: "user", content: [{ type: "text", text: "Look" }, { type: "image", data: "aGk=", mimeType: "image/jpeg" }] },
+            { role: "tool", toolCallId: "screenshot", content: [{ type: "text", text: "ok" }, { type: "image", data: "cG5n", mimeType: "image/png" }] },
+        ]);
+
+        const { contents } = generateContent.mock.calls.at(-1)[0];
+        expect(contents[0].parts).toEqual([{ text: "Look" }, { inlineData: { mimeType: "image/jpeg", data: "aGk=" } }]);
+        expect(contents[1].parts[0].functionResponse).toEqual({ name: "screenshot", response: { result: "ok\n[image]" } });
+        expect(contents[2]).toEqual({ role: "user", parts: [{ inlineData: { mimeType: "image/png", data: "cG5n" } }] });
+    });
+
     it("should pass tools as function declarations", async () => {
         const result = await adapter.chat(
             [{ role: "user", content: "Test" }],
@@ -115,4 +134,81 @@ describe("GoogleAdapter", () => {
         );
         expect(result).toBeDefined();
     });
+
+    it("should convert nested JSON Schema to Gemini schema", () => {
+        const schema = (adapter as any).toGeminiSchema({
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    mode: { type: "string", enum: ["fast", "safe"] },
+                    retries: { type: ["integer", "null"], minimum: 0 },
+                },
+                required: ["mode"],
+            },
+        });
+
+        expect(schema).toEqual({
+            type: "ARRAY",
+            items: {
+                type: "OBJECT",
+                properties: {
+                    mode: { type: "STRING", enum: ["fast", "safe"] },
+                    retries: { type: "NUMBER", nullable: true },
+                },
+                required: ["mode"],
+            },
+        });
+    });
+
+    it("should stream text deltas and whole function calls", async () => {
+        async function* stream() {
+            yield { text: () => "Checking ", functionCalls: () => undefined };
+            yield {
+                text: () => { throw new Error("no text"); },
+                functionCalls: () => [{ name: "lookup", args: { q: "zen" } }],
+                usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 4, totalTokenCount: 12 },
+            };
+        }
+        (adapter as any).generativeModel.generateContentStream = vi.fn().mockResolvedValue({ stream: stream() });
+
+        const received = [];
+        for await (const chunk of adapter.chatStream([{ role: "user", content: "Find zen" }])) {
+            received.push(chunk);
+        }
+
+        expect(received[0]).toEqual({ type: "text", delta: "Checking " });
+        expect(received[1]).toMatchObject({ type: "tool_call", index: 0, name: "lookup", argumentsDelta: '{"q":"zen"}' });
+        expect(received[2]).toMatchObject({
+            type: "done",
+            response: {
+                content: "Checking ",
+                toolCalls: [{ name: "lookup", arguments: { q: "zen" } }],
+                usage: { promptTokens: 8, completionTokens: 4, totalTokens: 12 },
+            },
+        });
+    });
+
+    it("should request JSON with a Gemini response schema", async () => {
+        const generateContent = (adapter as any).generativeModel.generateContent;
+        generateContent.mockResolvedValueOnce({
+            response: { text: () => '{"tags": ["zen"]}', usageMetadata: undefined },
+        });
+
+        const result = await adapter.completeJSON("Tag it", {
+            type: "object",
+            properties: { tags: { type: "array", items: { type: "string" } } },
+            required: ["tags"],
+        });
+
+        expect(result.value).toEqual({ tags: ["zen"] });
+        expect(generateContent.mock.calls.at(-1)[0].generationConfig).toMatchObject({
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: "OBJECT",
+                properties: { tags: { type: "ARRAY", items: { type: "STRING" } } },
+                required: ["tags"],
+            },
+        });
+    });
 });
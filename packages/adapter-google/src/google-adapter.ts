@@ -7,15 +7,28 @@ import {
     GoogleGenerativeAI,
     type GenerativeModel,
     type Content,
+    type Part,
+    type GenerateContentRequest,
     type FunctionDeclaration,
     SchemaType,
+    type ResponseSchema,
+    type UsageMetadata,
 } from "@google/generative-ai";
+import { completeJSONWithRepair, contentText, resolveContent, toContentParts } from "@zen-ai/core";
 import type {
     LLMAdapter,
     ChatMessage,
     ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    ContentPart,
+    JSONCompletionResponse,
     LLMToolDefinition,
     LLMToolCall,
+    JSONSchema,
+    ModelPricing,
+    TokenUsage,
 } from "@zen-ai/core";
 
 /** Configuration for the Google Gemini adapter. */
@@ -30,6 +43,10 @@ export interface GoogleAdapterConfig {
     temperature?: number;
     /** Maximum tokens for completions. Default: 4096. */
     maxTokens?: number;
+    /** Override the registry rates for this model (USD per 1M tokens). */
+    pricing?: ModelPricing;
+    /** Context window in tokens. Default: the known limit of the model. */
+    contextWindow?: number;
 }
 
 /**
@@ -39,10 +56,15 @@ export interface GoogleAdapterConfig {
  * - Text completion
  * - Embedding generation
  * - Function Calling (tool use)
+ * - Streaming chat (text deltas; function calls arrive whole)
  */
 export class GoogleAdapter implements LLMAdapter {
+    readonly provider = "google";
+    readonly model: string;
+    readonly pricing?: ModelPricing;
+    readonly contextWindow?: number;
     private genAI: GoogleGenerativeAI;
-    private model: GenerativeModel;
+    private generativeModel: GenerativeModel;
     private embeddingModelName: string;
     private temperature: number;
     private maxTokens: number;
@@ -50,17 +72,25 @@ export class GoogleAdapter implements LLMAdapter {
     constructor(config: GoogleAdapterConfig = {}) {
         const apiKey = config.apiKey ?? process.env.GOOGLE_API_KEY ?? "";
         this.genAI = new GoogleGenerativeAI(apiKey);
-        this.model = this.genAI.getGenerativeModel({
-            model: config.model ?? "gemini-2.0-flash",
+        this.model = config.model ?? "gemini-2.0-flash";
+        this.generativeModel = this.genAI.getGenerativeModel({
+            model: this.model,
         });
         this.embeddingModelName = config.embeddingModel ?? "text-embedding-004";
         this.temperature = config.temperature ?? 0.7;
         this.maxTokens = config.maxTokens ?? 4096;
+        this.pricing = config.pricing;
+        this.contextWindow = config.contextWindow;
     }
 
     /** Generate a text completion. */
     async complete(prompt: string): Promise<string> {
-        const result = await this.model.generateContent({
+        return (await this.completeWithUsage(prompt)).content;
+    }
+
+    /** Generate a text completion and report token usage. */
+    async completeWithUsage(prompt: string): Promise<CompletionResponse> {
+        const result = await this.generativeModel.generateContent({
             contents: [{ role: "user", parts: [{ text: prompt }] }],
             generationConfig: {
                 temperature: this.temperature,
@@ -68,7 +98,46 @@ export class GoogleAdapter implements LLMAdapter {
             },
         });
 
-        return result.response.text();
+        const meta = result.response.usageMetadata;
+        const usage = meta ? this.toUsage(meta) : undefined;
+
+        return {
+            content: result.response.text(),
+            usage,
+        };
+    }
+
+    /**
+     * Generate JSON matching a schema with Gemini's controlled generation
+     * (responseMimeType + responseSchema). Gemini supports a schema subset,
+     * so output is still validated and repaired against the full schema.
+     */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        return completeJSONWithRepair<T>(
+            async (p) => {
+                const result = await this.generativeModel.generateContent({
+                    contents: [{ role: "user", parts: [{ text: p }] }],
+                    generationConfig: {
+                        temperature: this.temperature,
+                        maxOutputTokens: this.maxTokens,
+                        responseMimeType: "application/json",
+                        responseSchema: this.toGeminiSchema(schema) as unknown as ResponseSchema,
+                    },
+                });
+                const meta = result.response.usageMetadata;
+                return {
+                    content: result.response.text(),
+                    usage: meta ? this.toUsage(meta) : undefined,
+                };
+            },
+            prompt,
+            schema,
+            { ...options, schemaInPrompt: false },
+        );
     }
 
     /** Generate an embedding vector. */
@@ -85,22 +154,7 @@ export class GoogleAdapter implements LLMAdapter {
         messages: ChatMessage[],
         options?: { tools?: LLMToolDefinition[] },
     ): Promise<ChatResponse> {
-        const geminiMessages = this.toGeminiContents(messages);
-
-        // Convert tools
-        const tools: Array<{ functionDeclarations: FunctionDeclaration[] }> = [];
-        if (options?.tools?.length) {
-            tools.push({
-                functionDeclarations: options.tools.map((t) =>
-                    this.toFunctionDeclaration(t)
-                ),
-            });
-        }
-
-        const result = await this.model.generateContent({
-            contents: geminiMessages,
-            tools: tools.length > 0 ? tools : undefined,
-        });
+        const result = await this.generativeModel.generateContent(await this.toRequest(messages, options));
 
         const response = result.response;
         // Handle safety blocks/empty responses
@@ -119,11 +173,7 @@ export class GoogleAdapter implements LLMAdapter {
         }));
 
         const meta = response.usageMetadata;
-        const usage = meta ? {
-            promptTokens: meta.promptTokenCount,
-            completionTokens: meta.candidatesTokenCount,
-            totalTokens: meta.totalTokenCount,
-        } : undefined;
+        const usage = meta ? this.toUsage(meta) : undefined;
 
         return {
             content: text,
@@ -132,6 +182,97 @@ export class GoogleAdapter implements LLMAdapter {
         };
     }
 
+    /**
+     * Streaming chat completion: yields deltas, then the assembled response.
+     * Gemini sends each function call complete, so each yields one tool_call
+     * chunk carrying all of its arguments.
+     */
+    async *chatStream(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): AsyncGenerator<ChatStreamChunk> {
+        const result = await this.generativeModel.generateContentStream(await this.toRequest(messages, options));
+
+        let content = "";
+        let usage: TokenUsage | undefined;
+        const toolCalls: LLMToolCall[] = [];
+
+        for await (const chunk of result.stream) {
+            if (chunk.usageMetadata) usage = this.toUsage(chunk.usageMetadata);
+
+            let text = "";
+            try {
+                text = chunk.text();
+            } catch {
+                // Safety-blocked chunk: no text
+            }
+            if (text) {
+                content += text;
+                yield { type: "text", delta: text };
+            }
+
+            for (const fc of chunk.functionCalls() ?? []) {
+                const call: LLMToolCall = {
+                    id: `call_${Math.random().toString(36).slice(2)}`,
+                    name: fc.name,
+                    arguments: fc.args as Record<string, unknown>,
+                };
+                yield {
+                    type: "tool_call",
+                    index: toolCalls.length,
+                    id: call.id,
+                    name: call.name,
+                    argumentsDelta: JSON.stringify(call.arguments),
+                };
+                toolCalls.push(call);
+            }
+        }
+
+        yield {
+            type: "done",
+            response: {
+                content,
+                toolCalls: toolCalls.length ? toolCalls : undefined,
+                usage,
+            },
+        };
+    }
+
+    /** Build the request shared by chat() and chatStream(). */
+    private async toRequest(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): Promise<GenerateContentRequest> {
+        // Gemini only reads inline media (or its own Files API URIs)
+        const geminiMessages = this.toGeminiContents(await resolveContent(messages, { fetchUrls: true }));
+
+        // Convert tools
+        const tools: Array<{ functionDeclarations: FunctionDeclaration[] }> = [];
+        if (options?.tools?.length) {
+            tools.push({
+                functionDeclarations: options.tools.map((t) =>
+                    this.toFunctionDeclaration(t)
+                ),
+            });
+        }
+
+        return {
+            contents: geminiMessages,
+            tools: tools.length > 0 ? tools : undefined,
+        };
+    }
+
+    /** Convert Gemini usage metadata to ZEN AI format. */
+    private toUsage(meta: UsageMetadata): TokenUsage {
+        const cached = meta.cachedContentTokenCount ?? 0;
+        return {
+            promptTokens: meta.promptTokenCount,
+            completionTokens: meta.candidatesTokenCount,
+            totalTokens: meta.totalTokenCount,
+            ...(cached > 0 ? { cachedPromptTokens: cached } : {}),
+        };
+    }
+
     /** Convert ZEN AI messages to Gemini Content format. */
     private toGeminiContents(messages: ChatMessage[]): Content[] {
         const contents: Content[] = [];
@@ -144,36 +285,47 @@ export class GoogleAdapter implements LLMAdapter {
                         {
                             functionResponse: {
                                 name: msg.toolCallId ?? "unknown",
-                                response: { result: msg.content },
+                                response: { result: contentText(msg.content) },
                             },
                         },
                     ],
                 });
+                // Function responses are text-only: images/files follow as a user turn
+                const media = toContentParts(msg.content).filter((p) => p.type !== "text");
+                if (media.length) {
+                    contents.push({ role: "user", parts: media.map((p) => this.toGeminiPart(p)) });
+                }
             } else {
                 contents.push({
                     role: msg.role === "assistant" ? "model" : "user",
-                    parts: [{ text: msg.content }],
+                    parts: msg.role === "assistant"
+                        ? [{ text: contentText(msg.content) }]
+                        : toContentParts(msg.content).map((p) => this.toGeminiPart(p)),
                 });
             }
         }
         return contents;
     }
 
+    /** Convert a content part (already resolved) to a Gemini part. */
+    private toGeminiPart(part: ContentPart): Part {
+        if (part.type !== "text" && part.data && part.mimeType) {
+            return { inlineData: { mimeType: part.mimeType, data: part.data } };
+        }
+        return { text: part.type === "text" ? part.text : contentText([part]) };
+    }
+
     /** Convert LLMToolDefinition to Gemini FunctionDeclaration. */
     private toFunctionDeclaration(
         tool: LLMToolDefinition,
     ): FunctionDeclaration {
-        // Simplified parameter conversion
         // Note: Gemini schema is stricter than generic JSON schema
-        const properties: Record<string, any> = {};
+        const properties: Record<string, unknown> = {};
         const required = tool.parameters.required || [];
 
         if (tool.parameters.properties) {
             for (const [key, val] of Object.entries(tool.parameters.properties)) {
-                properties[key] = {
-                    type: this.mapSchemaType(val.type),
-                    description: val.description,
-                };
+                properties[key] = this.toGeminiSchema(val);
             }
         }
 
@@ -188,6 +340,29 @@ export class GoogleAdapter implements LLMAdapter {
         } as FunctionDeclaration;
     }
 
+    /**
+     * Convert a JSON Schema to Gemini's schema subset (recursively).
+     * Keywords Gemini doesn't know (bounds, patterns, ...) are dropped;
+     * the agent still validates them before execution.
+     */
+    private toGeminiSchema(schema: JSONSchema): Record<string, unknown> {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? "string"];
+        const type = types.find((t) => t !== "null") ?? "string";
+
+        const out: Record<string, unknown> = { type: this.mapSchemaType(type) };
+        if (types.includes("null")) out.nullable = true;
+        if (schema.description) out.description = schema.description;
+        if (schema.enum && type === "string") out.enum = schema.enum.map(String);
+        if (schema.items) out.items = this.toGeminiSchema(schema.items);
+        if (schema.properties) {
+            out.properties = Object.fromEntries(
+                Object.entries(schema.properties).map(([k, v]) => [k, this.toGeminiSchema(v)]),
+            );
+            if (schema.required?.length) out.required = schema.required;
+        }
+        return out;
+    }
+
     private mapSchemaType(type: string): SchemaType {
         switch (type.toLowerCase()) {
             case "string": return SchemaType.STRING;
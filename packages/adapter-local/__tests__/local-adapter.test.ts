@@ -0,0 +1,211 @@
+// ============================================================================
+// ZEN AI SDK — Local Adapter Tests
+// Runs against a tiny in-process OpenAI-compatible HTTP server.
+// ============================================================================
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { LocalAdapter, extractToolCalls } from "../src/local-adapter.js";
+import type { LLMToolDefinition } from "@zen-ai/core";
+
+interface RecordedRequest {
+    path: string;
+    headers: IncomingMessage["headers"];
+    body: any;
+}
+
+/** Requests seen by the stand-in server, and the replies it will give (FIFO). */
+const requests: RecordedRequest[] = [];
+let replies: Array<{ status?: number; body: unknown }> = [];
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+    server = createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => { raw += chunk; });
+        req.on("end", () => {
+            requests.push({ path: req.url ?? "", headers: req.headers, body: raw ? JSON.parse(raw) : null });
+            const reply = replies.shift() ?? { status: 500, body: { error: "no reply queued" } };
+            res.writeHead(reply.status ?? 200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    requests.length = 0;
+    replies = [];
+});
+
+function chatReply(message: Record<string, unknown>, usage?: Record<string, number>) {
+    return { body: { choices: [{ message: { role: "assistant", content: null, ...message } }], usage } };
+}
+
+const weatherTool: LLMToolDefinition = {
+    name: "get_weather",
+    description: "Current weather for a city",
+    parameters: { type: "object", properties: { city: { type: "string" } }, required: ["city"] },
+};
+
+describe("LocalAdapter", () => {
+    it("should complete a prompt and report usage", async () => {
+        replies.push(chatReply({ content: "Hello from llama" }, { prompt_tokens: 7, completion_tokens: 3, total_tokens: 10 }));
+        const llm = new LocalAdapter({ baseUrl: `${baseUrl}/`, model: "llama3.1" });
+
+        const result = await llm.completeWithUsage("Hello");
+
+        expect(result).toEqual({
+            content: "Hello from llama",
+            usage: { promptTokens: 7, completionTokens: 3, totalTokens: 10 },
+        });
+        expect(requests[0].path).toBe("/v1/chat/completions");
+        expect(requests[0].body).toMatchObject({ model: "llama3.1", messages: [{ role: "user", content: "Hello" }] });
+        expect(llm.provider).toBe("local");
+        expect(llm.pricing).toEqual({ input: 0, output: 0 });
+    });
+
+    it("should generate embeddings", async () => {
+        replies.push({ body: { data: [{ embedding: [0.1, 0.2, 0.3] }] } });
+        const llm = new LocalAdapter({ baseUrl, embeddingModel: "nomic-embed-text", apiKey: "secret" });
+
+        expect(await llm.embed("zen")).toEqual([0.1, 0.2, 0.3]);
+        expect(requests[0].path).toBe("/v1/embeddings");
+        expect(requests[0].body).toEqual({ model: "nomic-embed-text", input: "zen" });
+        expect(requests[0].headers.authorization).toBe("Bearer secret");
+    });
+
+    it("should send native tools and parse tool_calls", async () => {
+        replies.push(chatReply({
+            tool_calls: [
+                { id: "call_a", type: "function", function: { name: "get_weather", arguments: '{"city":"Kyoto"}' } },
+                // Some servers send object arguments and no id
+                { function: { name: "get_weather", arguments: { city: "Nara" } } },
+            ],
+        }));
+        const llm = new LocalAdapter({ baseUrl });
+
+        const result = await llm.chat(
+            [
+                { role: "system", content: "Be brief" },
+                { role: "assistant", content: "", toolCalls: [{ id: "c0", name: "get_weather", arguments: { city: "Osaka" } }] },
+                { role: "tool", content: "sunny", toolCallId: "c0" },
+            ],
+            { tools: [weatherTool] },
+        );
+
+        expect(result.toolCalls).toEqual([
+            { id: "call_a", name: "get_weather", arguments: { city: "Kyoto" } },
+            { id: "call_1", name: "get_weather", arguments: { city: "Nara" } },
+        ]);
+        const body = requests[0].body;
+        expect(body.tools[0].function.name).toBe("get_weather");
+        expect(body.messages[1].tool_calls[0].function.arguments).toBe('{"city":"Osaka"}');
+        expect(body.messages[2]).toEqual({ role: "tool", tool_call_id: "c0", content: "sunny" });
+    });
+
+    it("should fall back to JSON in the reply text when no tool_calls come back", async () => {
+        replies.push(chatReply({
+            content: 'Sure!\n```json\n{"name": "get_weather", "arguments": {"city": "Kyoto"}}\n```',
+        }));
+        const llm = new LocalAdapter({ baseUrl });
+
+        const result = await llm.chat([{ role: "user", content: "Weather?" }], { tools: [weatherTool] });
+
+        expect(result.content).toBe("Sure!");
+        expect(result.toolCalls).toEqual([{ id: "call_0", name: "get_weather", arguments: { city: "Kyoto" } }]);
+    });
+
+    it("should describe tools in the prompt in prompt mode", async () => {
+        replies.push(chatReply({ content: '{"tool_calls": [{"name": "get_weather", "arguments": {"city": "Kyoto"}}]}' }));
+        const llm = new LocalAdapter({ baseUrl, toolMode: "prompt" });
+
+        const result = await llm.chat(
+            [
+                { role: "system", content: "You are ZENNY" },
+                { role: "user", content: "Weather?" },
+                { role: "tool", content: "rainy", toolCallId: "c0" },
+            ],
+            { tools: [weatherTool] },
+        );
+
+        const body = requests[0].body;
+        expect(body.tools).toBeUndefined();
+        expect(body.messages[0].content).toContain("You are ZENNY");
+        expect(body.messages[0].content).toContain("get_weather");
+        expect(body.messages[2]).toEqual({ role: "user", content: "Tool result (c0):\nrainy" });
+        expect(result.content).toBeNull();
+        expect(result.toolCalls?.[0]).toMatchObject({ name: "get_weather", arguments: { city: "Kyoto" } });
+    });
+
+    it("should inline image URLs as data URLs and move tool images after the tool results", async () => {
+        replies.push({ body: "image-bytes" });
+        replies.push(chatReply({ content: "A cat" }));
+        const llm = new LocalAdapter({ baseUrl, model: "llava" });
+
+        await llm.chat([
+            { role: "user", content: [{ type: "text", text: "What is it?" }, { type: "image", url: `${baseUrl}/cat.png`, mimeType: "image/png" }] },
+            { role: "assistant", content: "", toolCalls: [{ id: "call_1", name: "snap", arguments: {} }] },
+            { role: "tool", toolCallId: "call_1", content: [{ type: "image", data: "cG5n", mimeType: "image/png" }] },
+        ]);
+
+        expect(requests[0].path).toBe("/v1/cat.png");
+        const { messages } = requests[1].body;
+        expect(messages[0].content).toEqual([
+            { type: "text", text: "What is it?" },
+            { type: "image_url", image_url: { url: `data:image/png;base64,${Buffer.from('"image-bytes"').toString("base64")}` } },
+        ]);
+        expect(messages[2]).toEqual({ role: "tool", tool_call_id: "call_1", content: "[image]" });
+        expect(messages[3]).toEqual({ role: "user", content: [{ type: "image_url", image_url: { url: "data:image/png;base64,cG5n" } }] });
+    });
+
+    it("should send response_format json_schema and repair invalid JSON", async () => {
+        replies.push(chatReply({ content: "Sure! {\"city\": " }));
+        replies.push(chatReply({ content: "```json\n{\"city\": \"Kyoto\"}\n```" }));
+        const llm = new LocalAdapter({ baseUrl, model: "llama3.1" });
+        const schema = weatherTool.parameters;
+
+        const result = await llm.completeJSON("Which city?", schema, { schemaName: "city" });
+
+        expect(result.value).toEqual({ city: "Kyoto" });
+        expect(requests[0].body.response_format).toEqual({
+            type: "json_schema",
+            json_schema: { name: "city", schema },
+        });
+        expect(requests[0].body.messages[0].content).toContain("matching this JSON Schema");
+        expect(requests[1].body.messages[0].content).toContain("no parseable JSON");
+    });
+
+    it("should throw with the server's error details", async () => {
+        replies.push({ status: 404, body: { error: "model 'nope' not found" } });
+        const llm = new LocalAdapter({ baseUrl, model: "nope" });
+
+        await expect(llm.complete("hi")).rejects.toThrow(/Local LLM request failed: 404.*model 'nope' not found/);
+    });
+});
+
+describe("extractToolCalls", () => {
+    it("should only accept known tools and keep surrounding text", () => {
+        const text = 'I will check. {"tool": "get_weather", "parameters": {"city": "Kyoto"}} Also {"name": "rm_rf", "arguments": {}}';
+
+        const result = extractToolCalls(text, ["get_weather"]);
+
+        expect(result.toolCalls).toEqual([{ id: "call_0", name: "get_weather", arguments: { city: "Kyoto" } }]);
+        expect(result.content).toBe('I will check.  Also {"name": "rm_rf", "arguments": {}}');
+    });
+
+    it("should return no calls for plain text", () => {
+        expect(extractToolCalls("Just {an aside} [1]", ["get_weather"])).toEqual({
+            content: "Just {an aside} [1]",
+            toolCalls: [],
+        });
+    });
+});
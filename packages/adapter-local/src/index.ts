@@ -0,0 +1,2 @@
+export { LocalAdapter, extractToolCalls } from "./local-adapter.js";
+export type { LocalAdapterConfig, LocalToolMode } from "./local-adapter.js";
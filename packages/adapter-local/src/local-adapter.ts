@@ -0,0 +1,501 @@
+// ============================================================================
+// ZEN AI SDK — Local Adapter
+// Pluggable LLM interface for any OpenAI-compatible server
+// (Ollama, llama.cpp server, vLLM, LM Studio) over plain fetch.
+// ============================================================================
+
+import { completeJSONWithRepair, contentText, mediaUrl, resolveContent, toContentParts } from "@zen-ai/core";
+import type {
+    LLMAdapter,
+    ChatMessage,
+    ChatResponse,
+    CompleteJSONOptions,
+    CompletionResponse,
+    ContentPart,
+    JSONCompletionResponse,
+    JSONSchema,
+    LLMToolDefinition,
+    LLMToolCall,
+    MessageContent,
+    ModelPricing,
+    TokenUsage,
+} from "@zen-ai/core";
+
+/**
+ * How tools are offered to the model.
+ * - native: sent as OpenAI `tools`; JSON found in the reply text is still
+ *   accepted when the server returns no tool_calls
+ * - prompt: described in the system prompt; calls are parsed out of the text
+ *   (for models without native function calling)
+ */
+export type LocalToolMode = "native" | "prompt";
+
+/** Configuration for the local adapter. */
+export interface LocalAdapterConfig {
+    /** Base URL of the OpenAI-compatible API. Default: "http://localhost:11434/v1" (Ollama). */
+    baseUrl?: string;
+    /** Model to use. Default: "llama3.1". */
+    model?: string;
+    /** Model to use for embeddings. Default: "nomic-embed-text". */
+    embeddingModel?: string;
+    /** Bearer token, for servers that require one (e.g. vLLM --api-key). */
+    apiKey?: string;
+    /** Temperature for completions. Default: 0.7. */
+    temperature?: number;
+    /** Maximum tokens for completions. Default: undefined (server default). */
+    maxTokens?: number;
+    /** How tools are offered to the model. Default: "native". */
+    toolMode?: LocalToolMode;
+    /** Request timeout in milliseconds. Default: 120000. */
+    timeoutMs?: number;
+    /** Rates for this model (USD per 1M tokens). Default: free. */
+    pricing?: ModelPricing;
+    /** Context window in tokens. Default: 32768 (the server's num_ctx may be lower). */
+    contextWindow?: number;
+}
+
+/** Local models cost nothing per token. */
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+/** OpenAI-compatible wire format (the subset used here). */
+interface WireToolCall {
+    id?: string;
+    type?: "function";
+    function: { name: string; arguments: string | Record<string, unknown> };
+}
+
+type WirePart =
+    | { type: "text"; text: string }
+    | { type: "image_url"; image_url: { url: string } };
+
+interface WireMessage {
+    role: "system" | "user" | "assistant" | "tool";
+    content: string | WirePart[] | null;
+    tool_calls?: WireToolCall[];
+    tool_call_id?: string;
+}
+
+interface WireUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens?: number;
+}
+
+interface WireChatResponse {
+    choices: Array<{ message: WireMessage & { content: string | null } }>;
+    usage?: WireUsage;
+}
+
+interface WireEmbeddingResponse {
+    data: Array<{ embedding: number[] }>;
+}
+
+/**
+ * Local LLM Adapter for ZEN AI.
+ *
+ * Talks to any server exposing `/chat/completions` and `/embeddings` in the
+ * OpenAI format, so agents can run fully offline.
+ *
+ * Supports:
+ * - Text completion
+ * - Embedding generation
+ * - Tool calling (native, or parsed from JSON in the reply text)
+ *
+ * Usage:
+ * ```ts
+ * const llm = new LocalAdapter({ baseUrl: "http://localhost:8080/v1", model: "qwen2.5-7b" });
+ * ```
+ */
+export class LocalAdapter implements LLMAdapter {
+    readonly provider = "local";
+    readonly model: string;
+    readonly pricing: ModelPricing;
+    readonly contextWindow?: number;
+    private baseUrl: string;
+    private embeddingModel: string;
+    private apiKey?: string;
+    private temperature: number;
+    private maxTokens?: number;
+    private toolMode: LocalToolMode;
+    private timeoutMs: number;
+
+    constructor(config: LocalAdapterConfig = {}) {
+        this.baseUrl = (config.baseUrl ?? "http://localhost:11434/v1").replace(/\/+$/, "");
+        this.model = config.model ?? "llama3.1";
+        this.embeddingModel = config.embeddingModel ?? "nomic-embed-text";
+        this.apiKey = config.apiKey;
+        this.temperature = config.temperature ?? 0.7;
+        this.maxTokens = config.maxTokens;
+        this.toolMode = config.toolMode ?? "native";
+        this.timeoutMs = config.timeoutMs ?? 120_000;
+        this.pricing = config.pricing ?? FREE;
+        this.contextWindow = config.contextWindow;
+    }
+
+    /** Generate a text completion. */
+    async complete(prompt: string): Promise<string> {
+        return (await this.completeWithUsage(prompt)).content;
+    }
+
+    /** Generate a text completion and report token usage. */
+    async completeWithUsage(prompt: string): Promise<CompletionResponse> {
+        const response = await this.post<WireChatResponse>("/chat/completions", {
+            model: this.model,
+            messages: [{ role: "user", content: prompt }],
+            temperature: this.temperature,
+            max_tokens: this.maxTokens,
+        });
+
+        return {
+            content: response.choices[0]?.message?.content ?? "",
+            usage: response.usage ? this.toUsage(response.usage) : undefined,
+        };
+    }
+
+    /**
+     * Generate JSON matching a schema. Sends an OpenAI `response_format`
+     * json_schema (grammar-constrained on Ollama, llama.cpp, vLLM and LM Studio)
+     * and keeps the schema in the prompt for servers that ignore it.
+     */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        return completeJSONWithRepair<T>(
+            async (p) => {
+                const response = await this.post<WireChatResponse>("/chat/completions", {
+                    model: this.model,
+                    messages: [{ role: "user", content: p }],
+                    temperature: this.temperature,
+                    max_tokens: this.maxTokens,
+                    response_format: {
+                        type: "json_schema",
+                        json_schema: { name: options?.schemaName ?? "response", schema },
+                    },
+                });
+                return {
+                    content: response.choices[0]?.message?.content ?? "",
+                    usage: response.usage ? this.toUsage(response.usage) : undefined,
+                };
+            },
+            prompt,
+            schema,
+            options,
+        );
+    }
+
+    /** Generate an embedding vector. */
+    async embed(text: string): Promise<number[]> {
+        const response = await this.post<WireEmbeddingResponse>("/embeddings", {
+            model: this.embeddingModel,
+            input: text,
+        });
+        const embedding = response.data?.[0]?.embedding;
+        if (!embedding) {
+            throw new Error("Local LLM returned no embedding");
+        }
+        return embedding;
+    }
+
+    /** Chat completion with optional tool calling. */
+    async chat(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): Promise<ChatResponse> {
+        const tools = options?.tools ?? [];
+        const promptTools = this.toolMode === "prompt" && tools.length > 0;
+        // Local servers take images as base64 data URLs only
+        const resolved = await resolveContent(messages, { fetchUrls: true });
+
+        const body: Record<string, unknown> = {
+            model: this.model,
+            messages: promptTools
+                ? this.withToolPrompt(resolved, tools).map((m) => this.toPlainMessage(m))
+                : this.toWireMessages(resolved),
+            temperature: this.temperature,
+            max_tokens: this.maxTokens,
+        };
+        if (tools.length > 0 && !promptTools) {
+            body.tools = tools.map((t) => ({
+                type: "function",
+                function: { name: t.name, description: t.description, parameters: t.parameters },
+            }));
+            body.tool_choice = "auto";
+        }
+
+        const response = await this.post<WireChatResponse>("/chat/completions", body);
+        const message = response.choices[0]?.message;
+        const usage = response.usage ? this.toUsage(response.usage) : undefined;
+
+        const nativeCalls = (message?.tool_calls ?? []).map((tc, i) => this.fromWireToolCall(tc, i));
+        if (nativeCalls.length > 0) {
+            return { content: message?.content || null, toolCalls: nativeCalls, usage };
+        }
+
+        // Fallback: tool calls written as JSON in the reply text
+        const text = message?.content ?? null;
+        if (text && tools.length > 0) {
+            const extracted = extractToolCalls(text, tools.map((t) => t.name));
+            if (extracted.toolCalls.length > 0) {
+                return { content: extracted.content, toolCalls: extracted.toolCalls, usage };
+            }
+        }
+
+        return { content: text, usage };
+    }
+
+    /** POST JSON to the server and parse the JSON reply. */
+    private async post<T>(path: string, body: Record<string, unknown>): Promise<T> {
+        const headers: Record<string, string> = { "Content-Type": "application/json" };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw new Error(
+                `Local LLM request failed: ${response.status} ${response.statusText}` +
+                (detail ? ` — ${detail.slice(0, 500)}` : ""),
+            );
+        }
+        return (await response.json()) as T;
+    }
+
+    /** Convert OpenAI-format usage to ZEN AI format. */
+    private toUsage(usage: WireUsage): TokenUsage {
+        return {
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens ?? usage.prompt_tokens + usage.completion_tokens,
+        };
+    }
+
+    /** Servers differ: arguments may be a JSON string or an object, and ids may be missing. */
+    private fromWireToolCall(tc: WireToolCall, index: number): LLMToolCall {
+        const args = tc.function.arguments;
+        return {
+            id: tc.id || `call_${index}`,
+            name: tc.function.name,
+            arguments: typeof args === "string" ? parseObject(args) ?? {} : args ?? {},
+        };
+    }
+
+    /** Convert messages; images/files of a run of tool results follow it as one user message. */
+    private toWireMessages(messages: ChatMessage[]): WireMessage[] {
+        const wire: WireMessage[] = [];
+        let toolMedia: ContentPart[] = [];
+        for (const msg of messages) {
+            if (msg.role !== "tool" && toolMedia.length) {
+                wire.push({ role: "user", content: this.toWireContent(toolMedia) });
+                toolMedia = [];
+            }
+            if (msg.role === "tool") {
+                toolMedia.push(...toContentParts(msg.content).filter((p) => p.type !== "text"));
+            }
+            wire.push(this.toWireMessage(msg));
+        }
+        if (toolMedia.length) {
+            wire.push({ role: "user", content: this.toWireContent(toolMedia) });
+        }
+        return wire;
+    }
+
+    private toWireMessage(msg: ChatMessage): WireMessage {
+        switch (msg.role) {
+            case "assistant":
+                if (msg.toolCalls?.length) {
+                    return {
+                        role: "assistant",
+                        content: contentText(msg.content) || null,
+                        tool_calls: msg.toolCalls.map((tc) => ({
+                            id: tc.id,
+                            type: "function",
+                            function: { name: tc.name, arguments: JSON.stringify(tc.arguments) },
+                        })),
+                    };
+                }
+                return { role: "assistant", content: contentText(msg.content) };
+            case "tool":
+                return { role: "tool", tool_call_id: msg.toolCallId ?? "", content: contentText(msg.content) };
+            case "system":
+                return { role: "system", content: contentText(msg.content) };
+            default:
+                return { role: msg.role, content: this.toWireContent(msg.content) };
+        }
+    }
+
+    /** Text stays a string; parts map to OpenAI text / image_url parts (files as placeholders). */
+    private toWireContent(content: MessageContent): string | WirePart[] {
+        if (typeof content === "string") return content;
+        return content.map((part): WirePart => {
+            const url = part.type === "image" ? mediaUrl(part) : undefined;
+            return url
+                ? { type: "image_url", image_url: { url } }
+                : { type: "text", text: part.type === "text" ? part.text : contentText([part]) };
+        });
+    }
+
+    /**
+     * Convert a message for a model without native tools:
+     * tool calls become JSON text, tool results become user messages.
+     */
+    private toPlainMessage(msg: ChatMessage): WireMessage {
+        if (msg.role === "assistant" && msg.toolCalls?.length) {
+            const calls = JSON.stringify({
+                tool_calls: msg.toolCalls.map((tc) => ({ name: tc.name, arguments: tc.arguments })),
+            });
+            const text = contentText(msg.content);
+            return { role: "assistant", content: text ? `${text}\n${calls}` : calls };
+        }
+        if (msg.role === "tool") {
+            const media = toContentParts(msg.content).filter((p) => p.type !== "text");
+            const text = `Tool result (${msg.toolCallId ?? "unknown"}):\n${contentText(msg.content)}`;
+            return { role: "user", content: media.length ? this.toWireContent([{ type: "text", text }, ...media]) : text };
+        }
+        return this.toWireMessage(msg);
+    }
+
+    /** Describe the tools, and how to call them, in the system prompt. */
+    private withToolPrompt(messages: ChatMessage[], tools: LLMToolDefinition[]): ChatMessage[] {
+        const toolPrompt = [
+            "## Tools",
+            "You can call these tools:",
+            ...tools.map((t) => `- ${t.name}: ${t.description}\n  parameters: ${JSON.stringify(t.parameters)}`),
+            "",
+            "To call tools, reply with ONLY this JSON and nothing else:",
+            '{"tool_calls": [{"name": "<tool name>", "arguments": {...}}]}',
+            "If no tool is needed, reply normally.",
+        ].join("\n");
+
+        const system = messages.find((m) => m.role === "system");
+        const rest = messages.filter((m) => m.role !== "system");
+        return [
+            { role: "system", content: system ? `${contentText(system.content)}\n\n${toolPrompt}` : toolPrompt },
+            ...rest,
+        ];
+    }
+}
+
+/**
+ * Extract tool calls written as JSON in model text.
+ *
+ * Accepts fenced or bare JSON in any of these shapes:
+ * - {"tool_calls": [{"name": ..., "arguments": {...}}]}
+ * - {"name": ..., "arguments": {...}}   ("parameters" is accepted too)
+ * - {"tool": ..., "arguments": {...}}
+ * - an array of the single-call shapes
+ *
+ * Only calls to known tool names are returned. The remaining text (JSON
+ * removed) is returned as content, or null if nothing is left.
+ */
+export function extractToolCalls(
+    text: string,
+    toolNames: string[],
+): { content: string | null; toolCalls: LLMToolCall[] } {
+    const known = new Set(toolNames);
+    const toolCalls: LLMToolCall[] = [];
+    let content = text;
+
+    for (const candidate of findJSONCandidates(text)) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(candidate.json);
+        } catch {
+            continue;
+        }
+        const calls = toCalls(parsed).filter((c) => known.has(c.name));
+        if (calls.length === 0) continue;
+
+        for (const call of calls) {
+            toolCalls.push({ id: `call_${toolCalls.length}`, ...call });
+        }
+        content = content.replace(candidate.raw, "");
+    }
+
+    content = content.trim();
+    return { content: content || null, toolCalls };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** JSON-looking spans of text: fenced code blocks first, then balanced {...} / [...]. */
+function findJSONCandidates(text: string): Array<{ raw: string; json: string }> {
+    const candidates: Array<{ raw: string; json: string }> = [];
+
+    const fence = /```(?:json)?\s*([\s\S]*?)```/g;
+    for (const match of text.matchAll(fence)) {
+        candidates.push({ raw: match[0], json: match[1].trim() });
+    }
+    if (candidates.length > 0) return candidates;
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] !== "{" && text[i] !== "[") continue;
+        const end = findClosing(text, i);
+        if (end === -1) continue;
+        const raw = text.slice(i, end + 1);
+        candidates.push({ raw, json: raw });
+        i = end;
+    }
+    return candidates;
+}
+
+/** Index of the bracket closing the one at `start`, skipping strings; -1 if unbalanced. */
+function findClosing(text: string, start: number): number {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === "\\") i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === "{" || ch === "[") depth++;
+        else if (ch === "}" || ch === "]") {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return -1;
+}
+
+/** Normalize the accepted call shapes to { name, arguments }. */
+function toCalls(value: unknown): Array<Omit<LLMToolCall, "id">> {
+    if (Array.isArray(value)) return value.flatMap(toCalls);
+    if (!value || typeof value !== "object") return [];
+
+    const obj = value as Record<string, unknown>;
+    if (Array.isArray(obj.tool_calls)) return obj.tool_calls.flatMap(toCalls);
+
+    // OpenAI-style {"function": {"name", "arguments"}}
+    if (obj.function && typeof obj.function === "object") return toCalls(obj.function);
+
+    const name = obj.name ?? obj.tool;
+    if (typeof name !== "string") return [];
+
+    const args = obj.arguments ?? obj.parameters ?? {};
+    const parsedArgs = typeof args === "string" ? parseObject(args) : args;
+    if (!parsedArgs || typeof parsedArgs !== "object" || Array.isArray(parsedArgs)) return [];
+
+    return [{ name, arguments: parsedArgs as Record<string, unknown> }];
+}
+
+function parseObject(json: string): Record<string, unknown> | undefined {
+    try {
+        const value: unknown = JSON.parse(json);
+        return value && typeof value === "object" && !Array.isArray(value)
+            ? (value as Record<string, unknown>)
+            : undefined;
+    } catch {
+        return undefined;
+    }
+}
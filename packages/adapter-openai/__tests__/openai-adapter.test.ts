@@ -50,6 +50,12 @@ describe("OpenAIAdapter", () => {
         expect(result).toBe("Hello from GPT");
     });
 
+    it("should complete without usage when the API omits it", async () => {
+        const result = await adapter.completeWithUsage("Hello");
+        expect(result.content).toBe("Hello from GPT");
+        expect(result.usage).toBeUndefined();
+    });
+
     it("should generate embeddings", async () => {
         const result = await adapter.embed("test text");
         expect(result).toHaveLength(1536);
@@ -108,4 +114,86 @@ describe("OpenAIAdapter", () => {
         );
         expect(result).toBeDefined();
     });
+
+    it("should send image parts and move tool images into a user message", async () => {
+        const create = (adapter as any).client.chat.completions.create;
+        await adapter.chat([
+            {
+                role: "user",
+                content: [
+                    { type: "text", text: "What is this?" },
+                    { type: "image", data: "aGk=", mimeType: "image/png" },
+                ],
+            },
+            { role: "assistant", content: "", toolCalls: [{ id: "call_1", name: "screenshot", arguments: {} }] },
+            {
+                role: "tool",
+                toolCallId: "call_1",
+                content: [{ type: "text", text: "captured" }, { type: "image", url: "https://example.com/s.png" }],
+            },
+        ]);
+
+        const { messages } = create.mock.calls.at(-1)[0];
+        expect(messages[0].content).toEqual([
+            { type: "text", text: "What is this?" },
+            { type: "image_url", image_url: { url: "data:image/png;base64,aGk=" } },
+        ]);
+        expect(messages[2]).toEqual({ role: "tool", tool_call_id: "call_1", content: "captured\n[image: https://example.com/s.png]" });
+        expect(messages[3]).toEqual({
+            role: "user",
+            content: [{ type: "image_url", image_url: { url: "https://example.com/s.png" } }],
+        });
+    });
+
+    it("should stream text and tool-call deltas, then the assembled response", async () => {
+        async function* chunks() {
+            yield { choices: [{ delta: { content: "Let me " } }] };
+            yield { choices: [{ delta: { content: "check." } }] };
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "lookup", arguments: '{"q":' } }] } }] };
+            yield { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: '"zen"}' } }] } }] };
+            yield { choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } };
+        }
+        const create = (adapter as any).client.chat.completions.create;
+        create.mockResolvedValueOnce(chunks());
+
+        const received = [];
+        for await (const chunk of adapter.chatStream([{ role: "user", content: "Find zen" }])) {
+            received.push(chunk);
+        }
+
+        expect(create.mock.calls.at(-1)[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+        expect(received.filter((c) => c.type === "text").map((c) => c.delta)).toEqual(["Let me ", "check."]);
+        expect(received.filter((c) => c.type === "tool_call")).toHaveLength(2);
+        expect(received.at(-1)).toEqual({
+            type: "done",
+            response: {
+                content: "Let me check.",
+                toolCalls: [{ id: "call_1", name: "lookup", arguments: { q: "zen" } }],
+                usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+            },
+        });
+    });
+
+    it("should request json_schema output and repair invalid replies", async () => {
+        const create = (adapter as any).client.chat.completions.create;
+        create
+            .mockResolvedValueOnce({ choices: [{ message: { content: 'The answer is 42.' } }] })
+            .mockResolvedValueOnce({ choices: [{ message: { content: '{"answer": "42"}' } }] });
+        const schema = {
+            type: "object" as const,
+            properties: { answer: { type: "string" as const } },
+            required: ["answer"],
+        };
+
+        const result = await adapter.completeJSON<{ answer: string }>("Answer", schema, { schemaName: "answer" });
+
+        expect(result.value).toEqual({ answer: "42" });
+        const [first, repair] = create.mock.calls.slice(-2).map((c: any[]) => c[0]);
+        expect(first.response_format).toEqual({
+            type: "json_schema",
+            json_schema: { name: "answer", schema, strict: false },
+        });
+        expect(first.messages[0].content).toBe("Answer");
+        expect(repair.messages[0].content).toContain("Your previous reply was invalid");
+    });
 });
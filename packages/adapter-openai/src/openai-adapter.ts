@@ -4,7 +4,9 @@
 // ============================================================================
 
 import OpenAI from "openai";
+import { completeJSONWithRepair, contentText, mediaUrl, resolveContent, toContentParts } from "@zen-ai/core";
 import type {
+    ChatCompletionContentPart,
     ChatCompletionCreateParamsNonStreaming,
     ChatCompletionTool,
     ChatCompletionMessageParam,
@@ -13,8 +15,16 @@ import type {
     LLMAdapter,
     ChatMessage,
     ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    ContentPart,
+    JSONCompletionResponse,
+    JSONSchema,
     LLMToolDefinition,
     LLMToolCall,
+    ModelPricing,
+    TokenUsage,
 } from "@zen-ai/core";
 
 /** Configuration for the OpenAI adapter. */
@@ -29,6 +39,10 @@ export interface OpenAIAdapterConfig {
     temperature?: number;
     /** Maximum tokens for completions. Default: undefined (model limit). */
     maxTokens?: number;
+    /** Override the registry rates for this model (USD per 1M tokens). */
+    pricing?: ModelPricing;
+    /** Context window in tokens. Default: the known limit of the model. */
+    contextWindow?: number;
 }
 
 /**
@@ -38,10 +52,14 @@ export interface OpenAIAdapterConfig {
  * - Text completion
  * - Embedding generation
  * - Function Calling (tool use)
+ * - Streaming chat (text and tool-call deltas)
  */
 export class OpenAIAdapter implements LLMAdapter {
+    readonly provider = "openai";
+    readonly model: string;
+    readonly pricing?: ModelPricing;
+    readonly contextWindow?: number;
     private client: OpenAI;
-    private model: string;
     private embeddingModel: string;
     private temperature: number;
     private maxTokens?: number;
@@ -54,10 +72,17 @@ export class OpenAIAdapter implements LLMAdapter {
         this.embeddingModel = config.embeddingModel ?? "text-embedding-3-small";
         this.temperature = config.temperature ?? 0.7;
         this.maxTokens = config.maxTokens;
+        this.pricing = config.pricing;
+        this.contextWindow = config.contextWindow;
     }
 
     /** Generate a text completion. */
     async complete(prompt: string): Promise<string> {
+        return (await this.completeWithUsage(prompt)).content;
+    }
+
+    /** Generate a text completion and report token usage. */
+    async completeWithUsage(prompt: string): Promise<CompletionResponse> {
         const response = await this.client.chat.completions.create({
             model: this.model,
             messages: [{ role: "user", content: prompt }],
@@ -65,7 +90,55 @@ export class OpenAIAdapter implements LLMAdapter {
             max_tokens: this.maxTokens,
         });
 
-        return response.choices[0]?.message?.content ?? "";
+        const usage = response.usage ? this.toUsage(response.usage) : undefined;
+
+        return {
+            content: response.choices[0]?.message?.content ?? "",
+            usage,
+        };
+    }
+
+    /**
+     * Generate JSON matching a schema with Structured Outputs.
+     * Object schemas use response_format json_schema; other schemas use JSON mode
+     * with the schema in the prompt. Output is still validated and repaired.
+     */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        // json_schema requires an object at the root
+        const native = schema.type === "object";
+        const responseFormat = native
+            ? {
+                type: "json_schema" as const,
+                json_schema: {
+                    name: options?.schemaName ?? "response",
+                    schema: schema as Record<string, unknown>,
+                    strict: false,
+                },
+            }
+            : { type: "json_object" as const };
+
+        return completeJSONWithRepair<T>(
+            async (p) => {
+                const response = await this.client.chat.completions.create({
+                    model: this.model,
+                    messages: [{ role: "user", content: p }],
+                    temperature: this.temperature,
+                    max_tokens: this.maxTokens,
+                    response_format: responseFormat,
+                });
+                return {
+                    content: response.choices[0]?.message?.content ?? "",
+                    usage: response.usage ? this.toUsage(response.usage) : undefined,
+                };
+            },
+            prompt,
+            schema,
+            { ...options, schemaInPrompt: !native },
+        );
     }
 
     /** Generate an embedding vector. */
@@ -82,7 +155,105 @@ export class OpenAIAdapter implements LLMAdapter {
         messages: ChatMessage[],
         options?: { tools?: LLMToolDefinition[] },
     ): Promise<ChatResponse> {
-        const openaiMessages = messages.map((m) => this.toOpenAIMessage(m));
+        const response =
+            await this.client.chat.completions.create(await this.toRequestParams(messages, options));
+
+        const choice = response.choices[0];
+        const toolCalls = choice?.message?.tool_calls?.map((tc) => ({
+            id: tc.id,
+            name: tc.function.name,
+            arguments: JSON.parse(tc.function.arguments),
+        }));
+
+        const usage = response.usage ? this.toUsage(response.usage) : undefined;
+
+        return {
+            content: choice?.message?.content ?? null,
+            toolCalls: toolCalls?.length ? toolCalls : undefined,
+            usage,
+        };
+    }
+
+    /** Streaming chat completion: yields deltas, then the assembled response. */
+    async *chatStream(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): AsyncGenerator<ChatStreamChunk> {
+        const stream = await this.client.chat.completions.create({
+            ...(await this.toRequestParams(messages, options)),
+            stream: true,
+            stream_options: { include_usage: true },
+        });
+
+        let content = "";
+        let usage: TokenUsage | undefined;
+        const calls: Array<{ id: string; name: string; arguments: string }> = [];
+
+        for await (const chunk of stream) {
+            if (chunk.usage) usage = this.toUsage(chunk.usage);
+            const delta = chunk.choices[0]?.delta;
+            if (!delta) continue;
+
+            if (delta.content) {
+                content += delta.content;
+                yield { type: "text", delta: delta.content };
+            }
+            for (const tc of delta.tool_calls ?? []) {
+                const call = (calls[tc.index] ??= { id: "", name: "", arguments: "" });
+                if (tc.id) call.id = tc.id;
+                if (tc.function?.name) call.name += tc.function.name;
+                const argumentsDelta = tc.function?.arguments ?? "";
+                call.arguments += argumentsDelta;
+                yield {
+                    type: "tool_call",
+                    index: tc.index,
+                    id: tc.id,
+                    name: tc.function?.name,
+                    argumentsDelta,
+                };
+            }
+        }
+
+        const toolCalls: LLMToolCall[] = calls.filter(Boolean).map((c) => ({
+            id: c.id,
+            name: c.name,
+            arguments: c.arguments ? JSON.parse(c.arguments) : {},
+        }));
+
+        yield {
+            type: "done",
+            response: {
+                content: content || null,
+                toolCalls: toolCalls.length ? toolCalls : undefined,
+                usage,
+            },
+        };
+    }
+
+    /** Build the request shared by chat() and chatStream(). */
+    private async toRequestParams(
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): Promise<ChatCompletionCreateParamsNonStreaming> {
+        // Image URLs are fetched by OpenAI; files must be sent inline
+        const resolved = await resolveContent(messages, { fetchUrls: ["file"] });
+
+        // Tool messages are text-only: their images/files follow in one user message
+        const openaiMessages: ChatCompletionMessageParam[] = [];
+        let toolMedia: ContentPart[] = [];
+        for (const msg of resolved) {
+            if (msg.role !== "tool" && toolMedia.length) {
+                openaiMessages.push({ role: "user", content: toolMedia.map((p) => this.toOpenAIPart(p)) });
+                toolMedia = [];
+            }
+            if (msg.role === "tool") {
+                toolMedia.push(...toContentParts(msg.content).filter((p) => p.type !== "text"));
+            }
+            openaiMessages.push(this.toOpenAIMessage(msg));
+        }
+        if (toolMedia.length) {
+            openaiMessages.push({ role: "user", content: toolMedia.map((p) => this.toOpenAIPart(p)) });
+        }
 
         // Convert tools
         const openaiTools: ChatCompletionTool[] = [];
@@ -109,26 +280,17 @@ export class OpenAIAdapter implements LLMAdapter {
             requestParams.tool_choice = "auto";
         }
 
-        const response =
-            await this.client.chat.completions.create(requestParams);
-
-        const choice = response.choices[0];
-        const toolCalls = choice?.message?.tool_calls?.map((tc) => ({
-            id: tc.id,
-            name: tc.function.name,
-            arguments: JSON.parse(tc.function.arguments),
-        }));
-
-        const usage = response.usage ? {
-            promptTokens: response.usage.prompt_tokens,
-            completionTokens: response.usage.completion_tokens,
-            totalTokens: response.usage.total_tokens,
-        } : undefined;
+        return requestParams;
+    }
 
+    /** Convert OpenAI usage to ZEN AI format. */
+    private toUsage(usage: OpenAI.CompletionUsage): TokenUsage {
+        const cached = usage.prompt_tokens_details?.cached_tokens ?? 0;
         return {
-            content: choice?.message?.content ?? null,
-            toolCalls: toolCalls?.length ? toolCalls : undefined,
-            usage,
+            promptTokens: usage.prompt_tokens,
+            completionTokens: usage.completion_tokens,
+            totalTokens: usage.total_tokens,
+            ...(cached > 0 ? { cachedPromptTokens: cached } : {}),
         };
     }
 
@@ -136,14 +298,19 @@ export class OpenAIAdapter implements LLMAdapter {
     private toOpenAIMessage(msg: ChatMessage): ChatCompletionMessageParam {
         switch (msg.role) {
             case "system":
-                return { role: "system", content: msg.content };
+                return { role: "system", content: contentText(msg.content) };
             case "user":
-                return { role: "user", content: msg.content };
+                return {
+                    role: "user",
+                    content: typeof msg.content === "string"
+                        ? msg.content
+                        : msg.content.map((p) => this.toOpenAIPart(p)),
+                };
             case "assistant":
                 if (msg.toolCalls) {
                     return {
                         role: "assistant",
-                        content: msg.content,
+                        content: contentText(msg.content),
                         tool_calls: msg.toolCalls.map((tc) => ({
                             id: tc.id,
                             type: "function",
@@ -154,13 +321,25 @@ export class OpenAIAdapter implements LLMAdapter {
                         })),
                     };
                 }
-                return { role: "assistant", content: msg.content || null };
+                return { role: "assistant", content: contentText(msg.content) || null };
             case "tool":
                 return {
                     role: "tool",
                     tool_call_id: msg.toolCallId ?? "",
-                    content: msg.content,
+                    content: contentText(msg.content),
                 };
         }
     }
+
+    /** Convert a content part (already resolved) to an OpenAI content part. */
+    private toOpenAIPart(part: ContentPart): ChatCompletionContentPart {
+        const url = part.type === "text" ? undefined : mediaUrl(part);
+        if (part.type === "image" && url) {
+            return { type: "image_url", image_url: { url } };
+        }
+        if (part.type === "file" && part.data) {
+            return { type: "file", file: { file_data: url, filename: part.name ?? "file" } };
+        }
+        return { type: "text", text: contentText([part]) };
+    }
 }
@@ -79,6 +79,8 @@ const agent = new ZenAgent({
   milestones: [
     { id: "m1", description: "First milestone", resources: [] },
   ],
+  // Or drop milestones and let the LLM plan them from the goal:
+  // planner: true,
 
   tools: [fileReadTool, fileWriteTool, httpTool],
 
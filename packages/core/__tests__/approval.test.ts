@@ -0,0 +1,105 @@
+// ============================================================================
+// ZEN AI SDK — Tool Approval Tests
+// Approval rules, approve / deny / timeout, and stop() while waiting.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { RISKY_TOOL_RULES, matchApprovalRule } from "../src/approval.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { Tool, ZenAgentConfig } from "../src/types.js";
+
+function deltaJSON(progress: number): string {
+    return JSON.stringify({ description: `Progress: ${progress * 100}%`, progress, gaps: ["deploy"], isComplete: false });
+}
+
+function createAgent(tool: Tool, config: Partial<ZenAgentConfig> = {}) {
+    const llm = new MockLLMAdapter({
+        completeResponses: [deltaJSON(0.1), deltaJSON(0.5)],
+        chatResponses: [{ content: null, toolCalls: [{ id: "call_1", name: tool.name, arguments: { command: "rm -rf dist" } }] }],
+    });
+    const agent = new ZenAgent({ goal: "Deploy", llm, tools: [tool], maxSteps: 1, ...config });
+    return { agent, llm };
+}
+
+function shellTool(): Tool {
+    return {
+        name: "shell_exec",
+        description: "Run a command",
+        parameters: { type: "object", properties: { command: { type: "string" } }, required: ["command"] },
+        execute: vi.fn(async () => ({ success: true, output: "ok" })),
+    };
+}
+
+describe("matchApprovalRule", () => {
+    it("should match tool names and argument patterns", () => {
+        expect(matchApprovalRule(RISKY_TOOL_RULES, "shell_exec", { command: "ls" })?.reason).toBe("Runs a shell command");
+        expect(matchApprovalRule(RISKY_TOOL_RULES, "code_edit", { filePath: "a.ts" })).toBeDefined();
+        expect(matchApprovalRule(RISKY_TOOL_RULES, "http_request", { url: "https://x", method: "POST" })).toBeDefined();
+        expect(matchApprovalRule(RISKY_TOOL_RULES, "http_request", { url: "https://x", method: "GET" })).toBeUndefined();
+        expect(matchApprovalRule(RISKY_TOOL_RULES, "file_read", { path: "a.ts" })).toBeUndefined();
+
+        const rules = [{ tool: "*", args: { path: ".env" } }];
+        expect(matchApprovalRule(rules, "file_read", { path: "app/.env" })).toBeDefined();
+        expect(matchApprovalRule(rules, "file_read", {})).toBeUndefined();
+    });
+});
+
+describe("ZenAgent approval gate", () => {
+    it("should run an approved call and skip a denied one", async () => {
+        for (const approved of [true, false]) {
+            const tool = shellTool();
+            const { agent, llm } = createAgent(tool, { approval: { rules: RISKY_TOOL_RULES } });
+            const resolved: Array<{ approved: boolean; by?: string; timedOut: boolean }> = [];
+            agent.on("approval:requested", ({ requestId, toolName, parameters, reason }) => {
+                expect({ toolName, parameters, reason }).toEqual({
+                    toolName: "shell_exec",
+                    parameters: { command: "rm -rf dist" },
+                    reason: "Runs a shell command",
+                });
+                agent.resolveApproval(requestId, { approved, by: "alice", reason: approved ? undefined : "too risky" });
+            });
+            agent.on("approval:resolved", ({ approved: ok, by, timedOut }) => { resolved.push({ approved: ok, by, timedOut }); });
+
+            await agent.run();
+
+            expect(resolved).toEqual([{ approved, by: "alice", timedOut: false }]);
+            expect(tool.execute).toHaveBeenCalledTimes(approved ? 1 : 0);
+            if (!approved) {
+                const history = agent.getState().chatHistory!;
+                expect(history.at(-1)?.content).toContain("shell_exec was denied by alice: too risky");
+                expect(llm.chatCalls).toHaveLength(1);
+            }
+        }
+    });
+
+    it("should apply the timeout decision when nobody answers", async () => {
+        for (const onTimeout of ["deny", "approve"] as const) {
+            const tool = shellTool();
+            const { agent } = createAgent(tool, { approval: { rules: [{ tool: "shell_exec" }], timeoutMs: 10, onTimeout } });
+            let timedOut = false;
+            agent.on("approval:resolved", (e) => { timedOut = e.timedOut; });
+
+            await agent.run();
+
+            expect(timedOut).toBe(true);
+            expect(tool.execute).toHaveBeenCalledTimes(onTimeout === "approve" ? 1 : 0);
+        }
+    });
+
+    it("should deny a pending request of a tool marked requiresApproval when stopped", async () => {
+        const tool = { ...shellTool(), requiresApproval: true };
+        const { agent } = createAgent(tool);
+        let requestId = "";
+        agent.on("approval:requested", (e) => {
+            requestId = e.requestId;
+            setTimeout(() => agent.stop(), 0);
+        });
+
+        await agent.run();
+
+        expect(requestId).not.toBe("");
+        expect(tool.execute).not.toHaveBeenCalled();
+        expect(agent.resolveApproval(requestId, { approved: true })).toBe(false);
+    });
+});
@@ -0,0 +1,84 @@
+// ============================================================================
+// ZEN AI SDK — Budget Tests
+// Verifies token / USD ceilings end a run cleanly.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { ZenAgent } from "../src/zen-agent.js";
+import type { LLMAdapter, Tool, TokenUsage, ZenAgentEvents } from "../src/types.js";
+
+const STEP_USAGE: TokenUsage = { promptTokens: 60, completionTokens: 40, totalTokens: 100 };
+
+/** LLM that never completes the goal; every call costs STEP_USAGE. */
+function createSpendingLLM(): LLMAdapter {
+    return {
+        provider: "test",
+        model: "test-model",
+        pricing: { input: 1000, output: 1000 }, // $0.1 per 100 tokens
+        complete: vi.fn(async () => ""),
+        completeWithUsage: vi.fn(async () => ({
+            content: JSON.stringify({ description: "gap", progress: 0.1, gaps: ["g"], isComplete: false }),
+            usage: STEP_USAGE,
+        })),
+        embed: vi.fn(async () => []),
+        chat: vi.fn(async () => ({
+            content: null,
+            toolCalls: [{ id: "c1", name: "work", arguments: {} }],
+            usage: STEP_USAGE,
+        })),
+    };
+}
+
+const workTool: Tool = {
+    name: "work",
+    description: "Does work",
+    parameters: { type: "object", properties: {} },
+    execute: async () => ({ success: true, output: "ok" }),
+};
+
+function createAgent(budget: ConstructorParameters<typeof ZenAgent>[0]["budget"]) {
+    return new ZenAgent({ goal: "Spend", llm: createSpendingLLM(), tools: [workTool], maxSteps: 20, budget });
+}
+
+describe("Budget", () => {
+    it("should end the run with budget:exceeded at the token limit", async () => {
+        const agent = createAgent({ maxTokens: 450 });
+        const exceeded = vi.fn();
+        let complete: ZenAgentEvents["agent:complete"] | undefined;
+        agent.on("budget:exceeded", exceeded);
+        agent.on("agent:complete", (p) => { complete = p; });
+
+        await agent.run();
+
+        // delta + decide = 200 tokens per step → limit reached during step 3
+        expect(exceeded).toHaveBeenCalledTimes(1);
+        expect(exceeded.mock.calls[0][0]).toMatchObject({ limit: "tokens", max: 450 });
+        expect(complete?.reason).toBe("budget:exceeded");
+        expect(complete?.totalSteps).toBe(2);
+        expect(complete?.usage.totalTokens).toBe(500);
+    });
+
+    it("should warn once at the soft threshold", async () => {
+        const agent = createAgent({ maxCostUsd: 1, warnAt: 0.5 });
+        const warnings: Array<ZenAgentEvents["budget:warning"]> = [];
+        agent.on("budget:warning", (p) => warnings.push(p));
+
+        await agent.run();
+
+        expect(warnings).toHaveLength(1);
+        expect(warnings[0].limit).toBe("cost");
+        expect(warnings[0].used).toBeGreaterThanOrEqual(0.5);
+        expect(agent.calculateCost()).toBeGreaterThanOrEqual(1);
+    });
+
+    it("should report max_steps when no budget is set", async () => {
+        const agent = new ZenAgent({ goal: "Spend", llm: createSpendingLLM(), tools: [workTool], maxSteps: 2 });
+        const reasons: string[] = [];
+        agent.on("agent:complete", ({ reason }) => reasons.push(reason));
+        agent.on("budget:exceeded", () => { throw new Error("unexpected"); });
+
+        await agent.run();
+
+        expect(reasons).toEqual(["max_steps"]);
+    });
+});
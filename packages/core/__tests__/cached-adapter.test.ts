@@ -0,0 +1,158 @@
+// ============================================================================
+// ZEN AI SDK — Cached Adapter Tests
+// Verifies LRU / disk / TTL caching and hit-miss reporting.
+// ============================================================================
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CachedAdapter } from "../src/cached-adapter.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { LLMAdapter, TokenUsage } from "../src/types.js";
+
+const USAGE: TokenUsage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+/** Adapter that answers "<prompt>#<n>" so repeated calls are distinguishable. */
+function createCountingLLM(): LLMAdapter & { calls: number } {
+    const llm = {
+        provider: "openai",
+        model: "gpt-4o-mini",
+        calls: 0,
+        complete: vi.fn(async (prompt: string) => `${prompt}#${++llm.calls}`),
+        completeWithUsage: vi.fn(async (prompt: string) => ({ content: `${prompt}#${++llm.calls}`, usage: USAGE })),
+        embed: vi.fn(async (text: string) => { llm.calls++; return [text.length, 1]; }),
+        chat: vi.fn(async () => ({ content: `chat#${++llm.calls}`, usage: USAGE })),
+    };
+    return llm;
+}
+
+describe("CachedAdapter", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-cache-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should cache embeddings by default and count hits and misses", async () => {
+        const inner = createCountingLLM();
+        const llm = new CachedAdapter(inner);
+
+        expect(await llm.embed("zen")).toEqual([3, 1]);
+        expect(await llm.embed("zen")).toEqual([3, 1]);
+        await llm.embed("other");
+
+        expect(inner.embed).toHaveBeenCalledTimes(2);
+        expect(llm.cacheStats()).toEqual({ hits: 1, misses: 2 });
+    });
+
+    it("should not cache completions unless opted in", async () => {
+        const plain = new CachedAdapter(createCountingLLM());
+        expect(await plain.complete("p")).toBe("p#1");
+        expect(await plain.complete("p")).toBe("p#2");
+
+        const byPhase = new CachedAdapter(createCountingLLM(), { completions: ["milestone"] });
+        expect(await byPhase.complete("p", { phase: "milestone" })).toBe("p#1");
+        expect(await byPhase.completeWithUsage("p", { phase: "milestone" })).toEqual({ content: "p#1" });
+        expect(await byPhase.complete("p", { phase: "delta" })).toBe("p#2");
+
+        const all = new CachedAdapter(createCountingLLM(), { completions: true });
+        const first = await all.chat([{ role: "user", content: "hi" }]);
+        const second = await all.chat([{ role: "user", content: "hi" }]);
+        expect(first.usage).toEqual(USAGE);
+        expect(second).toEqual({ content: "chat#1" });
+    });
+
+    it("should cache completeJSON results keyed by prompt and schema", async () => {
+        const inner = createCountingLLM();
+        inner.completeWithUsage.mockImplementation(async () => ({ content: `{"n": ${++inner.calls}}`, usage: USAGE }));
+        const llm = new CachedAdapter(inner, { completions: ["plan"] });
+        const schema = { type: "object", properties: { n: { type: "number" } }, required: ["n"] };
+
+        expect(await llm.completeJSON("p", schema, { phase: "plan" })).toEqual({ value: { n: 1 }, usage: USAGE });
+        expect(await llm.completeJSON("p", schema, { phase: "plan" })).toEqual({ value: { n: 1 } });
+        expect((await llm.completeJSON("p", { ...schema, required: [] }, { phase: "plan" })).value).toEqual({ n: 2 });
+        expect((await llm.completeJSON("p", schema, { phase: "delta" })).value).toEqual({ n: 3 });
+        expect(llm.cacheStats()).toEqual({ hits: 1, misses: 2 });
+    });
+
+    it("should evict the least recently used entry", async () => {
+        const inner = createCountingLLM();
+        const llm = new CachedAdapter(inner, { maxEntries: 2 });
+
+        await llm.embed("a");
+        await llm.embed("b");
+        await llm.embed("a"); // a is now the most recent
+        await llm.embed("c"); // evicts b
+        await llm.embed("a");
+        await llm.embed("b");
+
+        expect(inner.embed).toHaveBeenCalledTimes(4);
+    });
+
+    it("should expire entries after the TTL", async () => {
+        vi.useFakeTimers();
+        try {
+            const inner = createCountingLLM();
+            const llm = new CachedAdapter(inner, { ttlMs: 1000 });
+
+            await llm.embed("a");
+            vi.advanceTimersByTime(999);
+            await llm.embed("a");
+            vi.advanceTimersByTime(2);
+            await llm.embed("a");
+
+            expect(inner.embed).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("should share the disk cache across instances, keyed by model", async () => {
+        const first = new CachedAdapter(createCountingLLM(), { cacheDir: tmpDir });
+        await first.embed("zen");
+
+        const inner = createCountingLLM();
+        const second = new CachedAdapter(inner, { cacheDir: tmpDir });
+        expect(await second.embed("zen")).toEqual([3, 1]);
+        expect(inner.embed).not.toHaveBeenCalled();
+
+        const otherModel = { ...createCountingLLM(), model: "gpt-4o" };
+        await new CachedAdapter(otherModel, { cacheDir: tmpDir }).embed("zen");
+        expect(otherModel.embed).toHaveBeenCalledTimes(1);
+
+        second.clear();
+        expect(fs.readdirSync(tmpDir)).toEqual([]);
+        expect(second.cacheStats()).toEqual({ hits: 0, misses: 0 });
+    });
+
+    it("should report the run's cache hits and misses in agent:complete", async () => {
+        const inner = new MockLLMAdapter({
+            completeResponses: [
+                JSON.stringify({ description: "gap", progress: 0.5, gaps: ["g"], isComplete: false }),
+                "NO",
+                JSON.stringify({ description: "done", progress: 1, gaps: [], isComplete: true }),
+            ],
+        });
+        const llm = new CachedAdapter(inner, { completions: ["milestone"] });
+        await llm.embed("warm-up"); // before the run: not counted
+
+        const agent = new ZenAgent({
+            goal: "Cache",
+            llm,
+            milestones: [{ id: "m1", description: "Ready", resources: ["ready"] }],
+            snapshot: () => ({ status: "ready" }),
+            maxSteps: 3,
+        });
+        let cache: { hits: number; misses: number } | undefined;
+        agent.on("agent:complete", (p) => { cache = p.cache; });
+        await agent.run();
+
+        expect(cache).toEqual({ hits: 0, misses: 1 });
+    });
+});
@@ -0,0 +1,145 @@
+// ============================================================================
+// ZEN AI SDK — Record / Replay Tests
+// Verifies a recorded agent run replays identically with no live adapter.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { RecordingAdapter, ReplayAdapter, cassetteKey, loadCassette } from "../src/cassette.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { ChatStreamChunk, LLMAdapter, Tool } from "../src/types.js";
+
+function deltaJSON(progress: number, isComplete = false): string {
+    return JSON.stringify({ description: "gap", progress, gaps: ["g"], isComplete });
+}
+
+const testTool: Tool = {
+    name: "test_tool",
+    description: "A test tool",
+    parameters: { type: "object", properties: {} },
+    execute: async () => ({ success: true, output: "ok" }),
+};
+
+function createAgent(llm: LLMAdapter): ZenAgent {
+    return new ZenAgent({
+        goal: "Replay me",
+        llm,
+        tools: [testTool],
+        milestones: [{ id: "m1", description: "Ready", resources: ["ready"] }],
+        snapshot: () => ({ status: "ready" }),
+        maxSteps: 5,
+    });
+}
+
+describe("RecordingAdapter / ReplayAdapter", () => {
+    let tmpDir: string;
+    let cassettePath: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-cassette-test-"));
+        cassettePath = path.join(tmpDir, "fixtures", "run.json");
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should record an agent run and replay it without the live adapter", async () => {
+        const live = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.5), "NO", deltaJSON(1, true)],
+            chatResponses: [{ content: null, toolCalls: [{ id: "c1", name: "test_tool", arguments: {} }] }],
+        });
+        const recorded = createAgent(new RecordingAdapter(live, { cassettePath }));
+        await recorded.run();
+
+        const cassette = loadCassette(cassettePath);
+        expect(cassette.entries.map((e) => e.method)).toEqual(["completeJSON", "complete", "chat", "completeJSON"]);
+
+        const replay = new ReplayAdapter({ cassettePath });
+        const replayed = createAgent(replay);
+        await replayed.run();
+
+        expect(replayed.getState().stepCount).toBe(recorded.getState().stepCount);
+        expect(replayed.getState().actionHistory).toEqual(recorded.getState().actionHistory);
+        expect(replay.unusedCount()).toBe(0);
+    });
+
+    it("should fail loudly on a request that was never recorded", async () => {
+        const replay = new ReplayAdapter({
+            cassette: {
+                version: 1,
+                entries: [{ key: cassetteKey("complete", { prompt: "a" }), method: "complete", request: { prompt: "a" }, response: { content: "A" } }],
+            },
+        });
+
+        expect(await replay.complete("a")).toBe("A");
+        await expect(replay.complete("b")).rejects.toThrow(/no recorded complete\(\) call matches request .*"prompt":"b"/);
+        await expect(replay.embed("a")).rejects.toThrow(/no recorded embed\(\) call/);
+    });
+
+    it("should serve identical requests in recorded order, then repeat the last", async () => {
+        const live = new MockLLMAdapter({ completeResponses: ["first", "second"] });
+        const recorder = new RecordingAdapter(live, { cassettePath });
+        await recorder.complete("same");
+        await recorder.complete("same");
+
+        const replay = new ReplayAdapter({ cassette: recorder.getCassette() });
+
+        expect(await replay.complete("same")).toBe("first");
+        expect(await replay.complete("same")).toBe("second");
+        expect(await replay.complete("same")).toBe("second");
+    });
+
+    it("should keep the recorded adapter's identity and context window", async () => {
+        const live = Object.assign(new MockLLMAdapter({ completeResponses: ["A"] }), {
+            provider: "openai",
+            model: "gpt-4o-mini",
+            contextWindow: 128_000,
+        });
+        const recorder = new RecordingAdapter(live, { cassettePath });
+        await recorder.complete("a");
+
+        const replay = new ReplayAdapter({ cassettePath });
+
+        expect(loadCassette(cassettePath).contextWindow).toBe(128_000);
+        expect({ provider: replay.provider, model: replay.model, contextWindow: replay.contextWindow })
+            .toEqual({ provider: "openai", model: "gpt-4o-mini", contextWindow: 128_000 });
+    });
+
+    it("should match chat requests regardless of key order and record streamed replies", async () => {
+        const streaming: LLMAdapter = {
+            complete: async () => "",
+            embed: async () => [],
+            chat: async () => ({ content: "unused" }),
+            async *chatStream(): AsyncGenerator<ChatStreamChunk> {
+                yield { type: "text", delta: "Hi" };
+                yield { type: "done", response: { content: "Hi" } };
+            },
+        };
+        const recorder = new RecordingAdapter(streaming, { cassettePath });
+        const messages = [{ role: "user" as const, content: "hello" }];
+        for await (const chunk of recorder.chatStream(messages)) void chunk;
+        messages.push({ role: "user", content: "mutated after the call" });
+
+        const replay = new ReplayAdapter({ cassettePath });
+        const response = await replay.chat([{ content: "hello", role: "user" }]);
+
+        expect(response).toEqual({ content: "Hi" });
+    });
+
+    it("should record and replay completeJSON calls keyed by schema", async () => {
+        const live = new MockLLMAdapter({ completeResponses: ['{"ok": true}'] });
+        const recorder = new RecordingAdapter(live, { cassettePath });
+        const schema = { type: "object", properties: { ok: { type: "boolean" } }, required: ["ok"] };
+        expect((await recorder.completeJSON("check", schema)).value).toEqual({ ok: true });
+        expect(recorder.getCassette().entries.map((e) => e.method)).toEqual(["completeJSON"]);
+
+        const replay = new ReplayAdapter({ cassettePath });
+
+        expect(await replay.completeJSON("check", schema)).toEqual({ value: { ok: true } });
+        await expect(replay.completeJSON("check", { type: "object" })).rejects.toThrow(/no recorded completeJSON\(\) call/);
+    });
+});
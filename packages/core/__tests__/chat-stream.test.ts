@@ -0,0 +1,89 @@
+// ============================================================================
+// ZEN AI SDK — Streaming Chat Tests
+// Verifies ZenAgent.chatStream() relays deltas and ends with the full reply.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { ChatResponse, ChatStreamChunk, LLMAdapter, Tool, TokenUsage } from "../src/types.js";
+
+const USAGE: TokenUsage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+/** LLM that streams each queued response word by word. */
+function createStreamingLLM(responses: ChatResponse[]): LLMAdapter {
+    return {
+        complete: vi.fn(async () => ""),
+        embed: vi.fn(async () => []),
+        chat: vi.fn(async () => {
+            throw new Error("chat() should not be used when chatStream() exists");
+        }),
+        async *chatStream(): AsyncGenerator<ChatStreamChunk> {
+            const response = { ...(responses.shift() ?? { content: "..." }), usage: USAGE };
+            for (const word of (response.content ?? "").split(/(?<= )/)) {
+                if (word) yield { type: "text", delta: word };
+            }
+            for (const [index, tc] of (response.toolCalls ?? []).entries()) {
+                yield { type: "tool_call", index, id: tc.id, name: tc.name, argumentsDelta: JSON.stringify(tc.arguments) };
+            }
+            yield { type: "done", response };
+        },
+    };
+}
+
+const echoTool: Tool = {
+    name: "echo",
+    description: "Echoes its input",
+    parameters: { type: "object", properties: { text: { type: "string" } } },
+    execute: async (params) => ({ success: true, output: params.text }),
+};
+
+async function collect(stream: AsyncIterable<ChatStreamChunk>): Promise<ChatStreamChunk[]> {
+    const chunks: ChatStreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+describe("ZenAgent.chatStream", () => {
+    it("should stream reply text and end with the assembled response", async () => {
+        const agent = new ZenAgent({ goal: "Talk", llm: createStreamingLLM([{ content: "Hello there friend" }]) });
+
+        const chunks = await collect(agent.chatStream("hi"));
+
+        expect(chunks.filter((c) => c.type === "text").map((c) => c.delta)).toEqual(["Hello ", "there ", "friend"]);
+        expect(chunks.at(-1)).toEqual({
+            type: "done",
+            response: { content: "Hello there friend", toolCalls: undefined, usage: USAGE },
+        });
+        expect(agent.getUsageByPhase().chat).toEqual(USAGE);
+        expect(agent.getState().chatHistory?.at(-1)).toEqual({ role: "assistant", content: "Hello there friend" });
+    });
+
+    it("should stream the tool call, run the tool, then stream the follow-up", async () => {
+        const llm = createStreamingLLM([
+            { content: null, toolCalls: [{ id: "c1", name: "echo", arguments: { text: "zen" } }] },
+            { content: "Echoed zen" },
+        ]);
+        const agent = new ZenAgent({ goal: "Talk", llm, tools: [echoTool] });
+
+        const chunks = await collect(agent.chatStream("echo zen"));
+
+        expect(chunks.map((c) => c.type)).toEqual(["tool_call", "text", "text", "done"]);
+        const done = chunks.at(-1) as Extract<ChatStreamChunk, { type: "done" }>;
+        expect(done.response.content).toBe("Echoed zen");
+        expect(done.response.toolCalls?.[0].name).toBe("echo");
+        expect(done.response.usage?.totalTokens).toBe(30);
+    });
+
+    it("should fall back to chat() when the adapter cannot stream", async () => {
+        const llm = new MockLLMAdapter({ chatResponses: [{ content: "Whole reply" }] });
+        const agent = new ZenAgent({ goal: "Talk", llm });
+
+        const chunks = await collect(agent.chatStream("hi"));
+
+        expect(chunks).toEqual([
+            { type: "text", delta: "Whole reply" },
+            { type: "done", response: { content: "Whole reply", toolCalls: undefined, usage: undefined } },
+        ]);
+    });
+});
@@ -0,0 +1,102 @@
+// ============================================================================
+// ZEN AI SDK — Multimodal Content Tests
+// Content part helpers, and images flowing through chat and tool results.
+// ============================================================================
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { contentText, resolveContent } from "../src/content.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { Tool } from "../src/types.js";
+
+describe("content helpers", () => {
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "zen-content-test-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should render parts as text with placeholders", () => {
+        expect(contentText("plain")).toBe("plain");
+        expect(contentText([
+            { type: "text", text: "Look:" },
+            { type: "image", path: "/tmp/shot.png" },
+            { type: "file", name: "report.pdf", data: "JVBERg==" },
+        ])).toBe("Look:\n[image: /tmp/shot.png]\n[file: report.pdf]");
+    });
+
+    it("should load paths as base64 and text files as text parts", async () => {
+        const imagePath = path.join(tmpDir, "shot.webp");
+        const notesPath = path.join(tmpDir, "notes.md");
+        fs.writeFileSync(imagePath, "webp-bytes");
+        fs.writeFileSync(notesPath, "# Notes");
+
+        const [message] = await resolveContent([{
+            role: "user",
+            content: [
+                { type: "image", path: imagePath },
+                { type: "file", path: notesPath },
+                { type: "image", url: "https://example.com/a.png" },
+            ],
+        }]);
+
+        expect(message.content).toEqual([
+            { type: "image", data: Buffer.from("webp-bytes").toString("base64"), mimeType: "image/webp" },
+            { type: "text", text: `File: ${notesPath}\n\`\`\`\n# Notes\n\`\`\`` },
+            { type: "image", url: "https://example.com/a.png" },
+        ]);
+    });
+});
+
+describe("ZenAgent multimodal", () => {
+    it("should pass image parts of a chat message to the LLM", async () => {
+        const llm = new MockLLMAdapter({ chatResponses: [{ content: "A red button" }] });
+        const agent = new ZenAgent({ goal: "Look", llm });
+        const message = [
+            { type: "text" as const, text: "What is on this page?" },
+            { type: "image" as const, data: "aGk=", mimeType: "image/png" },
+        ];
+
+        const reply = await agent.chat(message);
+
+        expect(reply.content).toBe("A red button");
+        expect(llm.chatCalls[0].messages.at(-1)).toEqual({ role: "user", content: message });
+    });
+
+    it("should add images returned by tools to the tool message", async () => {
+        const screenshotTool: Tool = {
+            name: "screenshot",
+            description: "Capture the page",
+            parameters: { type: "object", properties: {} },
+            execute: async () => ({
+                success: true,
+                output: "captured",
+                content: [{ type: "image", data: "cG5n", mimeType: "image/png" }],
+            }),
+        };
+        const llm = new MockLLMAdapter({
+            completeResponses: [JSON.stringify({ description: "Need a look", progress: 0.1, gaps: ["look"], isComplete: false })],
+            chatResponses: [{ content: null, toolCalls: [{ id: "c1", name: "screenshot", arguments: {} }] }],
+        });
+        const agent = new ZenAgent({ goal: "Look", llm, tools: [screenshotTool], maxSteps: 2 });
+
+        await agent.run();
+
+        const toolMessage = agent.getState().chatHistory?.find((m) => m.role === "tool");
+        expect(toolMessage).toEqual({
+            role: "tool",
+            toolCallId: "c1",
+            content: [
+                { type: "text", text: '"captured"' },
+                { type: "image", data: "cG5n", mimeType: "image/png" },
+            ],
+        });
+    });
+});
@@ -0,0 +1,120 @@
+// ============================================================================
+// ZEN AI SDK — Context Builder Tests
+// Token estimates, fitting history to a window, and LLM history compaction.
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import {
+    ContextBuilder,
+    contextWindowFor,
+    estimateTokens,
+    DEFAULT_MAX_HISTORY_TOKENS,
+    FALLBACK_CONTEXT_WINDOW,
+} from "../src/context-builder.js";
+import { RouterAdapter } from "../src/router-adapter.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { ChatMessage } from "../src/types.js";
+
+const text = (tokens: number) => "x".repeat(tokens * 4);
+
+const HISTORY: ChatMessage[] = [
+    { role: "user", content: text(100) },
+    { role: "assistant", content: "", toolCalls: [{ id: "c1", name: "file_read", arguments: { path: text(30) } }] },
+    { role: "tool", toolCallId: "c1", content: text(150) },
+    { role: "assistant", content: text(100) },
+    { role: "user", content: text(100) },
+];
+
+describe("token estimates", () => {
+    it("should count Latin text by characters and CJK by glyphs", () => {
+        expect(estimateTokens("abcdefgh")).toBe(2);
+        expect(estimateTokens("こんにちは")).toBe(5);
+    });
+
+    it("should resolve context windows from the adapter, the table, or the fallback", () => {
+        expect(contextWindowFor({ provider: "anthropic", model: "claude-sonnet-4-20250514" })).toBe(200_000);
+        expect(contextWindowFor({ provider: "openai", model: "gpt-4o-mini", contextWindow: 8_000 })).toBe(8_000);
+        expect(contextWindowFor({ provider: "local", model: "llama3.1" })).toBe(FALLBACK_CONTEXT_WINDOW);
+
+        const router = new RouterAdapter({
+            default: [
+                Object.assign(new MockLLMAdapter(), { contextWindow: 100_000 }),
+                Object.assign(new MockLLMAdapter(), { contextWindow: 16_000 }),
+            ],
+        });
+        expect(router.contextWindow).toBe(16_000);
+    });
+});
+
+describe("ContextBuilder", () => {
+    it("should drop the oldest turns without splitting tool calls from results", () => {
+        const context = new ContextBuilder({ contextWindow: 1_000, reserveTokens: 0 });
+        const system: ChatMessage = { role: "system", content: text(600) };
+
+        const messages = context.fit([system], HISTORY);
+
+        // The tool result alone would fit, but not together with its call
+        expect(messages.map((m) => m.role)).toEqual(["system", "assistant", "user"]);
+        expect(context.fit([system], HISTORY.slice(2)).map((m) => m.role)).toEqual(["system", "assistant", "user"]);
+    });
+
+    it("should truncate a message larger than its share of the window", () => {
+        const context = new ContextBuilder({ contextWindow: 1_000, reserveTokens: 0, maxMessageShare: 0.1 });
+
+        const [message] = context.fit([], [{ role: "tool", toolCallId: "c1", content: text(2_000) }, { role: "user", content: text(2_000) }]);
+
+        expect(message.content).toMatch(/…\[truncated \d+ tokens\]$/);
+        expect(context.count([message])).toBeLessThanOrEqual(110);
+    });
+
+    it("should cap history at maxHistoryTokens on large windows", () => {
+        const history: ChatMessage[] = Array.from({ length: 10 }, () => ({ role: "user", content: text(5_000) }));
+        const context = new ContextBuilder({ contextWindow: 1_000_000 });
+
+        expect(context.historyBudget).toBe(DEFAULT_MAX_HISTORY_TOKENS);
+        expect(context.needsCompaction(history)).toBe(true);
+        expect(context.count(context.fit([], history))).toBeLessThanOrEqual(DEFAULT_MAX_HISTORY_TOKENS);
+
+        const whole = new ContextBuilder({ contextWindow: 1_000_000, maxHistoryTokens: Infinity });
+        expect(whole.needsCompaction(history)).toBe(false);
+        expect(whole.fit([], history)).toHaveLength(10);
+    });
+
+    it("should summarize older turns and keep the newest verbatim", async () => {
+        const context = new ContextBuilder({ contextWindow: 1_000, reserveTokens: 0, keepRecent: 0.25 });
+        let summarized: ChatMessage[] = [];
+
+        expect(context.needsCompaction(HISTORY)).toBe(false);
+        const result = await context.compact(HISTORY, async (older) => {
+            summarized = older;
+            return "## Memory\nread a.ts";
+        });
+
+        expect(summarized).toHaveLength(3);
+        expect(result?.history).toEqual([{ role: "user", content: "## Memory\nread a.ts" }, HISTORY[3], HISTORY[4]]);
+        expect(result).toMatchObject({ summarizedMessages: 3, keptMessages: 2 });
+        expect(result!.tokensAfter).toBeLessThan(result!.tokensBefore);
+    });
+});
+
+describe("ZenAgent context", () => {
+    it("should compact chat history with the LLM when it outgrows the window", async () => {
+        const llm = new MockLLMAdapter({
+            completeResponses: ["The user asked about a.ts; it was read."],
+            chatResponses: [{ content: "Sure" }],
+        });
+        const agent = new ZenAgent({ goal: "Help", llm, context: { contextWindow: 2_000, reserveTokens: 0 } });
+        const compactions: Array<{ summarizedMessages: number; keptMessages: number }> = [];
+        agent.on("context:compacted", (e) => { compactions.push(e); });
+        agent.setChatHistory([...HISTORY, { role: "assistant", content: text(1_500) }]);
+
+        await agent.chat("And now?");
+
+        expect(compactions).toEqual([expect.objectContaining({ summarizedMessages: 6, keptMessages: 1 })]);
+        expect(llm.completeCalls[0]).toContain("Summarize the earlier part of a conversation");
+        const history = agent.getState().chatHistory!;
+        expect(history[0].content).toBe("## Conversation memory (earlier turns, summarized)\nThe user asked about a.ts; it was read.");
+        expect(history.slice(1)).toEqual([{ role: "user", content: "And now?" }, { role: "assistant", content: "Sure" }]);
+    });
+});
@@ -0,0 +1,92 @@
+// ============================================================================
+// ZEN AI SDK — defineTool Tests
+// Verifies one declaration yields both the schema and a typed execute().
+// ============================================================================
+
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import { defineTool } from "../src/define-tool.js";
+import type { InferSchema } from "../src/define-tool.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { Tool } from "../src/types.js";
+
+describe("defineTool", () => {
+    it("should infer parameter types from the schema", () => {
+        const schema = {
+            type: "object",
+            properties: {
+                path: { type: "string" },
+                depth: { type: "integer", default: 3 },
+                mode: { type: "string", enum: ["fast", "safe"] },
+                tags: { type: "array", items: { type: "string" } },
+                note: { type: ["string", "null"] },
+            },
+            required: ["path"],
+        } as const;
+
+        expectTypeOf<InferSchema<typeof schema>>().toEqualTypeOf<{
+            path: string;
+            depth: number;
+            mode?: "fast" | "safe";
+            tags?: string[];
+            note?: string | null;
+        }>();
+    });
+
+    it("should produce a Tool the agent can call with typed params", async () => {
+        const seen = vi.fn();
+        const resizeTool = defineTool({
+            name: "resize",
+            description: "Resize an image",
+            sideEffects: true,
+            parameters: {
+                type: "object",
+                properties: {
+                    width: { type: "integer", minimum: 1 },
+                    keepAspect: { type: "boolean", default: true },
+                },
+                required: ["width"],
+            },
+            async execute({ width, keepAspect }) {
+                expectTypeOf(width).toEqualTypeOf<number>();
+                expectTypeOf(keepAspect).toEqualTypeOf<boolean>();
+                seen(width, keepAspect);
+                return { success: true, output: width * 2 };
+            },
+        });
+
+        const asTool: Tool = resizeTool;
+        expect(asTool.sideEffects).toBe(true);
+        expect(asTool.parameters.required).toEqual(["width"]);
+
+        const llm = new MockLLMAdapter({
+            completeResponses: [
+                JSON.stringify({ description: "gap", progress: 0.3, gaps: ["g"], isComplete: false }),
+                JSON.stringify({ description: "gap", progress: 0.6, gaps: ["g"], isComplete: false }),
+            ],
+            chatResponses: [{
+                content: null,
+                toolCalls: [{ id: "c1", name: "resize", arguments: { width: "640" } }],
+            }],
+        });
+        const agent = new ZenAgent({ goal: "Resize", llm, tools: [resizeTool], maxSteps: 5 });
+
+        await agent.run();
+
+        expect(seen).toHaveBeenCalledWith(640, true);
+    });
+
+    it("should reject required keys missing from properties at compile time", () => {
+        const define = () => defineTool({
+            name: "broken",
+            description: "Schema and implementation disagree",
+            // @ts-expect-error — "url" is not a declared property
+            parameters: { type: "object", properties: { uri: { type: "string" } }, required: ["url"] },
+            async execute({ uri }) {
+                return { success: true, output: uri };
+            },
+        });
+
+        expect(define().name).toBe("broken");
+    });
+});
@@ -256,6 +256,147 @@ describe("E2E: Milestones and context reset", () => {
         // Agent completed
         expect(mockLLM.completeCalls.length).toBeGreaterThanOrEqual(2);
     });
+
+    it("should track parallel branches and scope context resets to them", async () => {
+        const mockLLM = new MockLLMAdapter({
+            completeResponses: [
+                deltaJSON({ progress: 0.2, gaps: ["api", "ui"] }),
+                deltaJSON({ progress: 0.5, gaps: ["api"] }),
+                deltaJSON({ progress: 0.8, gaps: ["integration"] }),
+            ],
+            chatResponses: [
+                toolCallResponse("build", { input: "both" }),
+                toolCallResponse("build", { input: "api" }),
+            ],
+        });
+        const snapshots = [{}, { ui: true }, { ui: true, api: true }];
+
+        const agent = new ZenAgent({
+            goal: "Ship the app",
+            llm: mockLLM,
+            tools: [createTestTool("build", { success: true, output: "built" })],
+            milestones: [
+                { id: "backend", description: "Backend API", resources: ["api"], dependsOn: [], llmConfirm: false },
+                { id: "frontend", description: "Frontend shell", resources: ["ui"], dependsOn: [], llmConfirm: false },
+                { id: "integration", description: "Integration", resources: ["e2e"], dependsOn: ["backend", "frontend"] },
+            ],
+            snapshot: () => snapshots.shift() ?? {},
+            maxSteps: 10,
+        });
+
+        const resets: Array<{ previous: string; active: string[]; history: number }> = [];
+        agent.on("context:reset", ({ previousMilestone, activeMilestones }) => {
+            resets.push({ previous: previousMilestone, active: activeMilestones, history: agent.getState().chatHistory!.length });
+        });
+
+        await agent.run();
+
+        expect(mockLLM.completeCalls[0]).toContain("## Active Milestones (parallel branches)");
+        expect(mockLLM.completeCalls[0]).toContain("- [frontend] Frontend shell (requires: ui)");
+        // Finishing the frontend keeps the history shared with the backend branch
+        expect(resets).toEqual([
+            { previous: "frontend", active: ["backend"], history: 2 },
+            { previous: "backend", active: ["integration"], history: 0 },
+        ]);
+        expect(mockLLM.chatCalls).toHaveLength(2);
+        expect(agent.getState().reachedMilestones).toEqual(["backend", "frontend"]);
+    });
+});
+
+describe("E2E: Milestone step budgets", () => {
+    it("should retry a milestone over its step budget with a fresh context", async () => {
+        const mockLLM = new MockLLMAdapter({
+            completeResponses: Array.from({ length: 5 }, (_, i) => deltaJSON({ progress: i / 10, gaps: ["build"] })),
+            chatResponses: Array.from({ length: 5 }, () => toolCallResponse("build", { input: "again" })),
+        });
+        const agent = new ZenAgent({
+            goal: "Build it",
+            llm: mockLLM,
+            tools: [createTestTool("build", { success: true, output: "still broken" })],
+            milestones: [{ id: "build", description: "Build it", resources: ["built"], llmConfirm: false, maxSteps: 2 }],
+            maxSteps: 5,
+        });
+        const failures: Array<{ milestoneId: string; message: string; policy?: string }> = [];
+        const proverbs: string[] = [];
+        agent.on("milestone:failed", ({ milestoneId, error, policy }) => {
+            failures.push({ milestoneId, message: error.message, policy });
+        });
+        agent.on("failure:recorded", ({ proverb }) => { proverbs.push(proverb); });
+
+        await agent.run();
+
+        expect(failures).toEqual([
+            { milestoneId: "build", message: 'Milestone "build" not reached within 2 steps', policy: "retry" },
+            { milestoneId: "build", message: 'Milestone "build" not reached within 2 steps', policy: "retry" },
+        ]);
+        expect(proverbs[0]).toContain('Break "Build it" into smaller steps');
+        const toolMessages = (i: number) => mockLLM.chatCalls[i].messages.filter((m) => m.role === "tool").length;
+        expect(toolMessages(1)).toBe(1);
+        expect(toolMessages(2)).toBe(0);
+    });
+
+    it("should skip a failed milestone and keep the other branch going", async () => {
+        const mockLLM = new MockLLMAdapter({
+            completeResponses: Array.from({ length: 3 }, () => deltaJSON({ progress: 0.2, gaps: ["docs"] })),
+            chatResponses: Array.from({ length: 3 }, () => toolCallResponse("build", {})),
+        });
+        const agent = new ZenAgent({
+            goal: "Ship",
+            llm: mockLLM,
+            tools: [createTestTool("build", { success: true, output: "ok" })],
+            milestones: [
+                { id: "flaky", description: "Flaky step", resources: ["never"], dependsOn: [], maxSteps: 1, onFailure: "skip" },
+                { id: "docs", description: "Docs", resources: ["never"], dependsOn: [] },
+            ],
+            maxSteps: 3,
+        });
+        const resets: Array<{ previous: string; active: string[] }> = [];
+        agent.on("context:reset", ({ previousMilestone, activeMilestones }) => {
+            resets.push({ previous: previousMilestone, active: activeMilestones });
+        });
+
+        await agent.run();
+
+        expect(resets).toEqual([{ previous: "flaky", active: ["docs"] }]);
+        expect(mockLLM.chatCalls).toHaveLength(3);
+        expect(agent.getState().reachedMilestones).toEqual(["flaky"]);
+    });
+
+    it("should abort the run when a milestone with the abort policy times out", async () => {
+        const mockLLM = new MockLLMAdapter({
+            completeResponses: [
+                deltaJSON({ progress: 0.1, gaps: ["deploy"] }),
+                deltaJSON({ progress: 0.1, gaps: ["deploy"] }),
+            ],
+            chatResponses: [toolCallResponse("build", {})],
+        });
+        const failureDB = {
+            store: vi.fn().mockResolvedValue(undefined),
+            retrieve: vi.fn().mockResolvedValue([]),
+            list: vi.fn().mockResolvedValue([]),
+            exportCurrent: vi.fn().mockReturnValue([]),
+        };
+        const agent = new ZenAgent({
+            goal: "Deploy",
+            llm: mockLLM,
+            tools: [createTestTool("build", { success: true, output: "ok" })],
+            milestones: [{ id: "deploy", description: "Deploy", resources: ["deployed"], timeoutMs: 0 }],
+            milestoneFailurePolicy: "abort",
+            failureDB,
+        });
+        let reason: string | undefined;
+        agent.on("agent:complete", (e) => { reason = e.reason; });
+
+        await agent.run();
+
+        expect(reason).toBe("milestone:failed");
+        expect(mockLLM.chatCalls).toHaveLength(1);
+        expect(failureDB.store).toHaveBeenCalledWith(expect.objectContaining({
+            severity: "HIGH",
+            source: "milestone_deploy",
+            proverb: expect.stringContaining('Milestone "deploy" not reached within 0ms'),
+        }));
+    });
 });
 
 // ===========================================================================
@@ -434,6 +575,35 @@ describe("E2E: Failure recovery", () => {
         // Second tool should have succeeded
         expect(actionResults[1]).toEqual({ tool: "reliable_tool", success: true });
     });
+
+    it("should store one failure per failed tool call of the same step", async () => {
+        const mockLLM = new MockLLMAdapter({
+            completeResponses: [deltaJSON({ progress: 0.3, gaps: ["try actions"] })],
+            chatResponses: [{
+                content: null,
+                toolCalls: ["a", "b", "c"].map((input, i) => ({ id: `call_${i}`, name: "flaky_tool", arguments: { input } })),
+            }],
+        });
+        const failureDB = {
+            store: vi.fn().mockResolvedValue(undefined),
+            retrieve: vi.fn().mockResolvedValue([]),
+            list: vi.fn().mockResolvedValue([]),
+            exportCurrent: vi.fn().mockReturnValue([]),
+        };
+        const agent = new ZenAgent({
+            goal: "Fail three times at once",
+            llm: mockLLM,
+            tools: [createTestTool("flaky_tool", { success: false, output: null, error: "Connection timeout" })],
+            maxSteps: 1,
+            failureDB,
+        });
+
+        await agent.run();
+
+        const ids = failureDB.store.mock.calls.map(([entry]) => entry.id);
+        expect(ids).toHaveLength(3);
+        expect(new Set(ids).size).toBe(3);
+    });
 });
 
 // ===========================================================================
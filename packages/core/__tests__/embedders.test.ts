@@ -0,0 +1,111 @@
+// ============================================================================
+// ZEN AI SDK — Embedder Tests
+// BM25Embedder ranking, and HttpEmbedder against an in-process server.
+// ============================================================================
+
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { BM25Embedder } from "../src/bm25-embedder.js";
+import { HttpEmbedder } from "../src/http-embedder.js";
+
+function cosine(a: number[], b: number[]): number {
+    return a.reduce((sum, v, i) => sum + v * b[i], 0);
+}
+
+describe("BM25Embedder", () => {
+    it("should produce fixed-length unit vectors", async () => {
+        const embedder = new BM25Embedder({ dimensions: 256 });
+
+        const vector = await embedder.embed("Read the config file before deploying");
+        expect(vector).toHaveLength(256);
+        expect(Math.hypot(...vector)).toBeCloseTo(1, 6);
+        expect(await embedder.embed("")).toEqual(new Array(256).fill(0));
+    });
+
+    it("should rank texts sharing rare terms above texts sharing common ones", async () => {
+        const embedder = new BM25Embedder();
+        embedder.fit([
+            "the agent ran the tool",
+            "the agent read the file",
+            "the agent wrote the report",
+            "authenticate before calling the payment api",
+        ]);
+
+        const query = await embedder.embed("the payment api failed");
+        const relevant = await embedder.embed("authenticate before calling the payment api");
+        const common = await embedder.embed("the agent read the file");
+
+        expect(cosine(query, relevant)).toBeGreaterThan(cosine(query, common));
+    });
+
+    it("should learn term statistics only from fit() by default", async () => {
+        const embedder = new BM25Embedder();
+        embedder.fit(["the payment api", "the agent"]);
+        const before = await embedder.embed("the payment api");
+
+        await embedder.embed("payment payment payment");
+        expect(await embedder.embed("the payment api")).toEqual(before);
+
+        embedder.fit(["the payment api"]);
+        expect(await embedder.embed("the payment api")).not.toEqual(before);
+    });
+
+    it("should match Japanese text by character bigrams", async () => {
+        const embedder = new BM25Embedder({ learn: false });
+
+        const query = await embedder.embed("設定ファイル");
+        const match = await embedder.embed("設定ファイルを読む");
+        const other = await embedder.embed("天気予報");
+
+        expect(cosine(query, match)).toBeGreaterThan(0.5);
+        expect(cosine(query, other)).toBe(0);
+    });
+});
+
+describe("HttpEmbedder", () => {
+    const requests: Array<{ path: string; headers: IncomingMessage["headers"]; body: any }> = [];
+    let reply: { status: number; body: unknown } = { status: 200, body: {} };
+    let server: Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        server = createServer((req, res) => {
+            let raw = "";
+            req.on("data", (chunk) => { raw += chunk; });
+            req.on("end", () => {
+                requests.push({ path: req.url ?? "", headers: req.headers, body: JSON.parse(raw) });
+                res.writeHead(reply.status, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(reply.body));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    });
+
+    it("should post to /embeddings and return vectors in input order", async () => {
+        reply = {
+            status: 200,
+            body: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] },
+        };
+        const embedder = new HttpEmbedder({ baseUrl: `${baseUrl}/`, model: "nomic-embed-text", apiKey: "secret", dimensions: 2 });
+
+        expect(await embedder.embedMany(["a", "b"])).toEqual([[1, 0], [0, 1]]);
+        const request = requests.at(-1)!;
+        expect(request.path).toBe("/v1/embeddings");
+        expect(request.body).toEqual({ model: "nomic-embed-text", input: ["a", "b"], dimensions: 2 });
+        expect(request.headers.authorization).toBe("Bearer secret");
+    });
+
+    it("should throw with the server's error details", async () => {
+        reply = { status: 401, body: { error: "invalid api key" } };
+        const embedder = new HttpEmbedder({ baseUrl });
+
+        await expect(embedder.embed("a")).rejects.toThrow(/Embedding request failed: 401.*invalid api key/);
+        expect(requests.at(-1)!.headers.authorization).toBeUndefined();
+    });
+});
@@ -0,0 +1,151 @@
+// ============================================================================
+// ZEN AI SDK — Milestone Planner Tests
+// Plans from a goal, plan normalization, and re-planning after failures.
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { resolvePlannerOptions, toMilestones } from "../src/milestone-planner.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { Milestone, Tool } from "../src/types.js";
+
+const buildTool: Tool = {
+    name: "build",
+    description: "Build something",
+    parameters: { type: "object", properties: {} },
+    execute: async () => ({ success: true, output: "built" }),
+};
+
+function deltaJSON(progress: number, isComplete = false): string {
+    return JSON.stringify({ description: `Progress: ${progress * 100}%`, progress, gaps: [], isComplete });
+}
+
+function planJSON(milestones: Array<Partial<Milestone> & { id: string }>): string {
+    return JSON.stringify({
+        milestones: milestones.map((m) => ({ description: `Do ${m.id}`, resources: [], ...m })),
+    });
+}
+
+const callBuild = () => ({ content: null, toolCalls: [{ id: `call_${Math.random()}`, name: "build", arguments: {} }] });
+
+describe("toMilestones", () => {
+    it("should cap the plan, drop taken IDs, and keep only known dependencies", () => {
+        const options = resolvePlannerOptions({ maxMilestones: 3 });
+        const reached: Milestone[] = [{ id: "setup", description: "Setup", resources: [] }];
+
+        const milestones = toMilestones({
+            milestones: [
+                { id: "setup", description: "Setup again", resources: [] },
+                { id: " api ", description: "API", resources: ["api", { type: "command", command: "npm test" }], dependsOn: ["setup", "later"] },
+                { id: "docs", description: "Docs", resources: [], dependsOn: [] },
+                { id: "ui", description: "UI", resources: [], dependsOn: ["later"] },
+                { id: "later", description: "Later", resources: [] },
+            ],
+        }, options, reached);
+
+        expect(milestones).toEqual([
+            { id: "api", description: "API", resources: ["api"], dependsOn: ["setup"] },
+            { id: "docs", description: "Docs", resources: [], dependsOn: [] },
+            { id: "ui", description: "UI", resources: [] },
+        ]);
+    });
+});
+
+describe("ZenAgent planner", () => {
+    it("should plan milestones from the goal before the first step", async () => {
+        const llm = new MockLLMAdapter({
+            completeResponses: [
+                planJSON([{ id: "draft", resources: [{ type: "path", path: "$.draft", equals: true }] }]),
+                deltaJSON(0.2),
+                deltaJSON(0.9),
+                "YES",
+            ],
+            chatResponses: [callBuild()],
+        });
+        const snapshots = [{}, { draft: true }];
+        const agent = new ZenAgent({
+            goal: "Write a report",
+            llm,
+            tools: [buildTool],
+            planner: true,
+            snapshot: () => snapshots.shift() ?? {},
+        });
+        const plans: Array<{ ids: string[]; replan: boolean }> = [];
+        const reached: string[] = [];
+        agent.on("plan:created", ({ milestones, replan }) => { plans.push({ ids: milestones.map((m) => m.id), replan }); });
+        agent.on("milestone:reached", ({ milestoneId }) => { reached.push(milestoneId); });
+
+        await agent.run();
+
+        expect(llm.completeCalls[0]).toContain("Break the remaining work into at most 6 milestones");
+        expect(llm.completeCalls[0]).not.toContain('"type": "command"');
+        expect(plans).toEqual([{ ids: ["draft"], replan: false }]);
+        expect(reached).toEqual(["draft"]);
+        expect(agent.getState().plannedMilestones?.map((m) => m.id)).toEqual(["draft"]);
+    });
+
+    it("should run without milestones when the plan is empty", async () => {
+        const llm = new MockLLMAdapter({ completeResponses: [planJSON([]), deltaJSON(1, true)] });
+        const agent = new ZenAgent({ goal: "Say hi", llm, planner: true });
+        let planned = false;
+        agent.on("plan:created", () => { planned = true; });
+
+        await agent.run();
+
+        expect(planned).toBe(false);
+        expect(llm.completeCalls).toHaveLength(2);
+        expect(agent.getState().plannedMilestones).toBeUndefined();
+    });
+
+    it("should re-plan the unreached milestones after repeated milestone:failed", async () => {
+        const llm = new MockLLMAdapter({
+            completeResponses: [
+                planJSON([
+                    { id: "setup", resources: ["setup"], dependsOn: [] },
+                    { id: "api", resources: [{ type: "path", path: "$api" }], dependsOn: [] },
+                ]),
+                deltaJSON(0.1),
+                deltaJSON(0.3),
+                "YES",
+                planJSON([
+                    { id: "setup" },
+                    { id: "api-v2", resources: [{ type: "path", path: "$.api" }], dependsOn: ["setup"] },
+                ]),
+                deltaJSON(0.6),
+            ],
+            chatResponses: [callBuild(), callBuild()],
+        });
+        const agent = new ZenAgent({
+            goal: "Ship the API",
+            llm,
+            tools: [buildTool],
+            planner: { replanAfterFailures: 2 },
+            snapshot: () => (llm.completeCalls.length === 0 ? {} : { setup: true }),
+        });
+        const note = { role: "user" as const, content: "Use the staging database" };
+        agent.setChatHistory([note]);
+        const plans: Array<{ ids: string[]; replan: boolean }> = [];
+        const failures: string[] = [];
+        agent.on("plan:created", ({ milestones, replan }) => { plans.push({ ids: milestones.map((m) => m.id), replan }); });
+        agent.on("milestone:failed", ({ milestoneId, error }) => { failures.push(`${milestoneId}: ${error.message}`); });
+
+        await agent.run();
+
+        expect(failures).toHaveLength(2);
+        expect(failures[0]).toMatch(/^api: Invalid JSONPath/);
+        expect(plans).toEqual([
+            { ids: ["setup", "api"], replan: false },
+            { ids: ["api-v2"], replan: true },
+        ]);
+        const replanPrompt = llm.completeCalls[4];
+        expect(replanPrompt).toContain("## Reached Milestones (keep them, do not plan them again)\n- [setup] Do setup");
+        expect(replanPrompt).toContain("## Previous Plan (failed, plan the rest differently)\n- [api] Do api");
+        expect(replanPrompt).toContain("- [api] Invalid JSONPath");
+
+        const state = agent.getState();
+        expect(state.plannedMilestones?.map((m) => m.id)).toEqual(["setup", "api-v2"]);
+        expect(state.reachedMilestones).toEqual(["setup"]);
+        // Only the failed plan's step history is dropped
+        expect(state.chatHistory).toEqual([note]);
+    });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as os from "node:os";
+import * as path from "node:path";
 import { MilestoneRunner } from "../src/milestone-runner.js";
-import type { LLMAdapter, Goal, FailureEntry } from "../src/types.js";
+import { checkResource, describeResource, queryPath } from "../src/milestone-predicates.js";
+import type { LLMAdapter, Goal, FailureEntry, Milestone } from "../src/types.js";
 
 const mockLLM: LLMAdapter = {
     complete: vi.fn().mockResolvedValue("YES"),
@@ -83,7 +86,7 @@ describe("MilestoneRunner", () => {
         ];
 
         await runnerWithCallback.reset(failures);
-        expect(onReset).toHaveBeenCalledWith(failures);
+        expect(onReset).toHaveBeenCalledWith(failures, expect.objectContaining({ id: "m1" }));
     });
 
     it("should serialize and restore state", () => {
@@ -102,4 +105,140 @@ describe("MilestoneRunner", () => {
         expect(restored.currentMilestoneIndex).toBe(1);
         expect(restored.current?.id).toBe("m2");
     });
+
+    it("should mark earlier milestones as reached when index is restored", () => {
+        runner.currentMilestoneIndex = 1;
+        const statuses = runner.allStatuses;
+        expect(statuses[0].reached).toBe(true);
+        expect(statuses[1].reached).toBe(false);
+        expect(runner.current?.id).toBe("m2");
+    });
+});
+
+describe("MilestoneRunner DAG", () => {
+    const milestones: Milestone[] = [
+        { id: "backend", description: "Backend API", resources: ["api"], dependsOn: [] },
+        { id: "frontend", description: "Frontend shell", resources: ["ui"], dependsOn: [] },
+        { id: "integration", description: "Integration", resources: ["e2e"], dependsOn: ["backend", "frontend"] },
+    ];
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it("should unlock milestones once their dependencies are reached", async () => {
+        const runner = new MilestoneRunner({ milestones });
+        expect(runner.active.map((m) => m.id)).toEqual(["backend", "frontend"]);
+
+        const reached = await runner.checkActive({ built: ["ui"] }, mockLLM, goal);
+        expect(reached.map((m) => m.id)).toEqual(["frontend"]);
+
+        expect(await runner.reset([], reached[0])).toEqual(milestones[0]);
+        expect(runner.active.map((m) => m.id)).toEqual(["backend"]);
+
+        await runner.reset([], milestones[0]);
+        expect(runner.active.map((m) => m.id)).toEqual(["integration"]);
+        expect(runner.reachedIds).toEqual(["backend", "frontend"]);
+    });
+
+    it("should report failing checks and unlock dependents of a skipped milestone", async () => {
+        const onReset = vi.fn();
+        const runner = new MilestoneRunner({
+            milestones: [
+                { id: "backend", description: "Backend API", resources: [{ type: "path", path: "api" }], dependsOn: [] },
+                ...milestones.slice(1),
+            ],
+            onReset,
+        });
+        const errors: string[] = [];
+
+        const reached = await runner.checkActive({ api: true, ui: true }, mockLLM, goal, (m) => { errors.push(m.id); });
+        expect(reached.map((m) => m.id)).toEqual(["backend", "frontend"]);
+
+        // An invalid JSONPath throws; with onError the milestone just isn't reached
+        const broken = new MilestoneRunner({
+            milestones: [{ id: "x", description: "X", resources: [{ type: "path", path: "$x" }] }],
+        });
+        await broken.checkActive({}, mockLLM, goal, (m) => { errors.push(m.id); });
+        expect(errors).toEqual(["x"]);
+
+        await runner.skip([], runner.active[0]);
+        expect(runner.allStatuses[0]).toMatchObject({ reached: true, skipped: true });
+        expect(runner.active.map((m) => m.id)).toEqual(["frontend"]);
+        expect(onReset).toHaveBeenCalledTimes(1);
+    });
+
+    it("should default to a linear chain and restore reached IDs", () => {
+        const linear = new MilestoneRunner({
+            milestones: [
+                { id: "a", description: "A", resources: [] },
+                { id: "b", description: "B", resources: [] },
+            ],
+        });
+        expect(linear.dependenciesOf("b")).toEqual(["a"]);
+
+        const restored = MilestoneRunner.fromJSON({ milestones }, { currentIndex: 0, reached: ["frontend"] });
+        expect(restored.active.map((m) => m.id)).toEqual(["backend"]);
+        expect(restored.currentMilestoneIndex).toBe(0);
+        expect(restored.toJSON().reached).toEqual(["frontend"]);
+    });
+
+    it("should reject unknown dependencies and cycles", () => {
+        expect(() => new MilestoneRunner({
+            milestones: [{ id: "a", description: "A", resources: [], dependsOn: ["zzz"] }],
+        })).toThrow('Milestone "a" depends on unknown milestone "zzz"');
+        expect(() => new MilestoneRunner({
+            milestones: [
+                { id: "a", description: "A", resources: [], dependsOn: ["b"] },
+                { id: "b", description: "B", resources: [], dependsOn: ["a"] },
+            ],
+        })).toThrow("Milestone dependency cycle: a -> b -> a");
+    });
+});
+
+describe("Milestone resource predicates", () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    const reached = (milestone: Milestone, snapshot: Record<string, unknown>) =>
+        new MilestoneRunner({ milestones: [milestone] }).checkReached(snapshot, mockLLM, goal);
+
+    it("should query snapshots by JSONPath", () => {
+        const snapshot = { files: [{ name: "index.html" }], build: { "exit-code": 0 } };
+        expect(queryPath(snapshot, "$.files[0].name")).toBe("index.html");
+        expect(queryPath(snapshot, "build['exit-code']")).toBe(0);
+        expect(queryPath(snapshot, "$.files[1].name")).toBeUndefined();
+        expect(() => queryPath(snapshot, "$.files[")).toThrow("Invalid JSONPath");
+    });
+
+    it("should not treat a mention of the resource as its presence", async () => {
+        const page = { type: "path" as const, path: "$.files[0]", equals: "index.html" };
+        const mention = { log: "TODO: create index.html" };
+
+        expect(await checkResource("index.html", mention)).toBe(true);
+        expect(await checkResource(page, mention)).toBe(false);
+        expect(await checkResource(page, { files: ["index.html"] })).toBe(true);
+        expect(await checkResource({ type: "path", path: "$.status", equals: { ok: true } }, { status: { ok: true } })).toBe(true);
+        expect(describeResource(page)).toBe('$.files[0] == "index.html"');
+    });
+
+    it("should check files, commands, and custom functions", async () => {
+        expect(await checkResource({ type: "file", path: os.tmpdir() }, {})).toBe(true);
+        expect(await checkResource({ type: "file", path: path.join(os.tmpdir(), "zen-missing-file") }, {})).toBe(false);
+        expect(await checkResource({ type: "command", command: "node -e \"process.exit(0)\"" }, {})).toBe(true);
+        expect(await checkResource({ type: "command", command: "node -e \"process.exit(3)\"" }, {})).toBe(false);
+        expect(await checkResource({ type: "custom", description: "two files", check: (s) => (s.files as string[]).length === 2 }, { files: ["a", "b"] })).toBe(true);
+    });
+
+    it("should skip the LLM confirmation when llmConfirm is false", async () => {
+        const snapshot = { tests: { passed: true } };
+        const resources = [{ type: "path" as const, path: "$.tests.passed", equals: true }];
+
+        expect(await reached({ id: "m1", description: "Tests pass", resources, llmConfirm: false }, snapshot)).toBe(true);
+        expect(mockLLM.complete).not.toHaveBeenCalled();
+
+        expect(await reached({ id: "m1", description: "Tests pass", resources }, snapshot)).toBe(true);
+        expect(mockLLM.complete).toHaveBeenCalledWith(expect.stringContaining("Required resources: $.tests.passed == true"));
+    });
 });
@@ -0,0 +1,87 @@
+// ============================================================================
+// ZEN AI SDK — Pricing Registry Tests
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { PricingRegistry, calculateCost, defaultPricingRegistry, FALLBACK_PRICING } from "../src/pricing.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import type { LLMAdapter, TokenUsage } from "../src/types.js";
+
+const MILLION: TokenUsage = { promptTokens: 1_000_000, completionTokens: 1_000_000, totalTokens: 2_000_000 };
+
+function createLLM(identity: Partial<Pick<LLMAdapter, "provider" | "model" | "pricing">>): LLMAdapter {
+    return {
+        ...identity,
+        complete: vi.fn(async () => ""),
+        embed: vi.fn(async () => []),
+        chat: vi.fn(async () => ({ content: "DONE", usage: MILLION })),
+    };
+}
+
+describe("PricingRegistry", () => {
+    it("should match exact models before the longest prefix", () => {
+        const registry = new PricingRegistry({
+            openai: {
+                "gpt-4o": { input: 2.5, output: 10 },
+                "gpt-4o-mini": { input: 0.15, output: 0.6 },
+            },
+        });
+
+        expect(registry.get("openai", "gpt-4o")?.input).toBe(2.5);
+        expect(registry.get("openai", "gpt-4o-mini-2024-07-18")?.input).toBe(0.15);
+        expect(registry.get("openai", "gpt-4o-2024-08-06")?.input).toBe(2.5);
+        expect(registry.get("openai", "o1")).toBeUndefined();
+        expect(registry.get("anthropic", "gpt-4o")).toBeUndefined();
+    });
+
+    it("should resolve declared pricing, then the registry, then the fallback", () => {
+        const registry = new PricingRegistry({ acme: { "m-1": { input: 1, output: 2 } } }, FALLBACK_PRICING);
+
+        expect(registry.resolve({ provider: "acme", model: "m-1", pricing: { input: 9, output: 9 } })?.input).toBe(9);
+        expect(registry.resolve({ provider: "acme", model: "m-1" })?.input).toBe(1);
+        expect(registry.resolve({ provider: "acme", model: "unknown" })).toEqual(FALLBACK_PRICING);
+        expect(new PricingRegistry().resolve({})).toBeUndefined();
+        expect(new PricingRegistry().costFor({}, MILLION)).toBe(0);
+    });
+
+    it("should bill cached prompt tokens at the cached-input rate", () => {
+        const usage: TokenUsage = { ...MILLION, cachedPromptTokens: 500_000 };
+        expect(calculateCost(usage, { input: 4, output: 10, cachedInput: 1 })).toBe(2 + 0.5 + 10);
+        expect(calculateCost(usage, { input: 4, output: 10 })).toBe(14);
+    });
+
+    it("should price dated model snapshots by family", () => {
+        expect(defaultPricingRegistry.costFor({ provider: "anthropic", model: "claude-sonnet-4-20250514" }, MILLION)).toBe(18);
+        expect(defaultPricingRegistry.costFor({ provider: "google", model: "gemini-2.0-flash" }, MILLION)).toBe(0.5);
+    });
+});
+
+describe("ZenAgent cost", () => {
+    it("should price usage by the adapter's model", async () => {
+        const agent = new ZenAgent({
+            goal: "Price me",
+            llm: createLLM({ provider: "google", model: "gemini-2.0-flash" }),
+            maxSteps: 1,
+        });
+
+        let cost: number | undefined;
+        agent.on("agent:complete", (p) => { cost = p.cost; });
+        await agent.chat("hello");
+
+        expect(agent.calculateCost()).toBe(0.5);
+        expect(agent.costOf(MILLION)).toBe(0.5);
+        await agent.run();
+        expect(cost).toBe(agent.calculateCost());
+    });
+
+    it("should use a custom pricing registry", () => {
+        const pricingRegistry = new PricingRegistry({ local: { llama: { input: 0, output: 0 } } });
+        const agent = new ZenAgent({
+            goal: "Free",
+            llm: createLLM({ provider: "local", model: "llama-3-8b" }),
+            pricingRegistry,
+        });
+
+        expect(agent.costOf(MILLION)).toBe(0);
+    });
+});
@@ -0,0 +1,92 @@
+// ============================================================================
+// ZEN AI SDK — Prompt Registry Tests
+// Interpolation, versions and locales, and overrides through ZenAgentConfig.
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import { PromptRegistry } from "../src/prompt-registry.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+
+describe("PromptRegistry", () => {
+    it("should interpolate variables, sections, and includes", () => {
+        const prompts = new PromptRegistry([
+            { name: "greeting", template: "Hello, {{name}}!" },
+            { name: "letter", template: "{{>greeting}}\n\n\n{{#ps}}P.S. {{ps}}{{/ps}}\n\nBye" },
+        ]);
+
+        expect(prompts.render("letter", { name: "Aiko", ps: "{{name}}" })).toBe("Hello, Aiko!\n\nP.S. {{name}}\n\nBye");
+        expect(prompts.render("letter", { name: "Aiko", ps: "" })).toBe("Hello, Aiko!\n\nBye");
+    });
+
+    it("should throw on unknown templates and variables", () => {
+        const prompts = new PromptRegistry([{ name: "greeting", template: "Hello, {{name}}!" }]);
+
+        expect(() => prompts.render("farewell")).toThrow('Unknown prompt template: "farewell"');
+        expect(() => prompts.render("greeting")).toThrow('uses unknown variable "name"');
+        expect(prompts.render("greeting", { name: undefined })).toBe("Hello, !");
+    });
+
+    it("should resolve the latest version per locale with fallback", () => {
+        const prompts = new PromptRegistry([
+            { name: "hi", template: "こんにちは", locale: "ja" },
+            { name: "hi", template: "Hello", locale: "en" },
+        ], { locale: "ja" });
+
+        expect(prompts.render("hi")).toBe("こんにちは");
+        expect(prompts.render("hi", {}, { locale: "fr" })).toBe("Hello");
+
+        prompts.override({ hi: { ja: "やあ" } });
+        expect(prompts.render("hi")).toBe("やあ");
+        expect(prompts.render("hi", {}, { locale: "en" })).toBe("Hello");
+        expect(prompts.render("hi", {}, { version: 1 })).toBe("こんにちは");
+
+        prompts.override({ hi: "Hey" });
+        expect(prompts.render("hi")).toBe("Hey");
+        expect(prompts.render("hi", {}, { locale: "en" })).toBe("Hey");
+        expect(prompts.get("hi")?.version).toBe(4);
+    });
+
+    it("should render every default prompt in both locales", () => {
+        const prompts = PromptRegistry.withDefaults();
+        const names = [...new Set(prompts.list().map((t) => t.name))];
+        const variables = new Proxy({}, { has: () => true, get: () => "x" });
+
+        for (const locale of ["ja", "en"]) {
+            for (const name of names) {
+                expect(() => prompts.render(name, variables, { locale })).not.toThrow();
+            }
+        }
+    });
+});
+
+describe("ZenAgent prompts", () => {
+    it("should use overridden templates in the chat system prompt", async () => {
+        const llm = new MockLLMAdapter({ chatResponses: [{ content: "Hi" }] });
+        const agent = new ZenAgent({
+            goal: "Help",
+            llm,
+            prompts: { "chat.persona": "You are Aiko, a research assistant." },
+        });
+
+        await agent.chat("Hello");
+
+        const system = String(llm.chatCalls[0].messages[0].content);
+        expect(system.startsWith("You are Aiko, a research assistant.")).toBe(true);
+        expect(system).toContain("## Capabilities (使えるツール)");
+        expect(system).not.toContain("ZENNY");
+        expect(system).toContain("## Current Goal Context: Help");
+    });
+
+    it("should render chat prompts in the configured locale", async () => {
+        const llm = new MockLLMAdapter({
+            chatResponses: [{ content: null, toolCalls: [{ id: "t1", name: "start_task", arguments: { goal: "Build a game" } }] }],
+        });
+        const agent = new ZenAgent({ goal: "Help", llm, locale: "en" });
+
+        const reply = await agent.chat("Make me a game");
+
+        expect(reply.content).toBe('Got it. Starting the task "Build a game".');
+        expect(String(llm.chatCalls[0].messages[0].content)).toContain("You are ZENNY, an autonomous AI agent");
+    });
+});
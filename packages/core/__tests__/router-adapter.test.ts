@@ -0,0 +1,185 @@
+// ============================================================================
+// ZEN AI SDK — Router Adapter Tests
+// Verifies routing by phase/tag and fallover along adapter chains.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { RouterAdapter, isRateLimitError } from "../src/router-adapter.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { ChatStreamChunk, LLMAdapter, Tool } from "../src/types.js";
+
+function deltaJSON(progress: number, isComplete = false): string {
+    return JSON.stringify({ description: "gap", progress, gaps: ["g"], isComplete });
+}
+
+/** Adapter whose every call fails with the given error. */
+function failingLLM(error: Error): LLMAdapter {
+    return {
+        complete: vi.fn(async () => { throw error; }),
+        embed: vi.fn(async () => { throw error; }),
+        chat: vi.fn(async () => { throw error; }),
+    };
+}
+
+function rateLimitError(): Error {
+    return Object.assign(new Error("Too many requests"), { status: 429 });
+}
+
+async function collect(stream: AsyncIterable<ChatStreamChunk>): Promise<ChatStreamChunk[]> {
+    const chunks: ChatStreamChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+const testTool: Tool = {
+    name: "test_tool",
+    description: "A test tool",
+    parameters: { type: "object", properties: {} },
+    execute: async () => ({ success: true, output: "ok" }),
+};
+
+describe("RouterAdapter", () => {
+    it("should route agent calls by phase", async () => {
+        const strong = new MockLLMAdapter({
+            chatResponses: [{ content: null, toolCalls: [{ id: "c1", name: "test_tool", arguments: {} }] }],
+        });
+        const cheap = new MockLLMAdapter({ completeResponses: [deltaJSON(0.5), "NO", deltaJSON(1, true)] });
+        const llm = new RouterAdapter({ default: strong, phases: { delta: cheap, milestone: cheap } });
+
+        const agent = new ZenAgent({
+            goal: "Route",
+            llm,
+            tools: [testTool],
+            milestones: [{ id: "m1", description: "Ready", resources: ["ready"] }],
+            snapshot: () => ({ status: "ready" }),
+            maxSteps: 5,
+        });
+        await agent.run();
+
+        expect(cheap.completeCalls).toHaveLength(3);
+        expect(cheap.chatCalls).toHaveLength(0);
+        expect(strong.completeCalls).toHaveLength(0);
+        expect(strong.chatCalls).toHaveLength(1);
+    });
+
+    it("should price each call at the rates of the adapter that served it", async () => {
+        const usage = { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 };
+        const strong: LLMAdapter = {
+            pricing: { input: 10, output: 30 },
+            complete: async () => "",
+            embed: async () => [],
+            chat: async () => ({ content: "done", usage }),
+        };
+        const cheap: LLMAdapter = {
+            pricing: { input: 0.5, output: 1 },
+            complete: async () => "",
+            completeWithUsage: async () => ({ content: deltaJSON(1, true), usage }),
+            embed: async () => [],
+            chat: async () => ({ content: null }),
+        };
+        const llm = new RouterAdapter({ default: strong, phases: { delta: cheap } });
+
+        expect((await llm.chat([{ role: "user", content: "hi" }])).usage?.costUsd).toBe(10);
+        expect((await llm.completeWithUsage("p", { phase: "delta" })).usage?.costUsd).toBe(0.5);
+
+        const agent = new ZenAgent({ goal: "Price", llm, maxSteps: 1 });
+        await agent.run();
+        await agent.chat("hi");
+        expect(agent.calculateCost()).toBe(10.5);
+    });
+
+    it("should prefer tag routes over phase routes", async () => {
+        const tagged = new MockLLMAdapter({ completeResponses: ["tagged"] });
+        const phased = new MockLLMAdapter({ completeResponses: ["phased"] });
+        const llm = new RouterAdapter({
+            default: new MockLLMAdapter(),
+            phases: { chat: phased },
+            tags: { vision: tagged },
+        });
+
+        expect(await llm.complete("hi", { phase: "chat", tags: ["unknown", "vision"] })).toBe("tagged");
+        expect(await llm.complete("hi", { phase: "chat" })).toBe("phased");
+        expect(llm.route()).toHaveLength(1);
+    });
+
+    it("should fall over to the next adapter on error and report it", async () => {
+        const broken = failingLLM(new Error("connection reset"));
+        const backup = new MockLLMAdapter({ chatResponses: [{ content: "from backup" }] });
+        const onFallback = vi.fn();
+        const llm = new RouterAdapter({ default: [broken, backup], onFallback });
+
+        const response = await llm.chat([{ role: "user", content: "hi" }], { phase: "chat" });
+
+        expect(response.content).toBe("from backup");
+        expect(onFallback).toHaveBeenCalledWith(expect.objectContaining({
+            from: broken, to: backup, rateLimited: false, phase: "chat",
+        }));
+    });
+
+    it("should rethrow when the chain is exhausted or shouldFallback declines", async () => {
+        const llm = new RouterAdapter({ default: [failingLLM(new Error("a")), failingLLM(new Error("b"))] });
+        await expect(llm.complete("hi")).rejects.toThrow("b");
+
+        const backup = new MockLLMAdapter();
+        const strict = new RouterAdapter({
+            default: [failingLLM(new Error("invalid request")), backup],
+            shouldFallback: (error) => isRateLimitError(error),
+        });
+        await expect(strict.complete("hi")).rejects.toThrow("invalid request");
+        expect(backup.completeCalls).toHaveLength(0);
+    });
+
+    it("should skip a rate-limited adapter until its cooldown passes", async () => {
+        vi.useFakeTimers();
+        try {
+            const limited = failingLLM(rateLimitError());
+            const backup = new MockLLMAdapter({ embedVector: [1, 2] });
+            const llm = new RouterAdapter({ default: [limited, backup], rateLimitCooldownMs: 1000 });
+
+            await llm.embed("a");
+            await llm.embed("b");
+            expect(limited.embed).toHaveBeenCalledTimes(1);
+            expect(backup.embedCalls).toEqual(["a", "b"]);
+
+            vi.advanceTimersByTime(1001);
+            await llm.embed("c");
+            expect(limited.embed).toHaveBeenCalledTimes(2);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it("should fall over before streaming starts and use chat() for non-streaming adapters", async () => {
+        const broken: LLMAdapter = {
+            ...failingLLM(new Error("unused")),
+            async *chatStream(): AsyncGenerator<ChatStreamChunk> {
+                throw rateLimitError();
+            },
+        };
+        const backup = new MockLLMAdapter({ chatResponses: [{ content: "whole" }] });
+        const llm = new RouterAdapter({ default: [broken, backup] });
+
+        const chunks = await collect(llm.chatStream([{ role: "user", content: "hi" }]));
+
+        expect(chunks).toEqual([
+            { type: "text", delta: "whole" },
+            { type: "done", response: { content: "whole" } },
+        ]);
+    });
+
+    it("should not fall over once chunks have been yielded", async () => {
+        const partial: LLMAdapter = {
+            ...failingLLM(new Error("unused")),
+            async *chatStream(): AsyncGenerator<ChatStreamChunk> {
+                yield { type: "text", delta: "Hel" };
+                throw new Error("stream dropped");
+            },
+        };
+        const backup = new MockLLMAdapter();
+        const llm = new RouterAdapter({ default: [partial, backup] });
+
+        await expect(collect(llm.chatStream([{ role: "user", content: "hi" }]))).rejects.toThrow("stream dropped");
+        expect(backup.chatCalls).toHaveLength(0);
+    });
+});
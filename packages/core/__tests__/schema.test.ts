@@ -0,0 +1,150 @@
+// ============================================================================
+// ZEN AI SDK — Schema Validation Tests
+// Verifies tool arguments are validated and coerced before execution.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { validateSchema, formatSchemaErrors } from "../src/schema.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { JSONSchema, Tool } from "../src/types.js";
+
+const deploySchema: JSONSchema = {
+    type: "object",
+    properties: {
+        name: { type: "string", minLength: 1 },
+        replicas: { type: "integer", minimum: 1, maximum: 10, default: 1 },
+        dryRun: { type: "boolean" },
+        env: { type: "string", enum: ["staging", "production"] },
+        tags: { type: "array", items: { type: "string" }, uniqueItems: true },
+        limits: {
+            type: "object",
+            properties: { cpu: { type: "number", exclusiveMinimum: 0 } },
+            additionalProperties: false,
+        },
+    },
+    required: ["name", "env"],
+};
+
+describe("validateSchema", () => {
+    it("should coerce near-miss LLM arguments and fill defaults", () => {
+        const input = { name: 42, dryRun: "true", env: "staging", tags: "web", limits: '{"cpu":"0.5"}' };
+        const result = validateSchema(deploySchema, input);
+
+        expect(result.errors).toEqual([]);
+        expect(result.value).toEqual({
+            name: "42",
+            replicas: 1,
+            dryRun: true,
+            env: "staging",
+            tags: ["web"],
+            limits: { cpu: 0.5 },
+        });
+        expect(input.name).toBe(42); // input is not mutated
+    });
+
+    it("should report every violation with its path", () => {
+        const result = validateSchema(deploySchema, {
+            name: "",
+            replicas: "12",
+            env: "dev",
+            tags: ["a", "a"],
+            limits: { cpu: 0, memory: "1Gi" },
+        });
+
+        expect(result.valid).toBe(false);
+        expect(result.errors.map((e) => e.path)).toEqual([
+            "$.name",
+            "$.replicas",
+            "$.env",
+            "$.tags",
+            "$.limits.cpu",
+            "$.limits.memory",
+        ]);
+        expect(formatSchemaErrors(result.errors)).toContain("$.replicas: must be <= 10");
+    });
+
+    it("should require properties and reject uncoercible types", () => {
+        const result = validateSchema(deploySchema, { replicas: "many" });
+
+        expect(result.errors).toEqual([
+            { path: "$.replicas", message: "expected integer, got string" },
+            { path: "$.name", message: "is required" },
+            { path: "$.env", message: "is required" },
+        ]);
+    });
+
+    it("should pick the matching branch of anyOf / oneOf", () => {
+        const schema: JSONSchema = { oneOf: [{ type: "integer" }, { type: "boolean" }] };
+
+        expect(validateSchema(schema, "7").value).toBe(7);
+        expect(validateSchema(schema, "false").value).toBe(false);
+        expect(validateSchema(schema, "x").valid).toBe(false);
+        expect(validateSchema({ anyOf: [{ type: "number" }, { type: "integer" }] }, 1).valid).toBe(true);
+        expect(validateSchema({ oneOf: [{ type: "number" }, { type: "integer" }] }, 1).valid).toBe(false);
+    });
+});
+
+describe("ZenAgent argument validation", () => {
+    function deltaJSON(progress: number): string {
+        return JSON.stringify({ description: "gap", progress, gaps: ["g"], isComplete: false });
+    }
+
+    function createDeployTool(): Tool {
+        return {
+            name: "deploy",
+            description: "Deploys a service",
+            parameters: { ...deploySchema, type: "object" },
+            execute: vi.fn(async (params) => ({ success: true, output: params })),
+        };
+    }
+
+    it("should execute with coerced arguments", async () => {
+        const tool = createDeployTool();
+        const llm = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.3), deltaJSON(0.6)],
+            chatResponses: [{
+                content: null,
+                toolCalls: [{ id: "c1", name: "deploy", arguments: { name: "api", env: "staging", replicas: "3" } }],
+            }],
+        });
+        const agent = new ZenAgent({ goal: "Deploy", llm, tools: [tool], maxSteps: 5 });
+
+        await agent.run();
+
+        expect(tool.execute).toHaveBeenCalledWith(
+            { name: "api", env: "staging", replicas: 3 },
+            expect.anything(),
+        );
+    });
+
+    it("should answer invalid arguments without executing the tool", async () => {
+        const tool = createDeployTool();
+        const llm = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.3), deltaJSON(0.6)],
+            chatResponses: [{
+                content: null,
+                toolCalls: [{ id: "c1", name: "deploy", arguments: { name: "api", env: "dev" } }],
+            }],
+        });
+        const agent = new ZenAgent({ goal: "Deploy", llm, tools: [tool], maxSteps: 5 });
+
+        const results: Array<{ success: boolean; error?: string }> = [];
+        agent.on("action:complete", ({ result }) => results.push(result));
+
+        await agent.run();
+
+        expect(tool.execute).not.toHaveBeenCalled();
+        expect(results[0].success).toBe(false);
+        expect(results[0].error).toContain("Invalid arguments for deploy");
+
+        const toolMessage = llm.chatCalls[1].messages.find((m) => m.role === "tool");
+        expect(JSON.parse(toolMessage!.content!).validationErrors).toEqual([
+            { path: "$.env", message: 'must be one of "staging", "production"' },
+        ]);
+
+        const stats = agent.getSelfModel().toolStats.deploy;
+        expect(stats.invalidArgs).toBe(1);
+        expect(stats.uses).toBe(0);
+    });
+});
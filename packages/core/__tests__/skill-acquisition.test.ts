@@ -0,0 +1,121 @@
+// ============================================================================
+// ZEN AI SDK — Skill Acquisition Tests
+// Verifies that successful actions leading to a milestone become SkillDB entries.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { SkillDB, SkillEntry, Tool } from "../src/types.js";
+
+function deltaJSON(progress: number): string {
+    return JSON.stringify({
+        description: `Progress: ${progress * 100}%`,
+        progress,
+        gaps: ["work"],
+        isComplete: false,
+    });
+}
+
+function toolCallResponse(toolName: string, params: Record<string, unknown>) {
+    return {
+        content: null,
+        toolCalls: [{ id: `call_${toolName}`, name: toolName, arguments: params }],
+    };
+}
+
+function createMockSkillDB(initial: SkillEntry[] = []): SkillDB & { entries: SkillEntry[] } {
+    const entries = [...initial];
+    return {
+        entries,
+        store: vi.fn(async (entry: Omit<SkillEntry, "embedding">) => {
+            entries.push(entry);
+        }),
+        retrieve: vi.fn(async (_q: string, topK = 3) => entries.slice(0, topK)),
+        list: vi.fn(async () => entries),
+    };
+}
+
+function createTool(name: string, success = true): Tool {
+    return {
+        name,
+        description: `Test tool: ${name}`,
+        parameters: { type: "object", properties: {} },
+        execute: vi.fn(async () =>
+            success
+                ? { success: true, output: "ok" }
+                : { success: false, output: null, error: "boom" },
+        ),
+    };
+}
+
+/** Agent that runs three steps, then reaches milestone "m1" on the fourth observation. */
+function createAgent(skillDB: SkillDB) {
+    let snapshots = 0;
+    const llm = new MockLLMAdapter({
+        completeResponses: [deltaJSON(0.2), deltaJSON(0.4), deltaJSON(0.6), deltaJSON(0.8), "YES"],
+        chatResponses: [
+            toolCallResponse("file_write", { filePath: "index.html", content: "<h1>hi</h1>" }),
+            toolCallResponse("broken_tool", {}),
+            toolCallResponse("shell_exec", { command: "npm test" }),
+        ],
+    });
+
+    return new ZenAgent({
+        goal: "Build a landing page",
+        llm,
+        tools: [createTool("file_write"), createTool("broken_tool", false), createTool("shell_exec")],
+        milestones: [{ id: "m1", description: "Landing page exists", resources: ["index.html"] }],
+        snapshot: () => (++snapshots > 3 ? { files: ["index.html"] } : {}),
+        skillDB,
+        maxSteps: 10,
+    });
+}
+
+describe("Skill Acquisition", () => {
+    it("should store the successful actions leading to a milestone as a skill", async () => {
+        const skillDB = createMockSkillDB();
+        const agent = createAgent(skillDB);
+
+        const acquired: string[] = [];
+        agent.on("skill:acquired", ({ skillId }) => acquired.push(skillId));
+
+        await agent.run();
+
+        expect(skillDB.entries).toHaveLength(1);
+        const skill = skillDB.entries[0];
+        expect(skill.trigger).toBe("Landing page exists");
+        expect(skill.command).toContain('1. file_write(filePath="index.html"');
+        expect(skill.command).toContain('2. shell_exec(command="npm test")');
+        expect(skill.command).not.toContain("broken_tool");
+        expect(skill.condition).toContain("index.html");
+        expect(acquired).toEqual([skill.id]);
+    });
+
+    it("should skip near-duplicates of existing skills", async () => {
+        const skillDB = createMockSkillDB([{
+            id: "skill_existing",
+            trigger: "Landing page exists",
+            command: '1. file_write(filePath="index.html", content="<h1>hi</h1>")\n2. shell_exec(command="npm test")',
+            condition: "anything",
+        }]);
+        const agent = createAgent(skillDB);
+
+        const acquired = vi.fn();
+        agent.on("skill:acquired", acquired);
+
+        await agent.run();
+
+        expect(skillDB.entries).toHaveLength(1);
+        expect(skillDB.store).not.toHaveBeenCalled();
+        expect(acquired).not.toHaveBeenCalled();
+    });
+
+    it("should not fail the run when the SkillDB errors", async () => {
+        const skillDB = createMockSkillDB();
+        (skillDB.store as ReturnType<typeof vi.fn>).mockRejectedValue(new Error("disk full"));
+        const agent = createAgent(skillDB);
+
+        await expect(agent.run()).resolves.toBeUndefined();
+    });
+});
@@ -0,0 +1,99 @@
+// ============================================================================
+// ZEN AI SDK — Structured Output Tests
+// JSON extraction, schema repair prompts, and the agent's parse:failed path.
+// ============================================================================
+
+import { describe, it, expect } from "vitest";
+import {
+    completeJSON,
+    completeJSONWithRepair,
+    extractJSON,
+    JSONOutputError,
+} from "../src/structured-output.js";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { JSONSchema, TokenUsage } from "../src/types.js";
+
+const SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        verdict: { type: "string", enum: ["yes", "no"] },
+        score: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["verdict", "score"],
+};
+
+const USAGE: TokenUsage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+
+describe("extractJSON", () => {
+    it("should accept bare, fenced, and embedded JSON", () => {
+        expect(extractJSON(' {"a": 1} ')).toEqual({ a: 1 });
+        expect(extractJSON('Here you go:\n```json\n{"a": [1, 2]}\n```')).toEqual({ a: [1, 2] });
+        expect(extractJSON('Result: {"text": "a } in a string"} — done')).toEqual({ text: "a } in a string" });
+        expect(extractJSON("[1, 2] and more")).toEqual([1, 2]);
+        expect(extractJSON("no json here {")).toBeUndefined();
+    });
+});
+
+describe("completeJSONWithRepair", () => {
+    it("should re-prompt with the validation errors until the output is valid", async () => {
+        const prompts: string[] = [];
+        const replies = ['{"verdict": "maybe", "score": 2}', '{"verdict": "yes", "score": "0.8"}'];
+
+        const result = await completeJSONWithRepair<{ verdict: string; score: number }>(
+            async (p) => { prompts.push(p); return { content: replies.shift()!, usage: USAGE }; },
+            "Judge it",
+            SCHEMA,
+        );
+
+        expect(result.value).toEqual({ verdict: "yes", score: 0.8 });
+        expect(result.usage).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+        expect(prompts[0]).toContain('"required":["verdict","score"]');
+        expect(prompts[1]).toContain("## Your previous reply was invalid");
+        expect(prompts[1]).toContain('{"verdict": "maybe", "score": 2}');
+        expect(prompts[1]).toMatch(/verdict/);
+        expect(prompts[1]).toMatch(/score/);
+    });
+
+    it("should throw JSONOutputError after maxRepairs", async () => {
+        let calls = 0;
+        const attempt = completeJSONWithRepair(
+            async () => { calls++; return { content: "I cannot answer that." }; },
+            "Judge it",
+            SCHEMA,
+            { maxRepairs: 1 },
+        );
+
+        await expect(attempt).rejects.toBeInstanceOf(JSONOutputError);
+        await expect(attempt).rejects.toMatchObject({ raw: "I cannot answer that.", attempts: 2, issues: [] });
+        expect(calls).toBe(2);
+    });
+
+    it("should prefer an adapter's native completeJSON", async () => {
+        const llm = new MockLLMAdapter();
+        const native = Object.assign(llm, {
+            completeJSON: async () => ({ value: { verdict: "no", score: 0 } }),
+        });
+
+        expect(await completeJSON(native, "Judge it", SCHEMA)).toEqual({ value: { verdict: "no", score: 0 } });
+        expect(llm.completeCalls).toHaveLength(0);
+    });
+});
+
+describe("ZenAgent structured output", () => {
+    it("should emit parse:failed and continue with a fallback delta", async () => {
+        const llm = new MockLLMAdapter({
+            completeResponses: ["not json", "still not json", "never json"],
+        });
+        const agent = new ZenAgent({ goal: "Parse", llm, maxSteps: 2 });
+        const failures: Array<{ phase: string; attempts: number; raw: string }> = [];
+        agent.on("parse:failed", (p) => { failures.push(p); });
+
+        await agent.run();
+
+        expect(failures).toHaveLength(1);
+        expect(failures[0]).toMatchObject({ phase: "delta", attempts: 3, raw: "never json" });
+        expect(llm.completeCalls[1]).toContain("no parseable JSON");
+        expect(llm.chatCalls.length).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,153 @@
+// ============================================================================
+// ZEN AI SDK — Multiple Tool Calls Tests
+// Verifies every tool call of a decision is executed and answered in history.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { ZenAgent } from "../src/zen-agent.js";
+import { MockLLMAdapter } from "./helpers/mock-llm-adapter.js";
+import type { ChatResponse, Tool } from "../src/types.js";
+
+function deltaJSON(progress: number): string {
+    return JSON.stringify({ description: "gap", progress, gaps: ["g"], isComplete: false });
+}
+
+function multiCallResponse(...names: string[]): ChatResponse {
+    return {
+        content: null,
+        toolCalls: names.map((name, i) => ({ id: `call_${i}_${name}`, name, arguments: { n: i } })),
+    };
+}
+
+/** Tool that records how many executions overlap with it. */
+function createTrackedTool(name: string, tracker: { active: number; peak: number; order: string[] }, sideEffects = false): Tool {
+    return {
+        name,
+        description: `Tracked tool ${name}`,
+        parameters: { type: "object", properties: {} },
+        sideEffects,
+        execute: vi.fn(async () => {
+            tracker.active++;
+            tracker.peak = Math.max(tracker.peak, tracker.active);
+            tracker.order.push(`start:${name}`);
+            await new Promise((r) => setTimeout(r, 10));
+            tracker.order.push(`end:${name}`);
+            tracker.active--;
+            return { success: true, output: `${name} ok` };
+        }),
+    };
+}
+
+describe("Multiple tool calls", () => {
+    it("should execute every call in one step and answer each toolCallId", async () => {
+        const tracker = { active: 0, peak: 0, order: [] as string[] };
+        const llm = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.3), deltaJSON(0.6)],
+            chatResponses: [multiCallResponse("read_a", "read_b", "missing_tool")],
+        });
+        const agent = new ZenAgent({
+            goal: "Read both",
+            llm,
+            tools: [createTrackedTool("read_a", tracker), createTrackedTool("read_b", tracker)],
+            maxSteps: 5,
+        });
+
+        const completed: Array<{ tool: string; step: number; success: boolean }> = [];
+        agent.on("action:complete", ({ action, step, result }) =>
+            completed.push({ tool: action.toolName, step, success: result.success }));
+
+        await agent.run();
+
+        expect(agent.getState().stepCount).toBe(1);
+        expect(completed.map((c) => c.step)).toEqual([1, 1, 1]);
+        expect(completed.find((c) => c.tool === "missing_tool")?.success).toBe(false);
+
+        // The second decision sees one tool message per call, in call order
+        const history = llm.chatCalls[1].messages.filter((m) => m.role !== "system");
+        expect(history[0].toolCalls).toHaveLength(3);
+        expect(history.slice(1).map((m) => [m.role, m.toolCallId])).toEqual([
+            ["tool", "call_0_read_a"],
+            ["tool", "call_1_read_b"],
+            ["tool", "call_2_missing_tool"],
+        ]);
+        expect(history[3].content).toContain("Tool not found");
+    });
+
+    it("should run independent calls concurrently up to maxParallelTools", async () => {
+        const tracker = { active: 0, peak: 0, order: [] as string[] };
+        const llm = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.3), deltaJSON(0.6)],
+            chatResponses: [multiCallResponse("a", "b", "c")],
+        });
+        const agent = new ZenAgent({
+            goal: "Parallel",
+            llm,
+            tools: ["a", "b", "c"].map((n) => createTrackedTool(n, tracker)),
+            maxParallelTools: 2,
+            maxSteps: 5,
+        });
+
+        await agent.run();
+
+        expect(tracker.peak).toBe(2);
+        expect(tracker.order.filter((e) => e.startsWith("end"))).toHaveLength(3);
+    });
+
+    it("should run side-effecting tools one at a time", async () => {
+        const tracker = { active: 0, peak: 0, order: [] as string[] };
+        const llm = new MockLLMAdapter({
+            completeResponses: [deltaJSON(0.3), deltaJSON(0.6)],
+            chatResponses: [multiCallResponse("read", "write", "read2")],
+        });
+        const agent = new ZenAgent({
+            goal: "Mixed",
+            llm,
+            tools: [
+                createTrackedTool("read", tracker),
+                createTrackedTool("write", tracker, true),
+                createTrackedTool("read2", tracker),
+            ],
+            maxSteps: 5,
+        });
+
+        await agent.run();
+
+        expect(tracker.peak).toBe(1);
+        expect(tracker.order).toEqual([
+            "start:read", "end:read",
+            "start:write", "end:write",
+            "start:read2", "end:read2",
+        ]);
+    });
+
+    it("should keep tool calls in history on the awakening path", async () => {
+        const tracker = { active: 0, peak: 0, order: [] as string[] };
+        const llm = new MockLLMAdapter({
+            completeResponses: [
+                deltaJSON(0.3), '{"hypotheses":["A"]}', '{"filtered":["A"]}',
+                deltaJSON(0.6), '{"hypotheses":["B"]}', '{"filtered":["B"]}',
+            ],
+            chatResponses: [multiCallResponse("x", "y")],
+        });
+        const agent = new ZenAgent({
+            goal: "Awaken",
+            llm,
+            tools: [createTrackedTool("x", tracker), createTrackedTool("y", tracker)],
+            karmaMemoryDB: {
+                store: vi.fn(),
+                retrieve: vi.fn(async () => []),
+                list: vi.fn(async () => []),
+                traceCausalChain: vi.fn(async () => []),
+                getHabitualPatterns: vi.fn(async () => []),
+                applyImpermanence: vi.fn(async () => {}),
+            },
+            maxSteps: 5,
+        });
+
+        await agent.run();
+
+        const history = llm.chatCalls[1].messages.filter((m) => m.role !== "system");
+        expect(history[0].toolCalls?.map((tc) => tc.id)).toEqual(["call_0_x", "call_1_y"]);
+        expect(history.slice(1).map((m) => m.toolCallId)).toEqual(["call_0_x", "call_1_y"]);
+    });
+});
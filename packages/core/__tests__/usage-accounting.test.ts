@@ -0,0 +1,111 @@
+// ============================================================================
+// ZEN AI SDK — Usage Accounting Tests
+// Verifies that every LLM call (not just decide()) is counted, per phase.
+// ============================================================================
+
+import { describe, it, expect, vi } from "vitest";
+import { ZenAgent } from "../src/zen-agent.js";
+import type { LLMAdapter, ChatResponse, Tool, TokenUsage } from "../src/types.js";
+
+const COMPLETE_USAGE: TokenUsage = { promptTokens: 10, completionTokens: 5, totalTokens: 15 };
+const CHAT_USAGE: TokenUsage = { promptTokens: 100, completionTokens: 50, totalTokens: 150 };
+
+function deltaJSON(progress: number, isComplete = false): string {
+    return JSON.stringify({ description: "gap", progress, gaps: ["g"], isComplete });
+}
+
+/** LLM whose completeWithUsage() and chat() always report usage. */
+function createUsageLLM(completeResponses: string[], chatResponses: ChatResponse[]): LLMAdapter {
+    return {
+        complete: vi.fn(async () => {
+            throw new Error("complete() should not be used when completeWithUsage() exists");
+        }),
+        completeWithUsage: vi.fn(async () => ({
+            content: completeResponses.shift() ?? deltaJSON(1, true),
+            usage: COMPLETE_USAGE,
+        })),
+        embed: vi.fn(async () => [0.1, 0.2, 0.3]),
+        chat: vi.fn(async () => ({
+            ...(chatResponses.shift() ?? { content: "DONE" }),
+            usage: CHAT_USAGE,
+        })),
+    };
+}
+
+const testTool: Tool = {
+    name: "test_tool",
+    description: "A test tool",
+    parameters: { type: "object", properties: {} },
+    execute: async () => ({ success: true, output: "ok" }),
+};
+
+describe("Usage accounting", () => {
+    it("should account delta, milestone and decide calls separately", async () => {
+        const llm = createUsageLLM(
+            [deltaJSON(0.5), "NO", deltaJSON(1, true)],
+            [{ content: null, toolCalls: [{ id: "c1", name: "test_tool", arguments: {} }] }],
+        );
+
+        const agent = new ZenAgent({
+            goal: "Count everything",
+            llm,
+            tools: [testTool],
+            milestones: [{ id: "m1", description: "Ready", resources: ["ready"] }],
+            snapshot: () => ({ status: "ready" }),
+            maxSteps: 5,
+        });
+
+        let payload: { usage: TokenUsage; usageByPhase: Record<string, TokenUsage>; cost: number } | undefined;
+        agent.on("agent:complete", (p) => { payload = p; });
+
+        await agent.run();
+
+        expect(payload?.usageByPhase.delta).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+        expect(payload?.usageByPhase.milestone).toEqual(COMPLETE_USAGE);
+        expect(payload?.usageByPhase.decide).toEqual(CHAT_USAGE);
+        expect(payload?.usage).toEqual({ promptTokens: 130, completionTokens: 65, totalTokens: 195 });
+        expect(payload?.cost).toBeGreaterThan(0);
+        expect(agent.getState().usageByPhase).toEqual(payload?.usageByPhase);
+    });
+
+    it("should account awakening stages", async () => {
+        const llm = createUsageLLM(
+            [deltaJSON(0.5), '{"hypotheses":["A"]}', '{"filtered":["A"]}'],
+            [{ content: "DONE" }],
+        );
+
+        const agent = new ZenAgent({
+            goal: "Awaken",
+            llm,
+            karmaMemoryDB: {
+                store: vi.fn(),
+                retrieve: vi.fn(async () => []),
+                list: vi.fn(async () => []),
+                traceCausalChain: vi.fn(async () => []),
+                getHabitualPatterns: vi.fn(async () => []),
+                applyImpermanence: vi.fn(async () => {}),
+            },
+            maxSteps: 3,
+        });
+
+        await agent.run();
+
+        const byPhase = agent.getUsageByPhase();
+        expect(byPhase.awakening).toEqual({ promptTokens: 20, completionTokens: 10, totalTokens: 30 });
+        expect(byPhase.decide).toEqual(CHAT_USAGE);
+    });
+
+    it("should sum chat() tool-call and follow-up usage", async () => {
+        const llm = createUsageLLM([], [
+            { content: null, toolCalls: [{ id: "c1", name: "test_tool", arguments: {} }] },
+            { content: "Here you go" },
+        ]);
+
+        const agent = new ZenAgent({ goal: "Chat", llm, tools: [testTool] });
+        const reply = await agent.chat("do it");
+
+        expect(reply.content).toBe("Here you go");
+        expect(reply.usage).toEqual({ promptTokens: 200, completionTokens: 100, totalTokens: 300 });
+        expect(agent.getUsageByPhase().chat).toEqual(reply.usage);
+    });
+});
@@ -171,7 +171,10 @@ describe("ZenAgent", () => {
 
         await agent.run();
 
-        expect(tool.execute).toHaveBeenCalledWith({ input: "hello" });
+        expect(tool.execute).toHaveBeenCalledWith(
+            { input: "hello" },
+            expect.objectContaining({ step: 1, agentId: expect.any(String), signal: expect.any(AbortSignal) }),
+        );
         expect(actionListener).toHaveBeenCalledWith(
             expect.objectContaining({
                 action: expect.objectContaining({ toolName: "test_tool" }),
@@ -245,6 +248,136 @@ describe("ZenAgent", () => {
         expect(actionCount).toBe(2);
     });
 
+    it("should pause at a step boundary and resume with events", async () => {
+        let chatCallCount = 0;
+        const llm = createMockLLM({
+            chat: vi.fn().mockImplementation(() => {
+                chatCallCount++;
+                if (chatCallCount > 3) {
+                    return Promise.resolve({ content: "DONE", toolCalls: undefined });
+                }
+                return Promise.resolve({
+                    content: null,
+                    toolCalls: [
+                        { id: `call_${chatCallCount}`, name: "test_tool", arguments: { input: "x" } },
+                    ],
+                });
+            }),
+        });
+
+        const agent = new ZenAgent({
+            goal: "Pausable",
+            llm,
+            tools: [createMockTool()],
+            maxSteps: 10,
+        });
+
+        const events: string[] = [];
+        agent.on("action:complete", ({ step }) => {
+            events.push(`action:${step}`);
+            if (step === 1) agent.pause();
+        });
+        agent.on("agent:paused", ({ step }) => {
+            events.push(`paused:${step}`);
+            expect(agent.isPaused).toBe(true);
+            setTimeout(() => agent.resume(), 10);
+        });
+        agent.on("agent:resumed", ({ step }) => events.push(`resumed:${step}`));
+
+        await agent.run();
+
+        expect(events).toEqual([
+            "action:1", "paused:1", "resumed:1", "action:2", "action:3",
+        ]);
+        expect(agent.isPaused).toBe(false);
+        expect(agent.getState().stepCount).toBe(3);
+    });
+
+    it("should release a paused loop on stop()", async () => {
+        const llm = createMockLLM({
+            chat: vi.fn().mockResolvedValue({
+                content: null,
+                toolCalls: [{ id: "call_1", name: "test_tool", arguments: { input: "x" } }],
+            }),
+        });
+
+        const agent = new ZenAgent({
+            goal: "Stop while paused",
+            llm,
+            tools: [createMockTool()],
+            maxSteps: 10,
+        });
+
+        const resumed = vi.fn();
+        agent.on("action:complete", () => agent.pause());
+        agent.on("agent:paused", () => setTimeout(() => agent.stop(), 10));
+        agent.on("agent:resumed", resumed);
+
+        await agent.run();
+
+        expect(resumed).not.toHaveBeenCalled();
+        expect(agent.getState().stepCount).toBe(1);
+        expect(agent.isRunning).toBe(false);
+    });
+
+    it("should fail a tool call that exceeds its timeoutMs", async () => {
+        const llm = createMockLLM({
+            chat: vi.fn()
+                .mockResolvedValueOnce({
+                    content: null,
+                    toolCalls: [{ id: "call_1", name: "slow_tool", arguments: {} }],
+                })
+                .mockResolvedValue({ content: "DONE" }),
+        });
+        let receivedSignal: AbortSignal | undefined;
+        const slowTool: Tool = {
+            name: "slow_tool",
+            description: "Never finishes on its own",
+            parameters: { type: "object", properties: {} },
+            timeoutMs: 20,
+            execute: vi.fn((_params, ctx) => {
+                receivedSignal = ctx?.signal;
+                return new Promise(() => { /* hangs, ignoring the signal */ });
+            }),
+        };
+
+        const agent = new ZenAgent({ goal: "Time out", llm, tools: [slowTool], maxSteps: 3 });
+        const results: Array<{ success: boolean; error?: string }> = [];
+        agent.on("action:complete", ({ result }) => results.push(result));
+
+        await agent.run();
+
+        expect(results).toEqual([expect.objectContaining({ success: false, error: 'Tool "slow_tool" timed out after 20ms' })]);
+        expect(receivedSignal?.aborted).toBe(true);
+    });
+
+    it("should abort in-flight tools on stop()", async () => {
+        const llm = createMockLLM({
+            chat: vi.fn().mockResolvedValue({
+                content: null,
+                toolCalls: [{ id: "call_1", name: "hang_tool", arguments: {} }],
+            }),
+        });
+        const hangTool: Tool = {
+            name: "hang_tool",
+            description: "Waits for its signal",
+            parameters: { type: "object", properties: {} },
+            execute: vi.fn((_params, ctx) => new Promise((_, reject) => {
+                ctx?.signal.addEventListener("abort", () => reject(ctx.signal.reason));
+            })),
+        };
+
+        const agent = new ZenAgent({ goal: "Stop mid-tool", llm, tools: [hangTool], maxSteps: 10 });
+        agent.on("action:start", () => setTimeout(() => agent.stop(), 10));
+        const results: Array<{ success: boolean; error?: string }> = [];
+        agent.on("action:complete", ({ result }) => results.push(result));
+
+        await agent.run();
+
+        expect(results).toEqual([expect.objectContaining({ success: false, error: "Agent stopped" })]);
+        expect(agent.getState().stepCount).toBe(1);
+    });
+
     it("should collect artifacts from successful tool executions", async () => {
         let chatCallCount = 0;
         const llm = createMockLLM({
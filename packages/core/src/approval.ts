@@ -0,0 +1,38 @@
+// ============================================================================
+// ZEN AI SDK — Tool Approval
+// "Pause before the irreversible."
+// ============================================================================
+
+import type { ApprovalRule } from "./types.js";
+
+/** Default approval timeout: 5 minutes. */
+export const DEFAULT_APPROVAL_TIMEOUT_MS = 300_000;
+
+/**
+ * Rules for the built-in tools that change the outside world: shell commands,
+ * file writes and edits, and HTTP requests that send data.
+ */
+export const RISKY_TOOL_RULES: ApprovalRule[] = [
+    { tool: "shell_exec", reason: "Runs a shell command" },
+    { tool: ["file_write", "code_edit"], reason: "Changes a file" },
+    { tool: "http_request", args: { method: /^\s*(post|put|patch|delete)\s*$/i }, reason: "Sends data to a remote server" },
+];
+
+/** The first rule that marks this call as requiring approval, if any. */
+export function matchApprovalRule(
+    rules: ApprovalRule[],
+    toolName: string,
+    params: Record<string, unknown>,
+): ApprovalRule | undefined {
+    return rules.find((rule) => {
+        const tools = Array.isArray(rule.tool) ? rule.tool : [rule.tool];
+        if (!tools.includes("*") && !tools.includes(toolName)) return false;
+
+        return Object.entries(rule.args ?? {}).every(([name, pattern]) => {
+            const value = params[name];
+            if (value === undefined) return false;
+            const text = typeof value === "string" ? value : JSON.stringify(value);
+            return typeof pattern === "string" ? text.includes(pattern) : pattern.test(text);
+        });
+    });
+}
@@ -0,0 +1,139 @@
+// ============================================================================
+// ZEN AI SDK — BM25 Embedder
+// "Weigh each word by how rarely it is spoken."
+// ============================================================================
+
+import type { Embedder } from "./types.js";
+
+/** Options for the local BM25 embedder. */
+export interface BM25EmbedderOptions {
+    /** Vector length; terms are hashed into this many buckets. Default: 1024. */
+    dimensions?: number;
+    /** Term-frequency saturation. Default: 1.2. */
+    k1?: number;
+    /** Length normalization (0 = none, 1 = full). Default: 0.75. */
+    b?: number;
+    /**
+     * Update document frequencies with every embedded text. Default: false,
+     * since embed() also serves search queries, which would skew the corpus
+     * statistics. Call fit() with the stored texts instead.
+     */
+    learn?: boolean;
+}
+
+const DEFAULT_DIMENSIONS = 1024;
+const DEFAULT_K1 = 1.2;
+const DEFAULT_B = 0.75;
+
+/**
+ * BM25Embedder — Local, dependency-free sparse embeddings.
+ *
+ * Each term is weighted by BM25 (saturated term frequency × inverse document
+ * frequency) and hashed into a fixed number of buckets, so vectors keep the
+ * same length across runs and can be persisted alongside their entries.
+ * Latin-script text is split into words; CJK text into character bigrams.
+ *
+ * Term statistics come from fit(): feed it the corpus (e.g. the stored
+ * memories at startup, and new entries as they are stored). Until then
+ * every term weighs the same. Vectors embedded before a fit() carry older
+ * weights; that is fine for cosine ranking, but not a substitute for a
+ * neural embedding model.
+ *
+ * Usage:
+ * ```ts
+ * const embedder = new BM25Embedder();
+ * const skills = new SkillDB({ embedder, persistPath: ".zen/skills.json" });
+ * await skills.load();
+ * embedder.fit((await skills.list()).map((s) => `${s.trigger} ${s.condition}`));
+ * ```
+ */
+export class BM25Embedder implements Embedder {
+    readonly dimensions: number;
+    private readonly k1: number;
+    private readonly b: number;
+    private readonly learn: boolean;
+    private docFreq = new Map<string, number>();
+    private docCount = 0;
+    private totalLength = 0;
+
+    constructor(options: BM25EmbedderOptions = {}) {
+        this.dimensions = options.dimensions ?? DEFAULT_DIMENSIONS;
+        this.k1 = options.k1 ?? DEFAULT_K1;
+        this.b = options.b ?? DEFAULT_B;
+        this.learn = options.learn ?? false;
+    }
+
+    /** Add a corpus to the term statistics (e.g. existing memories at startup). */
+    fit(texts: string[]): void {
+        for (const text of texts) this.addDocument(tokenize(text));
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const tokens = tokenize(text);
+        if (this.learn) this.addDocument(tokens);
+        return this.vectorize(tokens);
+    }
+
+    private addDocument(tokens: string[]): void {
+        this.docCount++;
+        this.totalLength += tokens.length;
+        for (const term of new Set(tokens)) {
+            this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+        }
+    }
+
+    private vectorize(tokens: string[]): number[] {
+        const vector = new Array<number>(this.dimensions).fill(0);
+        if (tokens.length === 0) return vector;
+
+        const termFreq = new Map<string, number>();
+        for (const t of tokens) termFreq.set(t, (termFreq.get(t) ?? 0) + 1);
+
+        const avgLength = this.docCount > 0 ? this.totalLength / this.docCount : tokens.length;
+        const lengthNorm = 1 - this.b + this.b * (tokens.length / (avgLength || 1));
+
+        for (const [term, tf] of termFreq) {
+            const df = this.docFreq.get(term) ?? 0;
+            const idf = Math.log(1 + (this.docCount - df + 0.5) / (df + 0.5));
+            const weight = idf * (tf * (this.k1 + 1)) / (tf + this.k1 * lengthNorm);
+
+            // Signed hashing keeps bucket collisions from only ever adding up
+            const hash = fnv1a(term);
+            vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+        }
+
+        const magnitude = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return magnitude > 0 ? vector.map((v) => v / magnitude) : vector;
+    }
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+const CJK_RUN = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]+/g;
+
+/** Lowercased words (2+ chars) plus character bigrams of CJK runs. */
+function tokenize(text: string): string[] {
+    const lower = text.toLowerCase();
+    const tokens = lower
+        .replace(CJK_RUN, " ")
+        .split(/[^\p{L}\p{N}_]+/u)
+        .filter((t) => t.length > 1);
+
+    for (const [run] of lower.matchAll(CJK_RUN)) {
+        if (run.length === 1) tokens.push(run);
+        for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+    }
+    return tokens;
+}
+
+/** 32-bit FNV-1a hash (unsigned). */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
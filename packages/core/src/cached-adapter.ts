@@ -0,0 +1,262 @@
+// ============================================================================
+// ZEN AI SDK — Cached Adapter
+// "Why ask again what has already been answered?"
+// ============================================================================
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+    LLMAdapter,
+    LLMCallOptions,
+    LLMPhase,
+    CacheStats,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    JSONCompletionResponse,
+    JSONSchema,
+    ModelPricing,
+} from "./types.js";
+import { stableHash } from "./stable-hash.js";
+import { completeJSON } from "./structured-output.js";
+
+/** Options for the response cache. */
+export interface CachedAdapterOptions {
+    /** Max entries held in memory; the least recently used is evicted first. Default: 1000. */
+    maxEntries?: number;
+    /** Time to live of an entry in ms. Default: no expiry. */
+    ttlMs?: number;
+    /** Directory for an on-disk cache shared across runs (one JSON file per entry). */
+    cacheDir?: string;
+    /** Cache embed() results. Default: true. */
+    embeddings?: boolean;
+    /**
+     * Cache complete() / completeJSON() / chat() results: true for every call, or only the
+     * listed phases (e.g. ["milestone"]). Default: false — only enable for
+     * deterministic calls (temperature 0), since a hit replays the first answer.
+     */
+    completions?: boolean | LLMPhase[];
+}
+
+interface CacheEntry {
+    value: unknown;
+    /** Epoch ms after which the entry is stale (undefined = never). */
+    expiresAt?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * CachedAdapter — Wraps an adapter with an LRU response cache.
+ *
+ * Entries are keyed by provider, model and a hash of the input. Embeddings
+ * are cached by default (MemoryStore re-embeds every query); completions only
+ * when opted in. A cache hit reports no token usage, so cost tracking
+ * reflects what was actually spent. Streamed chats are never cached.
+ *
+ * Usage:
+ * ```ts
+ * const llm = new CachedAdapter(new OpenAIAdapter(), {
+ *     cacheDir: ".zen/cache",
+ *     ttlMs: 24 * 60 * 60 * 1000,
+ *     completions: ["milestone"],
+ * });
+ * const agent = new ZenAgent({ goal, llm });
+ * agent.on("agent:complete", ({ cache }) => console.log(cache)); // { hits, misses }
+ * ```
+ */
+export class CachedAdapter implements LLMAdapter {
+    private readonly inner: LLMAdapter;
+    private readonly maxEntries: number;
+    private readonly ttlMs?: number;
+    private readonly cacheDir?: string;
+    private readonly cacheEmbeddings: boolean;
+    private readonly completions: boolean | LLMPhase[];
+    /** Insertion order doubles as recency order: the first key is the least recent. */
+    private memory = new Map<string, CacheEntry>();
+    private hits = 0;
+    private misses = 0;
+
+    constructor(inner: LLMAdapter, options: CachedAdapterOptions = {}) {
+        this.inner = inner;
+        this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+        this.ttlMs = options.ttlMs;
+        this.cacheDir = options.cacheDir ? path.resolve(options.cacheDir) : undefined;
+        this.cacheEmbeddings = options.embeddings ?? true;
+        this.completions = options.completions ?? false;
+
+        if (this.cacheDir && !fs.existsSync(this.cacheDir)) {
+            fs.mkdirSync(this.cacheDir, { recursive: true });
+        }
+    }
+
+    get provider(): string | undefined {
+        return this.inner.provider;
+    }
+
+    get model(): string | undefined {
+        return this.inner.model;
+    }
+
+    get pricing(): ModelPricing | undefined {
+        return this.inner.pricing;
+    }
+
+    get contextWindow(): number | undefined {
+        return this.inner.contextWindow;
+    }
+
+    async complete(prompt: string, options?: LLMCallOptions): Promise<string> {
+        return (await this.completeWithUsage(prompt, options)).content;
+    }
+
+    async completeWithUsage(prompt: string, options?: LLMCallOptions): Promise<CompletionResponse> {
+        const call = async (): Promise<CompletionResponse> => this.inner.completeWithUsage
+            ? this.inner.completeWithUsage(prompt, options)
+            : { content: await this.inner.complete(prompt, options) };
+        if (!this.cachesCompletion(options)) return call();
+
+        return this.cached("complete", { prompt }, call, (res) => ({ content: res.content }));
+    }
+
+    /** Generate schema-valid JSON with the inner adapter's native mode, if any. */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        const call = () => completeJSON<T>(this.inner, prompt, schema, options);
+        if (!this.cachesCompletion(options)) return call();
+
+        return this.cached("completeJSON", { prompt, schema }, call, (res) => structuredClone({ value: res.value }));
+    }
+
+    async embed(text: string): Promise<number[]> {
+        if (!this.cacheEmbeddings) return this.inner.embed(text);
+        return this.cached("embed", { text }, () => this.inner.embed(text), (vector) => [...vector]);
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        if (!this.cachesCompletion(options)) return this.inner.chat(messages, options);
+
+        return this.cached(
+            "chat",
+            { messages, tools: options?.tools },
+            () => this.inner.chat(messages, options),
+            (res) => structuredClone({ content: res.content, toolCalls: res.toolCalls }),
+        );
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<ChatStreamChunk> {
+        if (this.inner.chatStream) {
+            yield* this.inner.chatStream(messages, options);
+            return;
+        }
+        const response = await this.inner.chat(messages, options);
+        if (response.content) yield { type: "text", delta: response.content };
+        yield { type: "done", response };
+    }
+
+    /** Hit and miss counts since creation (or the last clear()). */
+    cacheStats(): CacheStats {
+        return { hits: this.hits, misses: this.misses };
+    }
+
+    /** Drop every cached entry (memory and disk) and reset the counters. */
+    clear(): void {
+        this.memory.clear();
+        this.hits = 0;
+        this.misses = 0;
+        if (this.cacheDir) {
+            for (const file of fs.readdirSync(this.cacheDir)) {
+                if (file.endsWith(".json")) fs.unlinkSync(path.join(this.cacheDir, file));
+            }
+        }
+    }
+
+    // ---------------------------------------------------------------------------
+    // Internals
+    // ---------------------------------------------------------------------------
+
+    private cachesCompletion(options?: LLMCallOptions): boolean {
+        if (Array.isArray(this.completions)) {
+            return options?.phase !== undefined && this.completions.includes(options.phase);
+        }
+        return this.completions;
+    }
+
+    /**
+     * Serve from the cache, or call through and store the result.
+     * `toCached` strips what must not be replayed (usage) and copies the value.
+     */
+    private async cached<T>(
+        method: string,
+        request: unknown,
+        call: () => Promise<T>,
+        toCached: (value: T) => T,
+    ): Promise<T> {
+        const key = stableHash({
+            provider: this.inner.provider,
+            model: this.inner.model,
+            method,
+            request,
+        });
+
+        const hit = this.lookup(key);
+        if (hit !== undefined) {
+            this.hits++;
+            return structuredClone(hit as T);
+        }
+
+        this.misses++;
+        const value = await call();
+        this.store(key, toCached(value));
+        return value;
+    }
+
+    private lookup(key: string): unknown {
+        const entry = this.memory.get(key) ?? this.readDisk(key);
+        if (!entry) return undefined;
+        if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            this.memory.delete(key);
+            return undefined;
+        }
+        this.remember(key, entry);
+        return entry.value;
+    }
+
+    private store(key: string, value: unknown): void {
+        const entry: CacheEntry = {
+            value,
+            expiresAt: this.ttlMs !== undefined ? Date.now() + this.ttlMs : undefined,
+        };
+        this.remember(key, entry);
+        if (this.cacheDir) {
+            fs.writeFileSync(path.join(this.cacheDir, `${key}.json`), JSON.stringify(entry), "utf-8");
+        }
+    }
+
+    /** Put an entry at the most-recent end, evicting the least recent beyond maxEntries. */
+    private remember(key: string, entry: CacheEntry): void {
+        this.memory.delete(key);
+        this.memory.set(key, entry);
+        while (this.memory.size > this.maxEntries) {
+            const oldest = this.memory.keys().next().value as string;
+            this.memory.delete(oldest);
+        }
+    }
+
+    private readDisk(key: string): CacheEntry | undefined {
+        if (!this.cacheDir) return undefined;
+        const file = path.join(this.cacheDir, `${key}.json`);
+        if (!fs.existsSync(file)) return undefined;
+        try {
+            return JSON.parse(fs.readFileSync(file, "utf-8")) as CacheEntry;
+        } catch {
+            return undefined;
+        }
+    }
+}
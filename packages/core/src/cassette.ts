@@ -0,0 +1,286 @@
+// ============================================================================
+// ZEN AI SDK — Record / Replay Adapters
+// "What was heard once can be recited exactly."
+// ============================================================================
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type {
+    LLMAdapter,
+    LLMCallOptions,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    JSONCompletionResponse,
+    JSONSchema,
+    LLMToolDefinition,
+    ModelPricing,
+} from "./types.js";
+import { stableHash } from "./stable-hash.js";
+import { completeJSON } from "./structured-output.js";
+
+/** The kind of LLM call a cassette entry records. */
+export type CassetteMethod = "complete" | "completeJSON" | "chat" | "embed";
+
+/** The part of a call that determines its response (and its hash). */
+export type CassetteRequest =
+    | { prompt: string }
+    | { prompt: string; schema: JSONSchema }
+    | { messages: ChatMessage[]; tools?: LLMToolDefinition[] }
+    | { text: string };
+
+/** One recorded call. */
+export interface CassetteEntry {
+    /** Hash of method + request, used for matching on replay. */
+    key: string;
+    method: CassetteMethod;
+    request: CassetteRequest;
+    response: CompletionResponse | JSONCompletionResponse | ChatResponse | number[];
+}
+
+/** A recorded run: every call in the order it was made. */
+export interface Cassette {
+    version: 1;
+    /** Adapter identity at recording time (kept so replayed runs price and compact the same). */
+    provider?: string;
+    model?: string;
+    pricing?: ModelPricing;
+    contextWindow?: number;
+    entries: CassetteEntry[];
+}
+
+/** Options for recording. */
+export interface RecordingAdapterOptions {
+    /** File the cassette is written to (JSON). Overwritten on the first call. */
+    cassettePath: string;
+}
+
+/** Options for replaying. */
+export interface ReplayAdapterOptions {
+    /** Cassette file to read (JSON). */
+    cassettePath?: string;
+    /** Cassette object, instead of a file. */
+    cassette?: Cassette;
+}
+
+/**
+ * The key a call is matched by: a SHA-256 of the method and request.
+ * Object keys are sorted first, so key order never changes the hash.
+ * Phase and tags are not part of the key — they route a call, not answer it.
+ */
+export function cassetteKey(method: CassetteMethod, request: CassetteRequest): string {
+    return stableHash({ method, request });
+}
+
+/**
+ * RecordingAdapter — Wraps a real adapter and writes every call to a cassette.
+ *
+ * The file is rewritten after each call, so a crashed run still leaves a
+ * usable cassette. Streamed chats are recorded as their final response.
+ *
+ * Usage:
+ * ```ts
+ * const llm = new RecordingAdapter(new OpenAIAdapter(), { cassettePath: "./fixtures/run.json" });
+ * await new ZenAgent({ goal, llm }).run();
+ * // Later, in CI:
+ * const replay = new ReplayAdapter({ cassettePath: "./fixtures/run.json" });
+ * ```
+ */
+export class RecordingAdapter implements LLMAdapter {
+    private readonly inner: LLMAdapter;
+    private readonly cassettePath: string;
+    private cassette: Cassette;
+
+    constructor(inner: LLMAdapter, options: RecordingAdapterOptions) {
+        this.inner = inner;
+        this.cassettePath = path.resolve(options.cassettePath);
+        this.cassette = {
+            version: 1,
+            provider: inner.provider,
+            model: inner.model,
+            pricing: inner.pricing,
+            contextWindow: inner.contextWindow,
+            entries: [],
+        };
+    }
+
+    get provider(): string | undefined {
+        return this.inner.provider;
+    }
+
+    get model(): string | undefined {
+        return this.inner.model;
+    }
+
+    get pricing(): ModelPricing | undefined {
+        return this.inner.pricing;
+    }
+
+    get contextWindow(): number | undefined {
+        return this.inner.contextWindow;
+    }
+
+    async complete(prompt: string, options?: LLMCallOptions): Promise<string> {
+        return (await this.completeWithUsage(prompt, options)).content;
+    }
+
+    async completeWithUsage(prompt: string, options?: LLMCallOptions): Promise<CompletionResponse> {
+        const response = this.inner.completeWithUsage
+            ? await this.inner.completeWithUsage(prompt, options)
+            : { content: await this.inner.complete(prompt, options) };
+        this.record("complete", { prompt }, response);
+        return response;
+    }
+
+    /** Schema-valid JSON, recorded as one entry (repair attempts included). */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        const response = await completeJSON<T>(this.inner, prompt, schema, options);
+        this.record("completeJSON", { prompt, schema }, response);
+        return response;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const vector = await this.inner.embed(text);
+        this.record("embed", { text }, vector);
+        return vector;
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        const response = await this.inner.chat(messages, options);
+        this.record("chat", chatRequest(messages, options), response);
+        return response;
+    }
+
+    async *chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<ChatStreamChunk> {
+        if (!this.inner.chatStream) {
+            const response = await this.chat(messages, options);
+            if (response.content) yield { type: "text", delta: response.content };
+            yield { type: "done", response };
+            return;
+        }
+        for await (const chunk of this.inner.chatStream(messages, options)) {
+            if (chunk.type === "done") this.record("chat", chatRequest(messages, options), chunk.response);
+            yield chunk;
+        }
+    }
+
+    /** The cassette recorded so far. */
+    getCassette(): Cassette {
+        return this.cassette;
+    }
+
+    private record(method: CassetteMethod, request: CassetteRequest, response: CassetteEntry["response"]): void {
+        // Clone: callers keep appending to the message arrays they pass in
+        this.cassette.entries.push({
+            key: cassetteKey(method, request),
+            method,
+            request: structuredClone(request),
+            response: structuredClone(response),
+        });
+
+        const dir = path.dirname(this.cassettePath);
+        if (!fs.existsSync(dir)) {
+            fs.mkdirSync(dir, { recursive: true });
+        }
+        fs.writeFileSync(this.cassettePath, JSON.stringify(this.cassette, null, 2), "utf-8");
+    }
+}
+
+/**
+ * ReplayAdapter — Serves responses from a recorded cassette, with no network.
+ *
+ * Calls are matched by request hash. Identical requests are answered in the
+ * order they were recorded; once those run out, the last one is repeated.
+ * A request that was never recorded throws, naming the method and request,
+ * so a prompt change shows up as a failing test rather than a silent drift.
+ */
+export class ReplayAdapter implements LLMAdapter {
+    readonly provider?: string;
+    readonly model?: string;
+    readonly pricing?: ModelPricing;
+    readonly contextWindow?: number;
+    private readonly entries = new Map<string, CassetteEntry[]>();
+    private readonly served = new Map<string, number>();
+
+    constructor(options: ReplayAdapterOptions) {
+        const cassette = options.cassette ?? (options.cassettePath ? loadCassette(options.cassettePath) : undefined);
+        if (!cassette) {
+            throw new Error("ReplayAdapter needs a cassette or cassettePath");
+        }
+        this.provider = cassette.provider;
+        this.model = cassette.model;
+        this.pricing = cassette.pricing;
+        this.contextWindow = cassette.contextWindow;
+
+        for (const entry of cassette.entries) {
+            const list = this.entries.get(entry.key) ?? [];
+            list.push(entry);
+            this.entries.set(entry.key, list);
+        }
+    }
+
+    async complete(prompt: string): Promise<string> {
+        return (await this.completeWithUsage(prompt)).content;
+    }
+
+    async completeWithUsage(prompt: string): Promise<CompletionResponse> {
+        return structuredClone(this.replay("complete", { prompt }) as CompletionResponse);
+    }
+
+    async completeJSON<T = unknown>(prompt: string, schema: JSONSchema): Promise<JSONCompletionResponse<T>> {
+        return structuredClone(this.replay("completeJSON", { prompt, schema }) as JSONCompletionResponse<T>);
+    }
+
+    async embed(text: string): Promise<number[]> {
+        return [...(this.replay("embed", { text }) as number[])];
+    }
+
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        return structuredClone(this.replay("chat", chatRequest(messages, options)) as ChatResponse);
+    }
+
+    /** Number of recorded entries not yet served (useful to assert a run replayed fully). */
+    unusedCount(): number {
+        let unused = 0;
+        for (const [key, list] of this.entries) {
+            unused += Math.max(0, list.length - (this.served.get(key) ?? 0));
+        }
+        return unused;
+    }
+
+    private replay(method: CassetteMethod, request: CassetteRequest): CassetteEntry["response"] {
+        const key = cassetteKey(method, request);
+        const list = this.entries.get(key);
+        if (!list) {
+            const preview = JSON.stringify(request).slice(0, 300);
+            throw new Error(`ReplayAdapter: no recorded ${method}() call matches request ${key.slice(0, 12)} — ${preview}`);
+        }
+        const index = this.served.get(key) ?? 0;
+        this.served.set(key, index + 1);
+        return list[Math.min(index, list.length - 1)].response;
+    }
+}
+
+/** Read a cassette file. */
+export function loadCassette(cassettePath: string): Cassette {
+    const cassette = JSON.parse(fs.readFileSync(path.resolve(cassettePath), "utf-8")) as Cassette;
+    if (cassette.version !== 1 || !Array.isArray(cassette.entries)) {
+        throw new Error(`Unsupported cassette format: ${cassettePath}`);
+    }
+    return cassette;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function chatRequest(messages: ChatMessage[], options?: ChatOptions): CassetteRequest {
+    return options?.tools?.length ? { messages, tools: options.tools } : { messages };
+}
@@ -0,0 +1,134 @@
+// ============================================================================
+// ZEN AI SDK — Message Content
+// "A picture is also a word."
+// ============================================================================
+
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { ChatMessage, ContentPart, MediaSource, MessageContent } from "./types.js";
+
+const MIME_TYPES: Record<string, string> = {
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".gif": "image/gif",
+    ".webp": "image/webp",
+    ".pdf": "application/pdf",
+    ".txt": "text/plain",
+    ".md": "text/markdown",
+    ".csv": "text/csv",
+    ".html": "text/html",
+    ".json": "application/json",
+};
+
+/** Options for resolveContent(). */
+export interface ResolveContentOptions {
+    /**
+     * Download URL parts and inline them as base64: true for all, or only
+     * the listed part types. Default: false (URLs are passed through).
+     */
+    fetchUrls?: boolean | Array<"image" | "file">;
+    /** Timeout per download in ms. Default: 30000. */
+    timeoutMs?: number;
+}
+
+/** Content as an array of parts (a string becomes one text part). */
+export function toContentParts(content: MessageContent): ContentPart[] {
+    return typeof content === "string" ? [{ type: "text", text: content }] : content;
+}
+
+/**
+ * Content as plain text, for prompts, logs, and providers without vision.
+ * Images and files become short placeholders.
+ */
+export function contentText(content: MessageContent): string {
+    if (typeof content === "string") return content;
+    return content
+        .map((part) => {
+            switch (part.type) {
+                case "text": return part.text;
+                case "image": return `[image${part.path || part.url ? `: ${part.path ?? part.url}` : ""}]`;
+                case "file": return `[file: ${part.name ?? part.path ?? part.url ?? part.mimeType ?? "attachment"}]`;
+            }
+        })
+        .join("\n");
+}
+
+/** Whether any part is an image or file. */
+export function hasMedia(content: MessageContent): boolean {
+    return typeof content !== "string" && content.some((part) => part.type !== "text");
+}
+
+/** A `data:` URL for inline media, else its `url` (undefined for unloaded paths). */
+export function mediaUrl(part: MediaSource): string | undefined {
+    if (part.data) return `data:${part.mimeType ?? "application/octet-stream"};base64,${part.data}`;
+    return part.url;
+}
+
+/** MIME type guessed from a file name, path, or URL. */
+export function mimeTypeOf(name: string): string | undefined {
+    const pathname = /^[a-z]+:\/\//i.test(name) ? new URL(name).pathname : name;
+    return MIME_TYPES[extname(pathname).toLowerCase()];
+}
+
+/**
+ * Prepare messages for an adapter: images and files given by `path` (and,
+ * with `fetchUrls`, by `url`) are loaded as base64 `data` with a MIME type.
+ * Loaded text files (text/*, JSON) become text parts, so adapters only have
+ * to map images and binary files. Messages without parts are returned as-is.
+ */
+export async function resolveContent(
+    messages: ChatMessage[],
+    options: ResolveContentOptions = {},
+): Promise<ChatMessage[]> {
+    return Promise.all(messages.map(async (msg) => {
+        if (typeof msg.content === "string") return msg;
+        const content = await Promise.all(msg.content.map((part) => resolvePart(part, options)));
+        return { ...msg, content };
+    }));
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+async function resolvePart(part: ContentPart, options: ResolveContentOptions): Promise<ContentPart> {
+    if (part.type === "text" || part.data) return part;
+
+    let loaded: { data: Buffer; mimeType?: string } | undefined;
+    if (part.path) {
+        loaded = { data: await readFile(part.path), mimeType: part.mimeType ?? mimeTypeOf(part.path) };
+    } else if (part.url && shouldFetch(part.type, options.fetchUrls)) {
+        const response = await fetch(part.url, { signal: AbortSignal.timeout(options.timeoutMs ?? 30_000) });
+        if (!response.ok) {
+            throw new Error(`Failed to fetch ${part.type} ${part.url}: ${response.status} ${response.statusText}`);
+        }
+        const header = response.headers.get("content-type")?.split(";")[0].trim();
+        loaded = {
+            data: Buffer.from(await response.arrayBuffer()),
+            mimeType: part.mimeType ?? (header && header !== "application/octet-stream" ? header : mimeTypeOf(part.url)),
+        };
+    }
+    if (!loaded) return part;
+
+    const name = part.type === "file" ? part.name ?? part.path ?? part.url : undefined;
+    if (part.type === "file" && isTextMime(loaded.mimeType)) {
+        return { type: "text", text: `File: ${name}\n\`\`\`\n${loaded.data.toString("utf-8")}\n\`\`\`` };
+    }
+
+    const { path: _path, url: _url, ...rest } = part;
+    return {
+        ...rest,
+        ...(part.type === "file" && { name }),
+        data: loaded.data.toString("base64"),
+        mimeType: loaded.mimeType ?? (part.type === "image" ? "image/png" : "application/octet-stream"),
+    };
+}
+
+function shouldFetch(type: "image" | "file", fetchUrls: ResolveContentOptions["fetchUrls"]): boolean {
+    return Array.isArray(fetchUrls) ? fetchUrls.includes(type) : fetchUrls === true;
+}
+
+function isTextMime(mimeType: string | undefined): boolean {
+    return !!mimeType && (mimeType.startsWith("text/") || mimeType === "application/json");
+}
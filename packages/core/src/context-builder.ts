@@ -0,0 +1,253 @@
+// ============================================================================
+// ZEN AI SDK — Context Builder
+// "Carry only what fits in the bowl."
+// ============================================================================
+
+import type { ChatMessage, ContentPart, LLMAdapter } from "./types.js";
+
+/** Built-in context windows (tokens), keyed by provider, then model (prefix match). */
+export const DEFAULT_CONTEXT_WINDOWS: Record<string, Record<string, number>> = {
+    openai: {
+        "gpt-4o": 128_000,
+        "gpt-4.1": 1_047_576,
+        "o3": 200_000,
+        "o4-mini": 200_000,
+    },
+    anthropic: {
+        "claude-": 200_000,
+    },
+    google: {
+        "gemini-2.5": 1_048_576,
+        "gemini-2.0": 1_048_576,
+        "gemini-1.5-pro": 2_097_152,
+        "gemini-1.5-flash": 1_048_576,
+    },
+};
+
+/** Context window assumed for unknown models. Small enough for most local models. */
+export const FALLBACK_CONTEXT_WINDOW = 32_768;
+
+/**
+ * History budget per call, well below large windows: filling a 1M-token
+ * window on every step is slow and expensive.
+ */
+export const DEFAULT_MAX_HISTORY_TOKENS = 32_000;
+
+/** Rough token cost of one image or file part. */
+const MEDIA_TOKENS = 1_000;
+/** Per-message overhead (role, separators). */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Options for ContextBuilder (also `ZenAgentConfig.context`). */
+export interface ContextOptions {
+    /** Context window in tokens. Default: the adapter's contextWindow, else DEFAULT_CONTEXT_WINDOWS. */
+    contextWindow?: number;
+    /** Tokens kept free for the reply. Default: 4096. */
+    reserveTokens?: number;
+    /**
+     * Most tokens of history sent per call, whatever the window. Compaction
+     * and truncation scale with this budget. Default: DEFAULT_MAX_HISTORY_TOKENS
+     * (32,000); Infinity uses the whole window.
+     */
+    maxHistoryTokens?: number;
+    /** Share of the history budget at which history is summarized. Default: 0.75. */
+    compactAt?: number;
+    /** Share of the history budget kept verbatim (newest turns) when summarizing. Default: 0.25. */
+    keepRecent?: number;
+    /** Largest share of the history budget a single message may take; longer text is truncated. Default: 0.25. */
+    maxMessageShare?: number;
+}
+
+/** Result of ContextBuilder.compact(). */
+export interface CompactionResult {
+    /** The memory message followed by the turns kept verbatim. */
+    history: ChatMessage[];
+    summarizedMessages: number;
+    keptMessages: number;
+    tokensBefore: number;
+    tokensAfter: number;
+}
+
+/** The context window of an adapter's model (declared, then built-in table, then fallback). */
+export function contextWindowFor(llm: Pick<LLMAdapter, "provider" | "model" | "contextWindow">): number {
+    if (llm.contextWindow) return llm.contextWindow;
+    const table = llm.provider ? DEFAULT_CONTEXT_WINDOWS[llm.provider] : undefined;
+    if (table && llm.model) {
+        let best: string | undefined;
+        for (const key of Object.keys(table)) {
+            if (llm.model.startsWith(key) && (!best || key.length > best.length)) best = key;
+        }
+        if (best) return table[best];
+    }
+    return FALLBACK_CONTEXT_WINDOW;
+}
+
+/**
+ * Estimated token count of a text, without a tokenizer: about four
+ * characters per token, and one token per CJK character.
+ */
+export function estimateTokens(text: string): number {
+    const cjk = text.match(/[\u3000-\u30ff\u3400-\u9fff\uac00-\ud7af\uff00-\uffef]/g)?.length ?? 0;
+    return Math.ceil((text.length - cjk) / 4) + cjk;
+}
+
+/** Estimated token count of a chat message, including tool calls and media. */
+export function messageTokens(message: ChatMessage): number {
+    const parts: ContentPart[] = typeof message.content === "string"
+        ? [{ type: "text", text: message.content }]
+        : message.content;
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+    for (const part of parts) {
+        tokens += part.type === "text" ? estimateTokens(part.text) : MEDIA_TOKENS;
+    }
+    for (const call of message.toolCalls ?? []) {
+        tokens += estimateTokens(call.name) + estimateTokens(JSON.stringify(call.arguments));
+    }
+    return tokens;
+}
+
+/**
+ * Split history into turns that must stay together: an assistant message
+ * with tool calls plus the tool results that answer it. Tool results
+ * without their call (e.g. after an old count-based trim) are dropped.
+ */
+export function groupTurns(history: ChatMessage[]): ChatMessage[][] {
+    const groups: ChatMessage[][] = [];
+    for (const message of history) {
+        const last = groups.at(-1);
+        if (message.role === "tool") {
+            if (last?.[0].toolCalls?.length) last.push(message);
+            continue;
+        }
+        groups.push([message]);
+    }
+    return groups;
+}
+
+/**
+ * ContextBuilder — Token-aware history for a model's context window.
+ *
+ * fit() keeps the newest turns that fit the budget, never splitting a tool
+ * call from its results, and truncates oversized messages (a large
+ * file_read result). compact() summarizes the older turns into a single
+ * memory message once the history passes `compactAt` of the history budget.
+ *
+ * Usage:
+ * ```ts
+ * const context = new ContextBuilder({ contextWindow: contextWindowFor(llm) });
+ * const messages = context.fit([systemMessage], history);
+ * ```
+ */
+export class ContextBuilder {
+    readonly contextWindow: number;
+    private readonly reserveTokens: number;
+    private readonly maxHistoryTokens: number;
+    private readonly compactAt: number;
+    private readonly keepRecent: number;
+    private readonly maxMessageShare: number;
+
+    constructor(options: ContextOptions = {}) {
+        this.contextWindow = options.contextWindow ?? FALLBACK_CONTEXT_WINDOW;
+        this.reserveTokens = Math.min(options.reserveTokens ?? 4096, Math.floor(this.contextWindow / 2));
+        this.maxHistoryTokens = options.maxHistoryTokens ?? DEFAULT_MAX_HISTORY_TOKENS;
+        this.compactAt = options.compactAt ?? 0.75;
+        this.keepRecent = options.keepRecent ?? 0.25;
+        this.maxMessageShare = options.maxMessageShare ?? 0.25;
+    }
+
+    /** Tokens available for the prompt (window minus the reply reserve). */
+    get budget(): number {
+        return this.contextWindow - this.reserveTokens;
+    }
+
+    /** Tokens available for history (the budget, capped by maxHistoryTokens). */
+    get historyBudget(): number {
+        return Math.min(this.budget, this.maxHistoryTokens);
+    }
+
+    /** Estimated tokens of a list of messages. */
+    count(messages: ChatMessage[]): number {
+        return messages.reduce((sum, m) => sum + messageTokens(m), 0);
+    }
+
+    /**
+     * The fixed messages (system prompt) followed by the newest history turns
+     * that fit the budget. `extraTokens` accounts for tool definitions etc.
+     * The newest turn is always included, truncated if needed.
+     */
+    fit(fixed: ChatMessage[], history: ChatMessage[], extraTokens = 0): ChatMessage[] {
+        let available = Math.min(this.budget - this.count(fixed) - extraTokens, this.maxHistoryTokens);
+        const kept: ChatMessage[][] = [];
+        const groups = groupTurns(history);
+
+        for (let i = groups.length - 1; i >= 0; i--) {
+            const group = groups[i].map((m) => this.truncate(m));
+            const tokens = this.count(group);
+            if (tokens > available && kept.length > 0) break;
+            kept.unshift(group);
+            available -= tokens;
+        }
+        return [...fixed, ...kept.flat()];
+    }
+
+    /** Whether the history has grown past the compaction threshold. */
+    needsCompaction(history: ChatMessage[]): boolean {
+        return this.count(history) > this.historyBudget * this.compactAt;
+    }
+
+    /**
+     * Summarize older turns. `summarize` gets the turns to fold (truncated)
+     * and returns the text of the memory message that replaces them.
+     * Returns null when there is nothing older than the turns kept verbatim.
+     */
+    async compact(
+        history: ChatMessage[],
+        summarize: (messages: ChatMessage[]) => Promise<string>,
+    ): Promise<CompactionResult | null> {
+        const groups = groupTurns(history);
+        const keepBudget = this.historyBudget * this.keepRecent;
+
+        let split = groups.length;
+        let keptTokens = 0;
+        while (split > 0) {
+            const tokens = this.count(groups[split - 1]);
+            if (keptTokens + tokens > keepBudget && split < groups.length) break;
+            keptTokens += tokens;
+            split--;
+        }
+        if (split === 0) return null;
+
+        const older = groups.slice(0, split).flat().map((m) => this.truncate(m));
+        const kept = groups.slice(split).flat();
+        const memory: ChatMessage = { role: "user", content: await summarize(older) };
+        const compacted = [memory, ...kept];
+
+        return {
+            history: compacted,
+            summarizedMessages: older.length,
+            keptMessages: kept.length,
+            tokensBefore: this.count(history),
+            tokensAfter: this.count(compacted),
+        };
+    }
+
+    /** The message with its text cut to the per-message limit. */
+    truncate(message: ChatMessage): ChatMessage {
+        const limit = Math.floor(this.historyBudget * this.maxMessageShare);
+        const tokens = messageTokens(message);
+        if (tokens <= limit) return message;
+
+        // Scale each text part down by the same ratio
+        const ratio = limit / tokens;
+        const cut = (text: string) => {
+            const keep = Math.floor(text.length * ratio);
+            return keep >= text.length
+                ? text
+                : `${text.slice(0, keep)}\n…[truncated ${estimateTokens(text.slice(keep))} tokens]`;
+        };
+        const content = typeof message.content === "string"
+            ? cut(message.content)
+            : message.content.map((part) => part.type === "text" ? { ...part, text: cut(part.text) } : part);
+        return { ...message, content };
+    }
+}
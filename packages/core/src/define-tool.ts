@@ -0,0 +1,112 @@
+// ============================================================================
+// ZEN AI SDK — Typed Tool Definitions
+// "Name and form arise together."
+// ============================================================================
+
+import type { ParameterSchema, Tool, ToolContext, ToolResult } from "./types.js";
+
+/**
+ * The TypeScript type described by a JSON Schema literal.
+ *
+ * Supports `type` (single or union), `enum`, `const`, `anyOf` / `oneOf`,
+ * `items`, `properties` and `required`. Properties that declare a `default`
+ * are never undefined, because validation fills them in before execution.
+ */
+export type InferSchema<S> =
+    S extends { const: infer C } ? C :
+    S extends { enum: readonly (infer E)[] } ? E :
+    S extends { anyOf: readonly (infer B)[] } ? InferSchema<B> :
+    S extends { oneOf: readonly (infer B)[] } ? InferSchema<B> :
+    S extends { type: readonly (infer T)[] } ? InferType<S, T> :
+    S extends { type: infer T } ? InferType<S, T> :
+    unknown;
+
+/** The parameters object a tool's execute() receives for a ParameterSchema. */
+export type InferParams<P extends ParameterSchema> = InferSchema<P> & Record<string, unknown>;
+
+/** One declaration of a tool: its schema and a typed implementation. */
+export interface ToolDefinition<P extends ParameterSchema> {
+    /** Unique name for this tool. */
+    name: string;
+    /** Human-readable description (fed to LLM for selection). */
+    description: string;
+    /** JSON Schema of the parameters; `params` in execute() is inferred from it. */
+    parameters: P & CheckRequired<P>;
+    /** True if the tool changes the outside world (see Tool.sideEffects). */
+    sideEffects?: boolean;
+    /** Abort the call after this many milliseconds (optional). */
+    timeoutMs?: number;
+    /** Execute the tool with validated, typed parameters. */
+    execute(params: InferParams<P>, ctx?: ToolContext): Promise<ToolResult>;
+}
+
+/** A Tool that remembers the exact schema it was defined with. */
+export type TypedTool<P extends ParameterSchema> = Tool & { parameters: P };
+
+/**
+ * Define a tool from a single declaration.
+ *
+ * The schema is written once; `params` in execute() is typed from it, so a
+ * misspelled property, a wrong type, or a `required` key missing from
+ * `properties` is a compile-time error instead of a runtime cast.
+ *
+ * Usage:
+ * ```ts
+ * const readTool = defineTool({
+ *     name: "file_read",
+ *     description: "Read a file",
+ *     parameters: {
+ *         type: "object",
+ *         properties: { path: { type: "string" } },
+ *         required: ["path"],
+ *     },
+ *     async execute({ path }) {   // path: string
+ *         return { success: true, output: await readFile(path, "utf-8") };
+ *     },
+ * });
+ * ```
+ *
+ * Schemas built at runtime (forged tools, synthesized blueprints) are typed
+ * as plain ParameterSchema, and their params fall back to Record<string, unknown>.
+ */
+export function defineTool<const P extends ParameterSchema>(definition: ToolDefinition<P>): TypedTool<P> {
+    const { execute, ...rest } = definition;
+    return {
+        ...rest,
+        parameters: definition.parameters,
+        execute: (params, ctx) => execute(params as InferParams<P>, ctx),
+    };
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+type InferType<S, T> =
+    T extends "string" ? string :
+    T extends "number" | "integer" ? number :
+    T extends "boolean" ? boolean :
+    T extends "null" ? null :
+    T extends "array" ? (S extends { items: infer I } ? InferSchema<I>[] : unknown[]) :
+    T extends "object" ? InferObject<S> :
+    unknown;
+
+type InferObject<S> = S extends { properties: infer P }
+    ? Simplify<
+        { -readonly [K in keyof P as K extends PresentKeys<S, P> ? K : never]: InferSchema<P[K]> } &
+        { -readonly [K in keyof P as K extends PresentKeys<S, P> ? never : K]?: InferSchema<P[K]> }
+    >
+    : Record<string, unknown>;
+
+/** Keys guaranteed present after validation: required ones and those with defaults. */
+type PresentKeys<S, P> =
+    | (S extends { required: readonly (infer K)[] } ? K : never)
+    | { [K in keyof P]: P[K] extends { default: unknown } ? K : never }[keyof P];
+
+/** Reject `required` entries that are not declared in `properties`. */
+type CheckRequired<P> = P extends { properties: infer Props; required: readonly (infer K)[] }
+    ? string extends K ? unknown : { required: readonly Extract<keyof Props, string>[] }
+    : unknown;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
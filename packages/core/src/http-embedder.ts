@@ -0,0 +1,93 @@
+// ============================================================================
+// ZEN AI SDK — HTTP Embedder
+// Any OpenAI-compatible /embeddings endpoint (OpenAI, Ollama, vLLM, TEI, ...).
+// ============================================================================
+
+import type { Embedder } from "./types.js";
+
+/** Configuration for an OpenAI-compatible embeddings endpoint. */
+export interface HttpEmbedderConfig {
+    /** API base URL (without /embeddings). Default: "https://api.openai.com/v1". */
+    baseUrl?: string;
+    /** Embedding model. Default: "text-embedding-3-small". */
+    model?: string;
+    /** Sent as a Bearer token when set. Never read from the environment implicitly. */
+    apiKey?: string;
+    /** Requested vector length, for models that support shortening. */
+    dimensions?: number;
+    /** Extra request headers. */
+    headers?: Record<string, string>;
+    /** Request timeout in ms. Default: 30000. */
+    timeoutMs?: number;
+}
+
+interface EmbeddingsResponse {
+    data: Array<{ embedding: number[]; index?: number }>;
+}
+
+/**
+ * HttpEmbedder — Embeddings from an OpenAI-compatible HTTP endpoint, over fetch.
+ *
+ * Usage:
+ * ```ts
+ * const embedder = new HttpEmbedder({ apiKey: process.env.OPENAI_API_KEY });
+ * const embedder = new HttpEmbedder({ baseUrl: "http://localhost:11434/v1", model: "nomic-embed-text" });
+ * ```
+ */
+export class HttpEmbedder implements Embedder {
+    readonly model: string;
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly dimensions?: number;
+    private readonly headers: Record<string, string>;
+    private readonly timeoutMs: number;
+
+    constructor(config: HttpEmbedderConfig = {}) {
+        this.baseUrl = (config.baseUrl ?? "https://api.openai.com/v1").replace(/\/+$/, "");
+        this.model = config.model ?? "text-embedding-3-small";
+        this.apiKey = config.apiKey;
+        this.dimensions = config.dimensions;
+        this.headers = config.headers ?? {};
+        this.timeoutMs = config.timeoutMs ?? 30_000;
+    }
+
+    async embed(text: string): Promise<number[]> {
+        const [vector] = await this.embedMany([text]);
+        return vector;
+    }
+
+    /** Embed several texts in one request; vectors come back in input order. */
+    async embedMany(texts: string[]): Promise<number[][]> {
+        if (texts.length === 0) return [];
+
+        const headers: Record<string, string> = { "Content-Type": "application/json", ...this.headers };
+        if (this.apiKey) headers.Authorization = `Bearer ${this.apiKey}`;
+
+        const response = await fetch(`${this.baseUrl}/embeddings`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+                model: this.model,
+                input: texts,
+                ...(this.dimensions !== undefined && { dimensions: this.dimensions }),
+            }),
+            signal: AbortSignal.timeout(this.timeoutMs),
+        });
+
+        if (!response.ok) {
+            const detail = await response.text().catch(() => "");
+            throw new Error(
+                `Embedding request failed: ${response.status} ${response.statusText}` +
+                (detail ? ` — ${detail.slice(0, 500)}` : ""),
+            );
+        }
+
+        const { data } = (await response.json()) as EmbeddingsResponse;
+        if (!Array.isArray(data) || data.length !== texts.length) {
+            throw new Error(`Embedding response has ${data?.length ?? 0} vectors for ${texts.length} inputs`);
+        }
+        return [...data]
+            .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+            .map((d) => d.embedding);
+    }
+}
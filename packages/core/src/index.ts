@@ -13,15 +13,47 @@ export type {
     Artifact,
     Tool,
     ToolResult,
+    ApprovalRule,
+    ApprovalPolicy,
+    ApprovalDecision,
+    ToolContext,
     ParameterSchema,
+    JSONSchema,
+    JSONSchemaType,
+    SchemaValidationIssue,
     Milestone,
     MilestoneStatus,
+    MilestoneResource,
+    MilestoneFailurePolicy,
+    ResourcePredicate,
+    PlannerOptions,
     LLMAdapter,
     ChatMessage,
+    MessageContent,
+    ContentPart,
+    TextPart,
+    ImagePart,
+    FilePart,
+    MediaSource,
     ChatResponse,
+    ChatStreamChunk,
+    CompletionResponse,
+    TokenUsage,
+    CacheStats,
+    Embedder,
+    ModelPricing,
+    LLMPhase,
+    LLMCallOptions,
+    ChatOptions,
+    CompleteJSONOptions,
+    JSONCompletionResponse,
+    UsageByPhase,
     LLMToolCall,
     LLMToolDefinition,
     ZenAgentConfig,
+    Budget,
+    BudgetLimit,
+    AgentStopReason,
     ZenAgentEvents,
     AgentState,
     SkillDB,
@@ -54,8 +86,62 @@ export type {
 // Classes
 export { ZenAgent } from "./zen-agent.js";
 export { MilestoneRunner } from "./milestone-runner.js";
+export { checkResource, describeResource, queryPath } from "./milestone-predicates.js";
+export { DEFAULT_APPROVAL_TIMEOUT_MS, RISKY_TOOL_RULES, matchApprovalRule } from "./approval.js";
 export { TypedEventEmitter } from "./event-emitter.js";
 export { StateRecovery } from "./state-recovery.js";
 export type { StateRecoveryOptions } from "./state-recovery.js";
 export { Logger } from "./logger.js";
+export { validateSchema, formatSchemaErrors } from "./schema.js";
+export type { SchemaValidationResult } from "./schema.js";
+export { completeJSON, completeJSONWithRepair, extractJSON, JSONOutputError } from "./structured-output.js";
+export type { JSONRepairOptions } from "./structured-output.js";
+export { toContentParts, contentText, hasMedia, mediaUrl, mimeTypeOf, resolveContent } from "./content.js";
+export type { ResolveContentOptions } from "./content.js";
+export { PromptRegistry } from "./prompt-registry.js";
+export type {
+    PromptTemplate,
+    PromptVariables,
+    PromptOverrides,
+    PromptRegistryOptions,
+    PromptLookup,
+} from "./prompt-registry.js";
+export { DEFAULT_PROMPTS } from "./default-prompts.js";
+export {
+    ContextBuilder,
+    contextWindowFor,
+    estimateTokens,
+    messageTokens,
+    groupTurns,
+    DEFAULT_CONTEXT_WINDOWS,
+    FALLBACK_CONTEXT_WINDOW,
+    DEFAULT_MAX_HISTORY_TOKENS,
+} from "./context-builder.js";
+export type { ContextOptions, CompactionResult } from "./context-builder.js";
+export { defineTool } from "./define-tool.js";
+export type { ToolDefinition, TypedTool, InferSchema, InferParams } from "./define-tool.js";
+export { RouterAdapter, isRateLimitError } from "./router-adapter.js";
+export type { RouterAdapterConfig, RouterFallbackInfo, AdapterChain } from "./router-adapter.js";
+export { BM25Embedder } from "./bm25-embedder.js";
+export type { BM25EmbedderOptions } from "./bm25-embedder.js";
+export { HttpEmbedder } from "./http-embedder.js";
+export type { HttpEmbedderConfig } from "./http-embedder.js";
+export { CachedAdapter } from "./cached-adapter.js";
+export type { CachedAdapterOptions } from "./cached-adapter.js";
+export { RecordingAdapter, ReplayAdapter, cassetteKey, loadCassette } from "./cassette.js";
+export type {
+    Cassette,
+    CassetteEntry,
+    CassetteMethod,
+    CassetteRequest,
+    RecordingAdapterOptions,
+    ReplayAdapterOptions,
+} from "./cassette.js";
+export {
+    PricingRegistry,
+    defaultPricingRegistry,
+    calculateCost,
+    DEFAULT_MODEL_PRICING,
+    FALLBACK_PRICING,
+} from "./pricing.js";
 export type { LogLevel, LogEntry, LoggerOptions } from "./logger.js";
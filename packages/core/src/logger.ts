@@ -120,10 +120,11 @@ export class Logger {
             this.log("INFO", "milestone:reached", { milestoneId, resources });
         });
 
-        agent.on("milestone:failed", ({ milestoneId, error }) => {
+        agent.on("milestone:failed", ({ milestoneId, error, policy }) => {
             this.log("ERROR", "milestone:failed", {
                 milestoneId,
                 error: error.message,
+                policy,
             });
         });
 
@@ -131,6 +132,10 @@ export class Logger {
             this.log("WARN", "failure:recorded", { proverb, condition });
         });
 
+        agent.on("skill:acquired", ({ skillId }) => {
+            this.log("INFO", "skill:acquired", { skillId });
+        });
+
         agent.on("context:reset", ({ previousMilestone, nextMilestone }) => {
             this.log("INFO", "context:reset", {
                 previousMilestone,
@@ -138,13 +143,30 @@ export class Logger {
             });
         });
 
-        agent.on("agent:complete", ({ goal, totalSteps }) => {
+        agent.on("budget:warning", ({ limit, used, max, step }) => {
+            this.log("WARN", "budget:warning", { limit, used, max, step });
+        });
+
+        agent.on("budget:exceeded", ({ limit, used, max, step }) => {
+            this.log("WARN", "budget:exceeded", { limit, used, max, step });
+        });
+
+        agent.on("agent:complete", ({ goal, reason, totalSteps }) => {
             this.log("INFO", "agent:complete", {
                 goal: goal.description,
+                reason,
                 totalSteps,
             });
         });
 
+        agent.on("agent:paused", ({ step }) => {
+            this.log("INFO", "agent:paused", { step });
+        });
+
+        agent.on("agent:resumed", ({ step }) => {
+            this.log("INFO", "agent:resumed", { step });
+        });
+
         agent.on("agent:error", ({ error, step }) => {
             this.log("ERROR", "agent:error", {
                 error: error.message,
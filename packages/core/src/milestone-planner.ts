@@ -0,0 +1,113 @@
+// ============================================================================
+// ZEN AI SDK — Milestone Planner
+// "A journey of a thousand miles begins beneath one's feet."
+// ============================================================================
+
+import type { JSONSchema, Milestone, PlannerOptions } from "./types.js";
+
+const DEFAULT_MAX_MILESTONES = 6;
+const DEFAULT_REPLAN_AFTER_FAILURES = 2;
+
+/** A milestone as the LLM plans it (before normalization). */
+export interface PlannedMilestone {
+    id: string;
+    description: string;
+    resources: Array<string | PlannedResource>;
+    dependsOn?: string[];
+}
+
+/** The predicates a plan may use (custom checks need code, commands need opt-in). */
+export type PlannedResource =
+    | { type: "path"; path: string; equals?: unknown; description?: string }
+    | { type: "file"; path: string; description?: string }
+    | { type: "command"; command: string; description?: string };
+
+/** LLM output of the "plan" prompt. */
+export interface PlanOutput {
+    milestones: PlannedMilestone[];
+}
+
+/** Planner options with defaults applied. */
+export function resolvePlannerOptions(planner: boolean | PlannerOptions): Required<PlannerOptions> {
+    const options = typeof planner === "object" ? planner : {};
+    return {
+        maxMilestones: Math.max(1, options.maxMilestones ?? DEFAULT_MAX_MILESTONES),
+        replanAfterFailures: Math.max(0, options.replanAfterFailures ?? DEFAULT_REPLAN_AFTER_FAILURES),
+        allowCommands: options.allowCommands ?? false,
+    };
+}
+
+const predicate = (type: string, properties: Record<string, JSONSchema>, required: string[]): JSONSchema => ({
+    type: "object",
+    properties: { type: { enum: [type] }, description: { type: "string" }, ...properties },
+    required: ["type", ...required],
+});
+
+/** Schema of the plan output (`command` checks are dropped later unless allowed). */
+export const PLAN_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        milestones: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    id: { type: "string" },
+                    description: { type: "string" },
+                    resources: {
+                        type: "array",
+                        items: {
+                            anyOf: [
+                                { type: "string" },
+                                predicate("path", { path: { type: "string" }, equals: {} }, ["path"]),
+                                predicate("file", { path: { type: "string" } }, ["path"]),
+                                predicate("command", { command: { type: "string" } }, ["command"]),
+                            ],
+                        },
+                        default: [],
+                    },
+                    dependsOn: { type: "array", items: { type: "string" } },
+                },
+                required: ["id", "description"],
+            },
+        },
+    },
+    required: ["milestones"],
+};
+
+/**
+ * Turn a plan into milestones that follow `reached` (milestones already
+ * reached, kept when re-planning). Caps the count, drops IDs that are
+ * empty or taken and `command` checks unless allowed, and keeps only
+ * dependencies on reached or earlier planned milestones, so the result
+ * never has unknown IDs or cycles.
+ */
+export function toMilestones(
+    plan: PlanOutput,
+    options: Required<PlannerOptions>,
+    reached: Milestone[] = [],
+): Milestone[] {
+    const known = new Set(reached.map((m) => m.id));
+    const milestones: Milestone[] = [];
+
+    for (const planned of plan.milestones) {
+        if (milestones.length >= options.maxMilestones) break;
+        const id = planned.id.trim();
+        if (!id || known.has(id)) continue;
+
+        const resources = planned.resources.filter((r) =>
+            typeof r === "string" || r.type !== "command" || options.allowCommands,
+        );
+        // An explicit [] starts a branch; when no dependency survives, fall back to the chain
+        const dependsOn = planned.dependsOn?.filter((dep) => known.has(dep));
+        milestones.push({
+            id,
+            description: planned.description,
+            resources,
+            ...(dependsOn && (dependsOn.length > 0 || planned.dependsOn!.length === 0) && { dependsOn }),
+        });
+        known.add(id);
+    }
+
+    return milestones;
+}
@@ -0,0 +1,93 @@
+// ============================================================================
+// ZEN AI SDK — Milestone Predicates
+// "Look at the thing itself, not at its name."
+// ============================================================================
+
+import { exec } from "node:child_process";
+import { existsSync } from "node:fs";
+import { isDeepStrictEqual, promisify } from "node:util";
+import type { MilestoneResource, Snapshot } from "./types.js";
+
+const execAsync = promisify(exec);
+
+const DEFAULT_COMMAND_TIMEOUT_MS = 30_000;
+
+/**
+ * Evaluate a JSONPath against a value: `$` followed by `.key`, `[index]`,
+ * or `['key']` segments (a leading `$.` may be omitted).
+ * Returns undefined when any segment is missing.
+ */
+export function queryPath(root: unknown, path: string): unknown {
+    const expr = path.startsWith("$") ? path.slice(1) : `.${path}`;
+    const segment = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\s*(['"])(.*?)\3\s*\]/y;
+
+    let value = root;
+    let pos = 0;
+    while (pos < expr.length) {
+        segment.lastIndex = pos;
+        const match = segment.exec(expr);
+        if (!match) {
+            throw new Error(`Invalid JSONPath "${path}" at position ${pos + 1}`);
+        }
+        pos = segment.lastIndex;
+
+        const key = match[1] ?? match[4] ?? Number(match[2]);
+        if (value === null || typeof value !== "object") return undefined;
+        value = (value as Record<string | number, unknown>)[key];
+        if (value === undefined) return undefined;
+    }
+    return value;
+}
+
+/**
+ * Whether a milestone resource is present.
+ * A string resource only has to appear somewhere in the serialized snapshot.
+ */
+export async function checkResource(resource: MilestoneResource, snapshot: Snapshot): Promise<boolean> {
+    if (typeof resource === "string") {
+        return JSON.stringify(snapshot).includes(resource);
+    }
+
+    switch (resource.type) {
+        case "path": {
+            const value = queryPath(snapshot, resource.path);
+            return "equals" in resource
+                ? isDeepStrictEqual(value, resource.equals)
+                : value !== undefined;
+        }
+        case "file":
+            return existsSync(resource.path);
+        case "command":
+            try {
+                await execAsync(resource.command, {
+                    cwd: resource.cwd,
+                    timeout: resource.timeoutMs ?? DEFAULT_COMMAND_TIMEOUT_MS,
+                });
+                return true;
+            } catch {
+                // Non-zero exit, timeout, or the command could not start
+                return false;
+            }
+        case "custom":
+            return await resource.check(snapshot);
+    }
+}
+
+/** A short label for a resource, for prompts and events. */
+export function describeResource(resource: MilestoneResource): string {
+    if (typeof resource === "string") return resource;
+    if (resource.description) return resource.description;
+
+    switch (resource.type) {
+        case "path":
+            return "equals" in resource
+                ? `${resource.path} == ${JSON.stringify(resource.equals)}`
+                : `${resource.path} exists`;
+        case "file":
+            return `file ${resource.path}`;
+        case "command":
+            return `\`${resource.command}\` succeeds`;
+        case "custom":
+            return resource.description;
+    }
+}
@@ -11,51 +11,99 @@ import type {
     LLMAdapter,
     Goal,
 } from "./types.js";
+import { PromptRegistry } from "./prompt-registry.js";
+import { checkResource, describeResource } from "./milestone-predicates.js";
 
 /** Configuration for the MilestoneRunner. */
 export interface MilestoneRunnerConfig {
-    /** Ordered list of milestones to progress through. */
+    /** Milestones to progress through (a linear chain unless they set `dependsOn`). */
     milestones: Milestone[];
-    /** Called when a context reset occurs. */
-    onReset?: (knowledge: FailureEntry[]) => Promise<void> | void;
+    /** Called when a context reset occurs, with the milestone that was reached. */
+    onReset?: (knowledge: FailureEntry[], milestone: Milestone) => Promise<void> | void;
+    /** Templates for the "milestone.check" prompt. Default: PromptRegistry.withDefaults(). */
+    prompts?: PromptRegistry;
+    /** Locale used to render prompts. */
+    locale?: string;
 }
 
 /**
  * MilestoneRunner — Manages milestone progression and context resets.
  *
+ * Milestones form a DAG through `dependsOn` (by default each one depends on
+ * the one before it). Every milestone whose dependencies are reached is
+ * active, so independent branches progress in parallel.
+ *
  * When a milestone is reached, it triggers a context reset:
- * - Chat history is cleared
+ * - Chat history of that branch is cleared
  * - Only failure knowledge survives the reset
  * - Resources from completed milestones remain accessible
  */
 export class MilestoneRunner {
     private milestones: Milestone[];
     private statuses: MilestoneStatus[];
-    private currentIndex = 0;
-    private onReset?: (knowledge: FailureEntry[]) => Promise<void> | void;
+    private dependencies: Map<string, string[]>;
+    private onReset?: (knowledge: FailureEntry[], milestone: Milestone) => Promise<void> | void;
+    private prompts: PromptRegistry;
+    private locale?: string;
 
     constructor(config: MilestoneRunnerConfig) {
         this.milestones = config.milestones;
         this.onReset = config.onReset;
+        this.prompts = config.prompts ?? PromptRegistry.withDefaults();
+        this.locale = config.locale;
         this.statuses = config.milestones.map((m) => ({
             milestone: m,
             reached: false,
         }));
+        this.dependencies = resolveDependencies(config.milestones);
     }
 
-    /** Get the current milestone (or null if all are complete). */
+    /** The first active milestone (or null if all are complete). */
     get current(): Milestone | null {
-        return this.milestones[this.currentIndex] ?? null;
+        return this.active[0] ?? null;
+    }
+
+    /** Milestones whose dependencies are all reached and that are not reached yet, in list order. */
+    get active(): Milestone[] {
+        const reached = new Set(this.reachedIds);
+        return this.milestones.filter((m) =>
+            !reached.has(m.id) && this.dependenciesOf(m.id).every((dep) => reached.has(dep)),
+        );
     }
 
-    /** Get the index of the current milestone. */
+    /** IDs of the milestones reached so far. */
+    get reachedIds(): string[] {
+        return this.statuses.filter((s) => s.reached).map((s) => s.milestone.id);
+    }
+
+    /** IDs of the milestones a milestone depends on. */
+    dependenciesOf(id: string): string[] {
+        return this.dependencies.get(id) ?? [];
+    }
+
+    /** Get the index of the first milestone not reached yet (in list order). */
     get currentMilestoneIndex(): number {
-        return this.currentIndex;
+        const index = this.statuses.findIndex((s) => !s.reached);
+        return index === -1 ? this.milestones.length : index;
     }
 
-    /** Set the current milestone index (for state recovery). */
+    /**
+     * Set the current milestone index (for state recovery).
+     * Milestones before the index are marked as reached.
+     */
     set currentMilestoneIndex(index: number) {
-        this.currentIndex = Math.min(index, this.milestones.length);
+        const reached = this.milestones.slice(0, Math.max(0, index)).map((m) => m.id);
+        this.restoreReached(reached);
+    }
+
+    /** Mark exactly these milestones as reached (for state recovery of a DAG). */
+    restoreReached(ids: string[]): void {
+        const reached = new Set(ids);
+        this.statuses = this.milestones.map((m, i) =>
+            reached.has(m.id)
+                ? { ...this.statuses[i], milestone: m, reached: true }
+                : { milestone: m, reached: false },
+        );
     }
 
     /** Get all milestone statuses. */
@@ -65,39 +113,61 @@ export class MilestoneRunner {
 
     /** Check if all milestones have been reached. */
     get isComplete(): boolean {
-        return this.currentIndex >= this.milestones.length;
+        return this.statuses.every((s) => s.reached);
     }
 
     /**
-     * Check whether the current milestone has been reached.
+     * The active milestones that are reached in this snapshot (checked in order).
+     * With `onError`, a check that throws counts as not reached instead of
+     * propagating.
+     */
+    async checkActive(
+        snapshot: Snapshot,
+        llm: LLMAdapter,
+        goal: Goal,
+        onError?: (milestone: Milestone, error: Error) => void,
+    ): Promise<Milestone[]> {
+        const reached: Milestone[] = [];
+        for (const milestone of this.active) {
+            try {
+                if (await this.checkReached(snapshot, llm, goal, milestone)) reached.push(milestone);
+            } catch (error) {
+                if (!onError) throw error;
+                onError(milestone, error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+        return reached;
+    }
+
+    /**
+     * Check whether a milestone (default: the current one) has been reached.
      * Uses a two-phase check:
-     *   1. Rule-based: Are all required resources present in the snapshot?
+     *   1. Rule-based: Do all resource checks pass (see MilestoneResource)?
      *   2. LLM-based: Does the LLM confirm the milestone is satisfied?
+     *      Skipped when the milestone sets `llmConfirm: false`.
      */
     async checkReached(
         snapshot: Snapshot,
         llm: LLMAdapter,
         goal: Goal,
+        milestone: Milestone | null = this.current,
     ): Promise<boolean> {
-        const current = this.current;
-        if (!current) return false;
+        if (!milestone) return false;
 
-        // Phase 1: Rule-based resource check
-        const resourcesPresent = current.resources.every((resource) => {
-            return this.findResource(snapshot, resource);
-        });
+        // Phase 1: Rule-based resource check (in order, stopping at the first miss)
+        for (const resource of milestone.resources) {
+            if (!(await checkResource(resource, snapshot))) return false;
+        }
 
-        if (!resourcesPresent) return false;
+        if (milestone.llmConfirm === false) return true;
 
         // Phase 2: LLM confirmation
-        const prompt = [
-            `Goal: ${goal.description}`,
-            `Current milestone: "${current.description}"`,
-            `Required resources: ${current.resources.join(", ")}`,
-            `Current snapshot: ${JSON.stringify(snapshot, null, 2)}`,
-            "",
-            "Has this milestone been reached? Answer only YES or NO.",
-        ].join("\n");
+        const prompt = this.prompts.render("milestone.check", {
+            goal: goal.description,
+            milestone: milestone.description,
+            resources: milestone.resources.map(describeResource).join(", "),
+            snapshot: JSON.stringify(snapshot, null, 2),
+        }, { locale: this.locale });
 
         const response = await llm.complete(prompt);
         return response.trim().toUpperCase().startsWith("YES");
@@ -107,24 +177,41 @@ export class MilestoneRunner {
     private static readonly RESET_MAX_RETRIES = 3;
 
     /**
-     * Perform a context reset after a milestone is reached.
-     * Returns the next milestone (or null if done).
+     * Perform a context reset after a milestone (default: the current one) is reached.
+     * Returns the next current milestone (or null if done).
      * Retries the onReset callback up to 3 times on failure.
      */
-    async reset(failures: FailureEntry[]): Promise<Milestone | null> {
-        const current = this.current;
-        if (!current) return null;
+    async reset(failures: FailureEntry[], milestone: Milestone | null = this.current): Promise<Milestone | null> {
+        return this.finish(failures, milestone, false);
+    }
+
+    /**
+     * Give up on a milestone after a failure: it is marked reached and
+     * skipped (unlocking its dependents), then the context is reset as in reset().
+     */
+    async skip(failures: FailureEntry[], milestone: Milestone | null = this.current): Promise<Milestone | null> {
+        return this.finish(failures, milestone, true);
+    }
+
+    private async finish(
+        failures: FailureEntry[],
+        milestone: Milestone | null,
+        skipped: boolean,
+    ): Promise<Milestone | null> {
+        if (!milestone) return null;
+        const index = this.milestones.indexOf(milestone);
+        if (index === -1) {
+            throw new Error(`Unknown milestone "${milestone.id}"`);
+        }
 
-        // Mark current milestone as reached
-        this.statuses[this.currentIndex] = {
-            milestone: current,
+        // Mark the milestone as reached (unlocking its dependents)
+        this.statuses[index] = {
+            milestone,
             reached: true,
             reachedAt: new Date(),
+            ...(skipped && { skipped }),
         };
 
-        // Advance to next milestone
-        this.currentIndex++;
-
         // Invoke reset callback with retry
         if (this.onReset) {
             let lastError: Error | undefined;
@@ -134,7 +221,7 @@ export class MilestoneRunner {
                 attempt++
             ) {
                 try {
-                    await this.onReset(failures);
+                    await this.onReset(failures, milestone);
                     lastError = undefined;
                     break;
                 } catch (error) {
@@ -157,16 +244,11 @@ export class MilestoneRunner {
         return this.current;
     }
 
-    /** Search the snapshot for a named resource. */
-    private findResource(snapshot: Snapshot, resource: string): boolean {
-        const snapshotStr = JSON.stringify(snapshot);
-        return snapshotStr.includes(resource);
-    }
-
     /** Serialize state for recovery. */
-    toJSON(): { currentIndex: number; statuses: MilestoneStatus[] } {
+    toJSON(): { currentIndex: number; reached: string[]; statuses: MilestoneStatus[] } {
         return {
-            currentIndex: this.currentIndex,
+            currentIndex: this.currentMilestoneIndex,
+            reached: this.reachedIds,
             statuses: this.statuses,
         };
     }
@@ -174,10 +256,51 @@ export class MilestoneRunner {
     /** Restore state from serialized data. */
     static fromJSON(
         config: MilestoneRunnerConfig,
-        data: { currentIndex: number },
+        data: { currentIndex: number; reached?: string[] },
     ): MilestoneRunner {
         const runner = new MilestoneRunner(config);
-        runner.currentIndex = data.currentIndex;
+        if (data.reached) {
+            runner.restoreReached(data.reached);
+        } else {
+            runner.currentMilestoneIndex = data.currentIndex;
+        }
         return runner;
     }
 }
+
+/**
+ * Dependencies by milestone ID: `dependsOn`, or the previous milestone when
+ * it is omitted. Throws on unknown IDs, duplicates, and cycles.
+ */
+function resolveDependencies(milestones: Milestone[]): Map<string, string[]> {
+    const dependencies = new Map<string, string[]>();
+    milestones.forEach((m, i) => {
+        if (dependencies.has(m.id)) {
+            throw new Error(`Duplicate milestone id "${m.id}"`);
+        }
+        dependencies.set(m.id, m.dependsOn ?? (i > 0 ? [milestones[i - 1].id] : []));
+    });
+
+    for (const [id, deps] of dependencies) {
+        for (const dep of deps) {
+            if (!dependencies.has(dep)) {
+                throw new Error(`Milestone "${id}" depends on unknown milestone "${dep}"`);
+            }
+        }
+    }
+
+    // Depth-first search for cycles
+    const state = new Map<string, "visiting" | "done">();
+    const visit = (id: string, path: string[]): void => {
+        if (state.get(id) === "done") return;
+        if (state.get(id) === "visiting") {
+            throw new Error(`Milestone dependency cycle: ${[...path, id].join(" -> ")}`);
+        }
+        state.set(id, "visiting");
+        for (const dep of dependencies.get(id)!) visit(dep, [...path, id]);
+        state.set(id, "done");
+    };
+    for (const id of dependencies.keys()) visit(id, []);
+
+    return dependencies;
+}
@@ -0,0 +1,134 @@
+// ============================================================================
+// ZEN AI SDK — Pricing Registry
+// "Know the cost of each breath."
+// ============================================================================
+
+import type { LLMAdapter, ModelPricing, TokenUsage } from "./types.js";
+
+/** Built-in rates (USD per 1M tokens), keyed by provider, then model. */
+export const DEFAULT_MODEL_PRICING: Record<string, Record<string, ModelPricing>> = {
+    openai: {
+        "gpt-4o": { input: 2.5, output: 10, cachedInput: 1.25 },
+        "gpt-4o-mini": { input: 0.15, output: 0.6, cachedInput: 0.075 },
+        "gpt-4.1": { input: 2, output: 8, cachedInput: 0.5 },
+        "gpt-4.1-mini": { input: 0.4, output: 1.6, cachedInput: 0.1 },
+        "gpt-4.1-nano": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        "o3-mini": { input: 1.1, output: 4.4, cachedInput: 0.55 },
+        "text-embedding-3-small": { input: 0.02, output: 0 },
+        "text-embedding-3-large": { input: 0.13, output: 0 },
+    },
+    anthropic: {
+        "claude-opus-4": { input: 15, output: 75, cachedInput: 1.5 },
+        "claude-sonnet-4": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-3-7-sonnet": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-3-5-sonnet": { input: 3, output: 15, cachedInput: 0.3 },
+        "claude-3-5-haiku": { input: 0.8, output: 4, cachedInput: 0.08 },
+    },
+    google: {
+        "gemini-2.5-pro": { input: 1.25, output: 10, cachedInput: 0.31 },
+        "gemini-2.5-flash": { input: 0.3, output: 2.5, cachedInput: 0.075 },
+        "gemini-2.0-flash": { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        "gemini-1.5-pro": { input: 1.25, output: 5, cachedInput: 0.3125 },
+        "gemini-1.5-flash": { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+    },
+};
+
+/**
+ * Rates used when an adapter declares no model, or the model is unknown.
+ * Matches the GPT-4o estimate the SDK has always used.
+ */
+export const FALLBACK_PRICING: ModelPricing = DEFAULT_MODEL_PRICING.openai["gpt-4o"];
+
+/**
+ * PricingRegistry — Per-model token rates, keyed by provider and model.
+ *
+ * Lookups match the exact model first, then the longest registered prefix,
+ * so dated snapshots ("claude-sonnet-4-20250514") resolve to their family.
+ *
+ * Usage:
+ * ```ts
+ * defaultPricingRegistry.register("openai", "my-finetune", { input: 3, output: 12 });
+ * const cost = defaultPricingRegistry.costFor(llm, usage);
+ * ```
+ */
+export class PricingRegistry {
+    private tables = new Map<string, Map<string, ModelPricing>>();
+    private readonly fallback: ModelPricing | null;
+
+    constructor(
+        initial: Record<string, Record<string, ModelPricing>> = {},
+        fallback: ModelPricing | null = null,
+    ) {
+        this.fallback = fallback;
+        for (const [provider, models] of Object.entries(initial)) {
+            for (const [model, pricing] of Object.entries(models)) {
+                this.register(provider, model, pricing);
+            }
+        }
+    }
+
+    /** Register (or replace) the rates for a provider's model. */
+    register(provider: string, model: string, pricing: ModelPricing): this {
+        let table = this.tables.get(provider);
+        if (!table) {
+            table = new Map();
+            this.tables.set(provider, table);
+        }
+        table.set(model, { ...pricing });
+        return this;
+    }
+
+    /** Look up rates for a model (exact match, then longest prefix). */
+    get(provider: string, model: string): ModelPricing | undefined {
+        const table = this.tables.get(provider);
+        if (!table) return undefined;
+
+        const exact = table.get(model);
+        if (exact) return exact;
+
+        let best: string | undefined;
+        for (const key of table.keys()) {
+            if (model.startsWith(key) && (!best || key.length > best.length)) {
+                best = key;
+            }
+        }
+        return best ? table.get(best) : undefined;
+    }
+
+    /**
+     * Resolve the rates for an adapter.
+     * Rates declared on the adapter win over the registry; unknown models
+     * fall back to the registry's fallback rates (if any).
+     */
+    resolve(llm: Pick<LLMAdapter, "provider" | "model" | "pricing">): ModelPricing | undefined {
+        if (llm.pricing) return llm.pricing;
+        if (llm.provider && llm.model) {
+            const found = this.get(llm.provider, llm.model);
+            if (found) return found;
+        }
+        return this.fallback ?? undefined;
+    }
+
+    /** Estimated cost in USD of the given usage on an adapter's model. */
+    costFor(llm: Pick<LLMAdapter, "provider" | "model" | "pricing">, usage: TokenUsage): number {
+        const pricing = this.resolve(llm);
+        return pricing ? calculateCost(usage, pricing) : 0;
+    }
+}
+
+/**
+ * Estimated cost in USD of token usage at the given rates.
+ * Cached prompt tokens are billed at the cached-input rate when one is set.
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+    const cached = Math.min(usage.cachedPromptTokens ?? 0, usage.promptTokens);
+    const uncached = usage.promptTokens - cached;
+
+    const inputCost = (uncached / 1_000_000) * pricing.input;
+    const cachedCost = (cached / 1_000_000) * (pricing.cachedInput ?? pricing.input);
+    const outputCost = (usage.completionTokens / 1_000_000) * pricing.output;
+    return Number((inputCost + cachedCost + outputCost).toFixed(6));
+}
+
+/** Shared registry, pre-filled with the built-in rates. */
+export const defaultPricingRegistry = new PricingRegistry(DEFAULT_MODEL_PRICING, FALLBACK_PRICING);
@@ -0,0 +1,189 @@
+// ============================================================================
+// ZEN AI SDK — Prompt Registry
+// "The same teaching, in the words of each listener."
+// ============================================================================
+
+import { DEFAULT_PROMPTS } from "./default-prompts.js";
+
+/** A named prompt template. */
+export interface PromptTemplate {
+    /** Dotted name, e.g. "chat.persona". */
+    name: string;
+    /**
+     * Template text. `{{var}}` inserts a variable, `{{#var}}...{{/var}}`
+     * keeps its body only when the variable is non-empty, and `{{>name}}`
+     * includes another template.
+     */
+    template: string;
+    /** Locale such as "ja" or "en". Without one, the template serves every locale. */
+    locale?: string;
+    /** Higher versions win. Default: one above the latest registered version of the name. */
+    version?: number;
+    description?: string;
+}
+
+/** Values interpolated into a template. */
+export type PromptVariables = Record<string, string | number | boolean | null | undefined>;
+
+/**
+ * Overrides by template name: a template text for every locale, or one per locale.
+ * ```ts
+ * { "chat.persona": "You are Aiko, ...", "chat.outputRules": { ja: "...", en: "..." } }
+ * ```
+ */
+export type PromptOverrides = Record<string, string | Record<string, string>>;
+
+/** Options for PromptRegistry. */
+export interface PromptRegistryOptions {
+    /** Locale used when render() is not given one. Default: "en". */
+    locale?: string;
+    /** Locale tried when a name has no variant for the requested one. Default: "en". */
+    fallbackLocale?: string;
+}
+
+/** Options for a single lookup. */
+export interface PromptLookup {
+    locale?: string;
+    /** Pin a specific version instead of the latest. */
+    version?: number;
+}
+
+const MAX_INCLUDE_DEPTH = 8;
+
+/**
+ * PromptRegistry — Named, versioned, localized prompt templates.
+ *
+ * Lookup takes the latest version among the variants for the requested
+ * locale and the locale-less ones (so a locale-less override replaces every
+ * locale), then falls back to `fallbackLocale`. Rendering collapses the
+ * blank lines left by empty sections.
+ *
+ * Usage:
+ * ```ts
+ * const prompts = PromptRegistry.withDefaults({ locale: "en" });
+ * prompts.register({ name: "chat.persona", template: "You are Aiko, a careful research assistant." });
+ * const agent = new ZenAgent({ goal, llm, prompts });
+ * ```
+ */
+export class PromptRegistry {
+    readonly locale: string;
+    readonly fallbackLocale: string;
+    private templates = new Map<string, PromptTemplate[]>();
+
+    constructor(templates: PromptTemplate[] = [], options: PromptRegistryOptions = {}) {
+        this.locale = options.locale ?? "en";
+        this.fallbackLocale = options.fallbackLocale ?? "en";
+        for (const t of templates) this.register(t);
+    }
+
+    /** A registry holding the built-in ZEN AI prompts. */
+    static withDefaults(options: PromptRegistryOptions = {}): PromptRegistry {
+        return new PromptRegistry(DEFAULT_PROMPTS, options);
+    }
+
+    /** Add a template (a new version of its name). */
+    register(template: PromptTemplate): this {
+        const variants = this.templates.get(template.name) ?? [];
+        const latest = Math.max(0, ...variants.map((t) => t.version ?? 1));
+        variants.push({ ...template, version: template.version ?? latest + 1 });
+        this.templates.set(template.name, variants);
+        return this;
+    }
+
+    /** Register overrides by name (see PromptOverrides). */
+    override(overrides: PromptOverrides): this {
+        for (const [name, value] of Object.entries(overrides)) {
+            if (typeof value === "string") {
+                this.register({ name, template: value });
+                continue;
+            }
+            // All locales of one override share a version, above the current latest
+            const version = Math.max(0, ...(this.templates.get(name) ?? []).map((t) => t.version ?? 1)) + 1;
+            for (const [locale, template] of Object.entries(value)) {
+                this.register({ name, template, locale, version });
+            }
+        }
+        return this;
+    }
+
+    /** Whether any variant of the name exists. */
+    has(name: string): boolean {
+        return this.templates.has(name);
+    }
+
+    /** The template used for a name, or undefined. */
+    get(name: string, lookup: PromptLookup = {}): PromptTemplate | undefined {
+        const variants = this.templates.get(name);
+        if (!variants) return undefined;
+        const pinned = lookup.version === undefined
+            ? variants
+            : variants.filter((t) => t.version === lookup.version);
+
+        const locale = lookup.locale ?? this.locale;
+        return latest(pinned.filter((t) => t.locale === locale || t.locale === undefined), locale)
+            ?? latest(pinned.filter((t) => t.locale === this.fallbackLocale), this.fallbackLocale)
+            ?? latest(pinned, locale);
+    }
+
+    /** All registered templates (every version and locale). */
+    list(): PromptTemplate[] {
+        return [...this.templates.values()].flat();
+    }
+
+    /**
+     * Render a template with variables.
+     * Throws if the template (or an included one) is missing, or if it uses
+     * a variable that was not passed at all (undefined values render empty).
+     */
+    render(name: string, variables: PromptVariables = {}, lookup: PromptLookup = {}): string {
+        return this.renderTemplate(name, variables, lookup, 0)
+            .replace(/\n{3,}/g, "\n\n")
+            .trim();
+    }
+
+    private renderTemplate(name: string, variables: PromptVariables, lookup: PromptLookup, depth: number): string {
+        const template = this.get(name, lookup);
+        if (!template) {
+            throw new Error(`Unknown prompt template: "${name}"`);
+        }
+        if (depth > MAX_INCLUDE_DEPTH) {
+            throw new Error(`Prompt template "${name}" includes too deeply (cycle?)`);
+        }
+
+        const lookupVar = (key: string) => {
+            if (!(key in variables)) {
+                throw new Error(`Prompt template "${name}" uses unknown variable "${key}"`);
+            }
+            return variables[key];
+        };
+
+        return template.template
+            // Sections: keep the body only for non-empty values
+            .replace(/\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g, (_, key: string, body: string) => {
+                const value = lookupVar(key);
+                return value === undefined || value === null || value === false || value === "" ? "" : body;
+            })
+            // One pass, so inserted values are never re-interpreted as template syntax.
+            // Includes render with the same variables and locale (latest version).
+            .replace(/\{\{\s*(>?)\s*([\w.]+)\s*\}\}/g, (_, include: string, key: string) =>
+                include
+                    ? this.renderTemplate(key, variables, { locale: lookup.locale }, depth + 1)
+                    : String(lookupVar(key) ?? ""),
+            );
+    }
+}
+
+/** The highest version, preferring an exact locale match on ties. */
+function latest(candidates: PromptTemplate[], locale: string): PromptTemplate | undefined {
+    let best: PromptTemplate | undefined;
+    for (const t of candidates) {
+        if (
+            !best ||
+            (t.version ?? 1) > (best.version ?? 1) ||
+            ((t.version ?? 1) === (best.version ?? 1) && t.locale === locale)
+        ) {
+            best = t;
+        }
+    }
+    return best;
+}
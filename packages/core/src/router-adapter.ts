@@ -0,0 +1,271 @@
+// ============================================================================
+// ZEN AI SDK — Router Adapter
+// "The right vehicle for each crossing."
+// ============================================================================
+
+import type {
+    LLMAdapter,
+    LLMCallOptions,
+    LLMPhase,
+    ChatMessage,
+    ChatOptions,
+    ChatResponse,
+    ChatStreamChunk,
+    CompleteJSONOptions,
+    CompletionResponse,
+    JSONCompletionResponse,
+    JSONSchema,
+    ModelPricing,
+    TokenUsage,
+} from "./types.js";
+import { completeJSON } from "./structured-output.js";
+import { contextWindowFor } from "./context-builder.js";
+import { defaultPricingRegistry } from "./pricing.js";
+import type { PricingRegistry } from "./pricing.js";
+
+/** One adapter, or a fallback chain tried in order. */
+export type AdapterChain = LLMAdapter | LLMAdapter[];
+
+/** Details of a fallover from one adapter to the next. */
+export interface RouterFallbackInfo {
+    /** The adapter that failed. */
+    from: LLMAdapter;
+    /** The adapter tried next. */
+    to: LLMAdapter;
+    /** The error that caused the fallover. */
+    error: unknown;
+    /** True if the failing adapter was rate-limited (and is cooling down). */
+    rateLimited: boolean;
+    /** Phase of the call, if tagged. */
+    phase?: LLMPhase;
+}
+
+/** Configuration for the router adapter. */
+export interface RouterAdapterConfig {
+    /** Chain used when no tag or phase route matches. */
+    default: AdapterChain;
+    /** Chains per agent phase (e.g. a cheap model for "milestone"). */
+    phases?: Partial<Record<LLMPhase, AdapterChain>>;
+    /** Chains per tag. Checked before phases, in the order the call lists its tags. */
+    tags?: Record<string, AdapterChain>;
+    /** Chain for embed(). Default: the default chain. */
+    embed?: AdapterChain;
+    /** Whether an error should fall over to the next adapter. Default: every error does. */
+    shouldFallback?: (error: unknown) => boolean;
+    /** How long a rate-limited adapter is skipped, in ms. Default: 30000. */
+    rateLimitCooldownMs?: number;
+    /** Called on every fallover (e.g. for logging). */
+    onFallback?: (info: RouterFallbackInfo) => void;
+    /** Rates used to price each call at its routed model. Default: the shared registry. */
+    pricingRegistry?: PricingRegistry;
+}
+
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 30_000;
+
+/**
+ * RouterAdapter — Sends each call to an adapter chosen by phase or tag,
+ * falling over along a chain when a provider errors or is rate-limited.
+ *
+ * ZenAgent tags every call with its phase, so routing needs no agent changes:
+ *
+ * ```ts
+ * const llm = new RouterAdapter({
+ *     default: [new AnthropicAdapter(), new OpenAIAdapter()],
+ *     phases: { milestone: new OpenAIAdapter({ model: "gpt-4o-mini" }) },
+ * });
+ * const agent = new ZenAgent({ goal, llm });
+ * ```
+ *
+ * A rate-limited adapter (HTTP 429) is skipped for `rateLimitCooldownMs`,
+ * unless every adapter of the chain is cooling down.
+ *
+ * Cost estimates: provider / model / pricing are those of the first default
+ * adapter, but every reported usage carries `costUsd` at the rates of the
+ * adapter that served the call, so mixed routing is priced correctly.
+ */
+export class RouterAdapter implements LLMAdapter {
+    private readonly defaultChain: LLMAdapter[];
+    private readonly phaseChains: Partial<Record<LLMPhase, LLMAdapter[]>>;
+    private readonly tagChains: Record<string, LLMAdapter[]>;
+    private readonly embedChain: LLMAdapter[];
+    private readonly shouldFallback: (error: unknown) => boolean;
+    private readonly cooldownMs: number;
+    private readonly onFallback?: (info: RouterFallbackInfo) => void;
+    private readonly pricingRegistry: PricingRegistry;
+    /** Adapter → time until which it is skipped after a rate limit. */
+    private coolingUntil = new Map<LLMAdapter, number>();
+
+    constructor(config: RouterAdapterConfig) {
+        this.defaultChain = toChain(config.default);
+        if (this.defaultChain.length === 0) {
+            throw new Error("RouterAdapter needs at least one default adapter");
+        }
+        this.phaseChains = Object.fromEntries(
+            Object.entries(config.phases ?? {}).map(([phase, chain]) => [phase, toChain(chain)]),
+        );
+        this.tagChains = Object.fromEntries(
+            Object.entries(config.tags ?? {}).map(([tag, chain]) => [tag, toChain(chain)]),
+        );
+        this.embedChain = config.embed ? toChain(config.embed) : this.defaultChain;
+        this.shouldFallback = config.shouldFallback ?? (() => true);
+        this.cooldownMs = config.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+        this.onFallback = config.onFallback;
+        this.pricingRegistry = config.pricingRegistry ?? defaultPricingRegistry;
+    }
+
+    get provider(): string | undefined {
+        return this.defaultChain[0].provider;
+    }
+
+    get model(): string | undefined {
+        return this.defaultChain[0].model;
+    }
+
+    get pricing(): ModelPricing | undefined {
+        return this.defaultChain[0].pricing;
+    }
+
+    /** The smallest window of the default chain, so a fallback never overflows. */
+    get contextWindow(): number {
+        return Math.min(...this.defaultChain.map((llm) => contextWindowFor(llm)));
+    }
+
+    /** The chain a call with these options is sent to. */
+    route(options?: LLMCallOptions): LLMAdapter[] {
+        for (const tag of options?.tags ?? []) {
+            const chain = this.tagChains[tag];
+            if (chain?.length) return chain;
+        }
+        const phaseChain = options?.phase ? this.phaseChains[options.phase] : undefined;
+        return phaseChain?.length ? phaseChain : this.defaultChain;
+    }
+
+    /** Generate a text completion. */
+    async complete(prompt: string, options?: LLMCallOptions): Promise<string> {
+        return this.withFallback(this.route(options), options, (llm) => llm.complete(prompt, options));
+    }
+
+    /** Generate a text completion and report usage (when the routed adapter does). */
+    async completeWithUsage(prompt: string, options?: LLMCallOptions): Promise<CompletionResponse> {
+        return this.withFallback(this.route(options), options, async (llm) =>
+            this.priced(llm, llm.completeWithUsage
+                ? await llm.completeWithUsage(prompt, options)
+                : { content: await llm.complete(prompt, options) }),
+        );
+    }
+
+    /**
+     * Generate schema-valid JSON with the routed adapter's native mode, if any.
+     * Output that stays invalid after repairs also falls over to the next adapter.
+     */
+    async completeJSON<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>> {
+        return this.withFallback(this.route(options), options, async (llm) =>
+            this.priced(llm, await completeJSON<T>(llm, prompt, schema, options)),
+        );
+    }
+
+    /** Generate an embedding vector. */
+    async embed(text: string): Promise<number[]> {
+        return this.withFallback(this.embedChain, undefined, (llm) => llm.embed(text));
+    }
+
+    /** Chat completion with optional tool calling. */
+    async chat(messages: ChatMessage[], options?: ChatOptions): Promise<ChatResponse> {
+        return this.withFallback(this.route(options), options, async (llm) =>
+            this.priced(llm, await llm.chat(messages, options)),
+        );
+    }
+
+    /**
+     * Streaming chat completion.
+     * Falls over only until the first chunk has been yielded; adapters without
+     * chatStream() answer with chat() as a single text chunk.
+     */
+    async *chatStream(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<ChatStreamChunk> {
+        const chain = this.available(this.route(options));
+        for (let i = 0; i < chain.length; i++) {
+            const llm = chain[i];
+            let started = false;
+            try {
+                if (!llm.chatStream) {
+                    const response = this.priced(llm, await llm.chat(messages, options));
+                    if (response.content) yield { type: "text", delta: response.content };
+                    yield { type: "done", response };
+                    return;
+                }
+                for await (const chunk of llm.chatStream(messages, options)) {
+                    started = true;
+                    yield chunk.type === "done" ? { ...chunk, response: this.priced(llm, chunk.response) } : chunk;
+                }
+                return;
+            } catch (error) {
+                if (started || !this.fallOver(chain, i, error, options)) throw error;
+            }
+        }
+    }
+
+    // ---------------------------------------------------------------------------
+    // Internals
+    // ---------------------------------------------------------------------------
+
+    /** The response with its usage priced at the serving adapter's rates (unless it priced it itself). */
+    private priced<T extends { usage?: TokenUsage }>(llm: LLMAdapter, response: T): T {
+        const usage = response.usage;
+        if (!usage || usage.costUsd !== undefined) return response;
+        return { ...response, usage: { ...usage, costUsd: this.pricingRegistry.costFor(llm, usage) } };
+    }
+
+    /** Try each adapter of the chain in turn until one succeeds. */
+    private async withFallback<T>(
+        chain: LLMAdapter[],
+        options: LLMCallOptions | undefined,
+        call: (llm: LLMAdapter) => Promise<T>,
+    ): Promise<T> {
+        const candidates = this.available(chain);
+        for (let i = 0; ; i++) {
+            try {
+                return await call(candidates[i]);
+            } catch (error) {
+                if (!this.fallOver(candidates, i, error, options)) throw error;
+            }
+        }
+    }
+
+    /**
+     * Record a failure and decide whether to try the next adapter.
+     * Returns false when the error must be rethrown.
+     */
+    private fallOver(chain: LLMAdapter[], index: number, error: unknown, options?: LLMCallOptions): boolean {
+        const rateLimited = isRateLimitError(error);
+        if (rateLimited) this.coolingUntil.set(chain[index], Date.now() + this.cooldownMs);
+
+        const next = chain[index + 1];
+        if (!next || !this.shouldFallback(error)) return false;
+
+        this.onFallback?.({ from: chain[index], to: next, error, rateLimited, phase: options?.phase });
+        return true;
+    }
+
+    /** The chain without adapters cooling down after a rate limit (never empty). */
+    private available(chain: LLMAdapter[]): LLMAdapter[] {
+        const now = Date.now();
+        const ready = chain.filter((llm) => (this.coolingUntil.get(llm) ?? 0) <= now);
+        return ready.length > 0 ? ready : chain;
+    }
+}
+
+/** True for provider errors that signal a rate limit (HTTP 429). */
+export function isRateLimitError(error: unknown): boolean {
+    if (!error || typeof error !== "object") return false;
+    const e = error as { status?: unknown; statusCode?: unknown; code?: unknown; message?: unknown };
+    if (e.status === 429 || e.statusCode === 429 || e.code === "rate_limit_exceeded") return true;
+    return typeof e.message === "string" && /\b429\b|rate.?limit/i.test(e.message);
+}
+
+function toChain(chain: AdapterChain): LLMAdapter[] {
+    return Array.isArray(chain) ? [...chain] : [chain];
+}
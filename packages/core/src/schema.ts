@@ -0,0 +1,249 @@
+// ============================================================================
+// ZEN AI SDK — JSON Schema Validation
+// "Right intention before right action."
+// ============================================================================
+
+import type { JSONSchema, JSONSchemaType, SchemaValidationIssue } from "./types.js";
+
+/** Result of validating (and coercing) a value against a schema. */
+export interface SchemaValidationResult {
+    /** True if the value satisfies the schema. */
+    valid: boolean;
+    /** The coerced value, with defaults applied (meaningful when valid). */
+    value: unknown;
+    /** Every violation found, with a JSON-path-like location. */
+    errors: SchemaValidationIssue[];
+}
+
+/**
+ * Validate a value against a JSON Schema, coercing where the intent is clear.
+ *
+ * LLM-produced arguments are often almost right, so before checking a type
+ * the validator coerces:
+ * - numeric strings → number / integer ("42" → 42)
+ * - "true" / "false" → boolean
+ * - numbers and booleans → string
+ * - JSON strings → object / array ('{"a":1}' → { a: 1 })
+ * - a single value → one-element array
+ *
+ * Missing properties that declare a `default` are filled in.
+ * The input is never mutated.
+ */
+export function validateSchema(schema: JSONSchema, value: unknown): SchemaValidationResult {
+    const errors: SchemaValidationIssue[] = [];
+    const coerced = check(schema, value, "$", errors);
+    return { valid: errors.length === 0, value: coerced, errors };
+}
+
+/** Format validation issues as one line each (for error messages). */
+export function formatSchemaErrors(errors: SchemaValidationIssue[]): string {
+    return errors.map((e) => `${e.path}: ${e.message}`).join("; ");
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+function check(schema: JSONSchema, input: unknown, path: string, errors: SchemaValidationIssue[]): unknown {
+    let value = input;
+
+    // Composition: allOf applies in sequence, anyOf/oneOf pick a branch
+    if (schema.allOf) {
+        for (const sub of schema.allOf) value = check(sub, value, path, errors);
+    }
+    if (schema.anyOf || schema.oneOf) {
+        const branches = (schema.anyOf ?? schema.oneOf)!;
+        const matches = branches
+            .map((sub) => validateSchema(sub, value))
+            .filter((r) => r.valid);
+        if (matches.length === 0) {
+            errors.push({ path, message: `does not match any allowed schema` });
+            return value;
+        }
+        if (schema.oneOf && matches.length > 1) {
+            errors.push({ path, message: `matches ${matches.length} schemas, expected exactly one` });
+            return value;
+        }
+        value = matches[0].value;
+    }
+
+    // Type (with coercion)
+    if (schema.type) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const match = types.find((t) => isType(value, t));
+        if (match === undefined) {
+            const converted = types
+                .map((t) => coerce(value, t))
+                .find((c) => c !== undefined);
+            if (converted === undefined) {
+                errors.push({ path, message: `expected ${types.join(" | ")}, got ${typeName(value)}` });
+                return value;
+            }
+            value = converted.value;
+        }
+    }
+
+    // Value constraints
+    if (schema.enum && !schema.enum.some((e) => deepEqual(e, value))) {
+        errors.push({ path, message: `must be one of ${schema.enum.map((e) => JSON.stringify(e)).join(", ")}` });
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        errors.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === "number") checkNumber(schema, value, path, errors);
+    if (typeof value === "string") checkString(schema, value, path, errors);
+    if (Array.isArray(value)) return checkArray(schema, value, path, errors);
+    if (isPlainObject(value)) return checkObject(schema, value, path, errors);
+
+    return value;
+}
+
+function checkNumber(schema: JSONSchema, value: number, path: string, errors: SchemaValidationIssue[]): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+        errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+        errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+        errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` });
+    }
+}
+
+function checkString(schema: JSONSchema, value: string, path: string, errors: SchemaValidationIssue[]): void {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        errors.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+}
+
+function checkArray(schema: JSONSchema, value: unknown[], path: string, errors: SchemaValidationIssue[]): unknown[] {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+
+    const items = schema.items
+        ? value.map((item, i) => check(schema.items!, item, `${path}[${i}]`, errors))
+        : [...value];
+
+    if (schema.uniqueItems && items.some((a, i) => items.findIndex((b) => deepEqual(a, b)) !== i)) {
+        errors.push({ path, message: "items must be unique" });
+    }
+    return items;
+}
+
+function checkObject(
+    schema: JSONSchema,
+    value: Record<string, unknown>,
+    path: string,
+    errors: SchemaValidationIssue[],
+): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    const properties = schema.properties ?? {};
+
+    for (const [key, propValue] of Object.entries(value)) {
+        const propSchema = properties[key];
+        if (propSchema) {
+            result[key] = check(propSchema, propValue, `${path}.${key}`, errors);
+        } else if (schema.additionalProperties === false) {
+            errors.push({ path: `${path}.${key}`, message: "is not an allowed property" });
+        } else if (typeof schema.additionalProperties === "object") {
+            result[key] = check(schema.additionalProperties, propValue, `${path}.${key}`, errors);
+        } else {
+            result[key] = propValue;
+        }
+    }
+
+    // Defaults for missing properties
+    for (const [key, propSchema] of Object.entries(properties)) {
+        if (result[key] === undefined && propSchema.default !== undefined) {
+            result[key] = structuredClone(propSchema.default);
+        }
+    }
+
+    for (const key of schema.required ?? []) {
+        if (result[key] === undefined) {
+            errors.push({ path: `${path}.${key}`, message: "is required" });
+        }
+    }
+    return result;
+}
+
+function isType(value: unknown, type: JSONSchemaType): boolean {
+    switch (type) {
+        case "string": return typeof value === "string";
+        case "number": return typeof value === "number" && Number.isFinite(value);
+        case "integer": return typeof value === "number" && Number.isInteger(value);
+        case "boolean": return typeof value === "boolean";
+        case "null": return value === null;
+        case "array": return Array.isArray(value);
+        case "object": return isPlainObject(value);
+        default: return true; // unknown type names are not enforced
+    }
+}
+
+/** Try to convert a value to a type. Returns undefined if there is no safe conversion. */
+function coerce(value: unknown, type: JSONSchemaType): { value: unknown } | undefined {
+    switch (type) {
+        case "number":
+        case "integer": {
+            if (typeof value !== "string" || value.trim() === "") return undefined;
+            const n = Number(value);
+            return isType(n, type) ? { value: n } : undefined;
+        }
+        case "boolean":
+            if (value === "true") return { value: true };
+            if (value === "false") return { value: false };
+            return undefined;
+        case "string":
+            return typeof value === "number" || typeof value === "boolean"
+                ? { value: String(value) }
+                : undefined;
+        case "object":
+        case "array": {
+            if (typeof value === "string") {
+                try {
+                    const parsed: unknown = JSON.parse(value);
+                    return isType(parsed, type) ? { value: parsed } : undefined;
+                } catch {
+                    // fall through
+                }
+            }
+            if (type === "array" && value !== undefined && value !== null && !Array.isArray(value)) {
+                return { value: [value] };
+            }
+            return undefined;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function typeName(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
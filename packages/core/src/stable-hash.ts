@@ -0,0 +1,25 @@
+// ============================================================================
+// ZEN AI SDK — Stable Hashing
+// "The same question, the same name."
+// ============================================================================
+
+import { createHash } from "node:crypto";
+
+/**
+ * SHA-256 of a JSON value, independent of object key order.
+ * Used to key recorded and cached LLM calls by their request.
+ */
+export function stableHash(value: unknown): string {
+    return createHash("sha256").update(stableStringify(value)).digest("hex");
+}
+
+/** JSON.stringify with sorted object keys and undefined properties dropped. */
+export function stableStringify(value: unknown): string {
+    return JSON.stringify(value, (_key, v: unknown) => {
+        if (v && typeof v === "object" && !Array.isArray(v)) {
+            const obj = v as Record<string, unknown>;
+            return Object.fromEntries(Object.keys(obj).sort().map((k) => [k, obj[k]]));
+        }
+        return v;
+    });
+}
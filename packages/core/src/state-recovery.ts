@@ -24,6 +24,8 @@ export interface StateRecoveryOptions {
  * agent.on("action:complete", () => recovery.save(agent.getState()));
  * // On restart:
  * const saved = recovery.load();
+ * const agent = saved ? ZenAgent.fromState(config, saved) : new ZenAgent(config);
+ * await agent.run(); // continues from the saved step
  * ```
  */
 export class StateRecovery {
@@ -0,0 +1,196 @@
+// ============================================================================
+// ZEN AI SDK — Structured Output
+// "Say it in the form that was asked for."
+// ============================================================================
+
+import type {
+    LLMAdapter,
+    CompleteJSONOptions,
+    CompletionResponse,
+    JSONCompletionResponse,
+    JSONSchema,
+    SchemaValidationIssue,
+    TokenUsage,
+} from "./types.js";
+import { validateSchema, formatSchemaErrors } from "./schema.js";
+
+const DEFAULT_MAX_REPAIRS = 2;
+/** Max characters of an invalid reply quoted back in a repair prompt. */
+const MAX_QUOTED_REPLY = 2000;
+
+/** Thrown when an LLM did not produce valid JSON within its repair attempts. */
+export class JSONOutputError extends Error {
+    /** The last raw output. */
+    readonly raw: string;
+    /** Schema violations of the last attempt (empty if it was not JSON at all). */
+    readonly issues: SchemaValidationIssue[];
+    /** Attempts made, first try included. */
+    readonly attempts: number;
+    /** Token usage of all attempts. */
+    readonly usage?: TokenUsage;
+
+    constructor(message: string, details: { raw: string; issues: SchemaValidationIssue[]; attempts: number; usage?: TokenUsage }) {
+        super(message);
+        this.name = "JSONOutputError";
+        this.raw = details.raw;
+        this.issues = details.issues;
+        this.attempts = details.attempts;
+        this.usage = details.usage;
+    }
+}
+
+/** Settings for completeJSONWithRepair(). */
+export interface JSONRepairOptions extends CompleteJSONOptions {
+    /**
+     * Append the schema to the first prompt. Default: true.
+     * Adapters whose provider enforces the schema natively pass false.
+     */
+    schemaInPrompt?: boolean;
+}
+
+/**
+ * Run a generation until its output is JSON that satisfies the schema.
+ *
+ * `generate` makes one LLM call (in whatever JSON mode the provider offers).
+ * Invalid output is answered with a repair prompt that quotes the reply and
+ * the validation errors, up to `maxRepairs` times; then JSONOutputError.
+ * Adapters build completeJSON() on this; the agent uses it for adapters
+ * without completeJSON().
+ */
+export async function completeJSONWithRepair<T = unknown>(
+    generate: (prompt: string) => Promise<CompletionResponse>,
+    prompt: string,
+    schema: JSONSchema,
+    options: JSONRepairOptions = {},
+): Promise<JSONCompletionResponse<T>> {
+    const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+    const schemaText = JSON.stringify(schema);
+    let current = options.schemaInPrompt === false
+        ? prompt
+        : `${prompt}\n\nRespond with only a JSON value matching this JSON Schema:\n${schemaText}`;
+    let usage: TokenUsage | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+        const response = await generate(current);
+        usage = addUsage(usage, response.usage);
+
+        const parsed = extractJSON(response.content);
+        const result = parsed === undefined ? undefined : validateSchema(schema, parsed);
+        if (result?.valid) {
+            return { value: result.value as T, usage };
+        }
+
+        const issues = result?.errors ?? [];
+        const problem = result ? formatSchemaErrors(issues) : "the reply contained no parseable JSON";
+        if (attempt > maxRepairs) {
+            throw new JSONOutputError(`Invalid JSON output after ${attempt} attempt(s): ${problem}`, {
+                raw: response.content,
+                issues,
+                attempts: attempt,
+                usage,
+            });
+        }
+
+        current = [
+            prompt,
+            "",
+            "## Your previous reply was invalid",
+            response.content.slice(0, MAX_QUOTED_REPLY),
+            "",
+            `Problem: ${problem}`,
+            "",
+            `Respond again with only a JSON value matching this JSON Schema:\n${schemaText}`,
+        ].join("\n");
+    }
+}
+
+/**
+ * completeJSON() for any adapter: its native mode when it has one, otherwise
+ * complete() with schema validation and repair prompts.
+ */
+export async function completeJSON<T = unknown>(
+    llm: LLMAdapter,
+    prompt: string,
+    schema: JSONSchema,
+    options?: CompleteJSONOptions,
+): Promise<JSONCompletionResponse<T>> {
+    if (llm.completeJSON) {
+        return llm.completeJSON<T>(prompt, schema, options);
+    }
+    const callOptions = { phase: options?.phase, tags: options?.tags };
+    return completeJSONWithRepair<T>(
+        async (p) => llm.completeWithUsage
+            ? llm.completeWithUsage(p, callOptions)
+            : { content: await llm.complete(p, callOptions) },
+        prompt,
+        schema,
+        options,
+    );
+}
+
+/**
+ * Parse the JSON value in an LLM reply.
+ * Accepts bare JSON, a ```json fenced block, or JSON surrounded by prose
+ * (the first balanced object or array). Returns undefined if there is none.
+ */
+export function extractJSON(text: string): unknown {
+    const trimmed = text.trim();
+    const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    for (const candidate of [trimmed, fenced?.[1]?.trim()]) {
+        if (!candidate) continue;
+        try {
+            return JSON.parse(candidate);
+        } catch {
+            // try the next form
+        }
+    }
+
+    for (let start = 0; start < trimmed.length; start++) {
+        const open = trimmed[start];
+        if (open !== "{" && open !== "[") continue;
+        const end = matchingBracket(trimmed, start);
+        if (end === -1) continue;
+        try {
+            return JSON.parse(trimmed.slice(start, end + 1));
+        } catch {
+            // keep scanning
+        }
+    }
+    return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Internals
+// ---------------------------------------------------------------------------
+
+/** Index of the bracket closing the one at `start` (string-aware), or -1. */
+function matchingBracket(text: string, start: number): number {
+    const stack: string[] = [];
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === "\\") i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') inString = true;
+        else if (ch === "{") stack.push("}");
+        else if (ch === "[") stack.push("]");
+        else if (ch === "}" || ch === "]") {
+            if (stack.pop() !== ch) return -1;
+            if (stack.length === 0) return i;
+        }
+    }
+    return -1;
+}
+
+function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b;
+    if (!b) return a;
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+    };
+}
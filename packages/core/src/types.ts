@@ -3,6 +3,10 @@
 // "Don't accumulate. Perceive now."
 // ============================================================================
 
+import type { PricingRegistry } from "./pricing.js";
+import type { ContextOptions } from "./context-builder.js";
+import type { PromptOverrides, PromptRegistry } from "./prompt-registry.js";
+
 // ---------------------------------------------------------------------------
 // Goal — The North Star (never changes during a run)
 // ---------------------------------------------------------------------------
@@ -67,13 +71,58 @@ export interface Delta {
 // Actions & Tools
 // ---------------------------------------------------------------------------
 
-/** JSON Schema subset for tool parameter definitions. */
-export interface ParameterSchema {
-    type: string;
-    properties?: Record<string, { type: string; description: string }>;
+/** Primitive JSON Schema type names. */
+export type JSONSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/** JSON Schema (draft-07 keywords used for validation and coercion). */
+export interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    description?: string;
+    /** Value used when the property is missing. */
+    default?: unknown;
+    enum?: unknown[];
+    const?: unknown;
+    // --- object ---
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    // --- array ---
+    items?: JSONSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    // --- number ---
+    minimum?: number;
+    maximum?: number;
+    exclusiveMinimum?: number;
+    exclusiveMaximum?: number;
+    multipleOf?: number;
+    // --- string ---
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    /** Informational only (not enforced). */
+    format?: string;
+    // --- composition ---
+    anyOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+    allOf?: JSONSchema[];
+}
+
+/** JSON Schema for tool parameters: an object schema at the top level. */
+export interface ParameterSchema extends JSONSchema {
+    type: "object";
+    properties?: Record<string, JSONSchema>;
     required?: string[];
 }
 
+/** One schema violation found in tool arguments. */
+export interface SchemaValidationIssue {
+    /** Location of the offending value (e.g. "$.options.retries"). */
+    path: string;
+    message: string;
+}
+
 /** A capability the agent can invoke. */
 export interface Tool {
     /** Unique name for this tool. */
@@ -82,8 +131,60 @@ export interface Tool {
     description: string;
     /** JSON Schema defining the tool's parameters. */
     parameters: ParameterSchema;
+    /**
+     * True if the tool changes the outside world (files, processes, remote state).
+     * Side-effecting tools never run concurrently with other tool calls.
+     */
+    sideEffects?: boolean;
+    /** Abort the call after this many milliseconds (optional). */
+    timeoutMs?: number;
+    /** Every call waits for a human decision (see ApprovalPolicy). */
+    requiresApproval?: boolean;
     /** Execute the tool with the given parameters. */
-    execute(params: Record<string, unknown>): Promise<ToolResult>;
+    execute(params: Record<string, unknown>, ctx?: ToolContext): Promise<ToolResult>;
+}
+
+/** Execution context handed to Tool.execute() by the agent. */
+export interface ToolContext {
+    /** Aborted when the agent stops or the tool's timeoutMs elapses. */
+    signal: AbortSignal;
+    /** The agent step this call belongs to. */
+    step: number;
+    /** ID of the calling agent. */
+    agentId: string;
+}
+
+/**
+ * Marks tool calls as requiring approval: calls of the named tool(s) whose
+ * arguments match every pattern (a RegExp, or a substring for strings).
+ * Non-string arguments are matched as JSON.
+ */
+export interface ApprovalRule {
+    /** Tool name, several names, or "*" for every tool. */
+    tool: string | string[];
+    /** Patterns by argument name. Omit to match every call of the tool. */
+    args?: Record<string, RegExp | string>;
+    /** Why the call needs approval (shown to the approver). */
+    reason?: string;
+}
+
+/** Which tool calls wait for a human decision, and for how long. */
+export interface ApprovalPolicy {
+    /** Rules that mark calls as requiring approval (in addition to Tool.requiresApproval). */
+    rules: ApprovalRule[];
+    /** How long to wait for a decision, in ms. Default: 300000 (5 minutes). */
+    timeoutMs?: number;
+    /** The decision when nobody answers in time. Default: "deny". */
+    onTimeout?: "approve" | "deny";
+}
+
+/** An approver's answer to `approval:requested` (see ZenAgent.resolveApproval). */
+export interface ApprovalDecision {
+    approved: boolean;
+    /** Who decided (e.g. a user name). */
+    by?: string;
+    /** Why (told to the LLM when the call is denied). */
+    reason?: string;
 }
 
 /** The result of a tool execution. */
@@ -94,6 +195,10 @@ export interface ToolResult {
     output: unknown;
     /** Error message if the tool call failed. */
     error?: string;
+    /** Set when the arguments failed schema validation and the tool was not run. */
+    validationErrors?: SchemaValidationIssue[];
+    /** Images or files shown to the LLM alongside the output (e.g. a screenshot). */
+    content?: ContentPart[];
 }
 
 /** An action the agent has decided to take. */
@@ -112,6 +217,23 @@ export interface Action {
 // Milestones
 // ---------------------------------------------------------------------------
 
+/**
+ * A structured check that a milestone resource exists.
+ * - `path`: a JSONPath into the snapshot ("$.files[0]", "$.build['status']")
+ *   resolves to a value, or to `equals` when given.
+ * - `file`: the file or directory exists on disk.
+ * - `command`: the shell command exits with code 0.
+ * - `custom`: the function returns true.
+ */
+export type ResourcePredicate =
+    | { type: "path"; path: string; equals?: unknown; description?: string }
+    | { type: "file"; path: string; description?: string }
+    | { type: "command"; command: string; cwd?: string; timeoutMs?: number; description?: string }
+    | { type: "custom"; check: (snapshot: Snapshot) => boolean | Promise<boolean>; description: string };
+
+/** A required resource: a string that must appear in the snapshot, or a predicate. */
+export type MilestoneResource = string | ResourcePredicate;
+
 /** A waypoint in the agent's journey toward the goal. */
 export interface Milestone {
     /** Unique identifier. */
@@ -119,7 +241,45 @@ export interface Milestone {
     /** Human-readable description of this waypoint. */
     description: string;
     /** Resources that must exist when this milestone is reached. */
-    resources: string[];
+    resources: MilestoneResource[];
+    /**
+     * IDs of the milestones that must be reached first. Default: the previous
+     * milestone in the list (a linear chain). `[]` starts a parallel branch.
+     */
+    dependsOn?: string[];
+    /**
+     * Ask the LLM to confirm the milestone once every resource check passes.
+     * Default: true. Set false when the predicates are conclusive.
+     */
+    llmConfirm?: boolean;
+    /** Steps the agent may spend on this milestone once it is active. Default: no limit. */
+    maxSteps?: number;
+    /** Time the agent may spend on this milestone once it is active, in ms. Default: no limit. */
+    timeoutMs?: number;
+    /** What to do when maxSteps or timeoutMs is exceeded. Default: ZenAgentConfig.milestoneFailurePolicy. */
+    onFailure?: MilestoneFailurePolicy;
+}
+
+/**
+ * What the agent does when a milestone exceeds its step or time budget.
+ * - `retry`: reset the milestone's context and start its budget over.
+ * - `skip`: give up on it and move on as if it were reached (`skipped` in its status).
+ * - `replan`: let the planner replace the unreached milestones.
+ * - `abort`: end the run (reason "milestone:failed").
+ */
+export type MilestoneFailurePolicy = "retry" | "skip" | "replan" | "abort";
+
+/** Options of the LLM milestone planner (see ZenAgentConfig.planner). */
+export interface PlannerOptions {
+    /** Most milestones a plan may contain. Default: 6. */
+    maxMilestones?: number;
+    /**
+     * Re-plan the unreached milestones after this many `milestone:failed`
+     * events since the last plan. 0 never re-plans. Default: 2.
+     */
+    replanAfterFailures?: number;
+    /** Let the plan use `command` checks (shell commands run on every check). Default: false. */
+    allowCommands?: boolean;
 }
 
 /** Status of a single milestone. */
@@ -127,16 +287,55 @@ export interface MilestoneStatus {
     milestone: Milestone;
     reached: boolean;
     reachedAt?: Date;
+    /** Given up on after a failure (counts as reached for its dependents). */
+    skipped?: boolean;
 }
 
 // ---------------------------------------------------------------------------
 // LLM Adapter
 // ---------------------------------------------------------------------------
 
+/** Plain text in a multimodal message. */
+export interface TextPart {
+    type: "text";
+    text: string;
+}
+
+/**
+ * Where the bytes of an image or file come from: inline base64 `data`,
+ * a local `path`, or a `url`. Adapters load paths (and URLs their provider
+ * cannot fetch) before sending.
+ */
+export interface MediaSource {
+    data?: string;
+    path?: string;
+    url?: string;
+    /** e.g. "image/png"; inferred from the path or URL when omitted. */
+    mimeType?: string;
+}
+
+/** An image in a multimodal message. */
+export interface ImagePart extends MediaSource {
+    type: "image";
+}
+
+/** A file (PDF, text, ...) in a multimodal message. */
+export interface FilePart extends MediaSource {
+    type: "file";
+    /** File name shown to the model. */
+    name?: string;
+}
+
+/** One part of a multimodal message. */
+export type ContentPart = TextPart | ImagePart | FilePart;
+
+/** Message content: plain text, or text mixed with images and files. */
+export type MessageContent = string | ContentPart[];
+
 /** A message in a chat conversation. */
 export interface ChatMessage {
     role: "system" | "user" | "assistant" | "tool";
-    content: string;
+    content: MessageContent;
     /** Tool call ID (for tool role messages). */
     toolCallId?: string;
     /** Tool calls made by the assistant (for assistant role messages). */
@@ -150,13 +349,94 @@ export interface LLMToolCall {
     arguments: Record<string, unknown>;
 }
 
+/**
+ * Turns text into a vector for semantic search.
+ * Kept separate from LLMAdapter so any chat model can be paired with any
+ * embedder; every LLMAdapter is also an Embedder.
+ */
+export interface Embedder {
+    /** Generate an embedding vector. */
+    embed(text: string): Promise<number[]>;
+}
+
 /** Token usage statistics. */
 export interface TokenUsage {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    /** Prompt tokens served from the provider's prompt cache (subset of promptTokens). */
+    cachedPromptTokens?: number;
+    /**
+     * Cost in USD, when the adapter priced the call itself (RouterAdapter
+     * prices each call at the routed model's rates). Wins over the agent's pricing.
+     */
+    costUsd?: number;
 }
 
+/** Token rates for a model, in USD per 1M tokens. */
+export interface ModelPricing {
+    input: number;
+    output: number;
+    /** Rate for cached prompt tokens. Default: the input rate. */
+    cachedInput?: number;
+}
+
+/** Hit and miss counts of a response cache. */
+export interface CacheStats {
+    hits: number;
+    misses: number;
+}
+
+/** Response from a text completion, with token usage when the provider reports it. */
+export interface CompletionResponse {
+    content: string;
+    usage?: TokenUsage;
+}
+
+/** Options for a structured (JSON) completion. */
+export interface CompleteJSONOptions extends LLMCallOptions {
+    /** Name for the output schema (used by providers that label schemas). Default: "response". */
+    schemaName?: string;
+    /** Times to re-prompt with the validation errors before giving up. Default: 2. */
+    maxRepairs?: number;
+}
+
+/** A JSON completion that satisfied its schema (defaults applied, values coerced). */
+export interface JSONCompletionResponse<T = unknown> {
+    value: T;
+    /** Token usage of every attempt, repairs included. */
+    usage?: TokenUsage;
+}
+
+/** The agent phase an LLM call belongs to (used for usage accounting). */
+export type LLMPhase =
+    | "decide"     // tool selection (decide / final awakening decision)
+    | "delta"      // gap analysis
+    | "milestone"  // milestone YES/NO confirmation
+    | "awakening"  // Seven Factors stages
+    | "causal"     // causal analysis
+    | "evolution"  // Anatta self-evolution
+    | "summarize"  // history compaction
+    | "plan"       // milestone planning
+    | "chat";      // conversational chat()
+
+/** Per-call hints passed to an LLMAdapter (used e.g. by RouterAdapter to pick a model). */
+export interface LLMCallOptions {
+    /** The agent phase making the call. ZenAgent tags every call with it. */
+    phase?: LLMPhase;
+    /** Free-form routing tags (e.g. "cheap", "long-context"). */
+    tags?: string[];
+}
+
+/** Options for chat() and chatStream(). */
+export interface ChatOptions extends LLMCallOptions {
+    /** Tools the model may call. */
+    tools?: LLMToolDefinition[];
+}
+
+/** Token usage broken down by agent phase. */
+export type UsageByPhase = Partial<Record<LLMPhase, TokenUsage>>;
+
 /** Response from a chat completion that may include tool calls. */
 export interface ChatResponse {
     content: string | null;
@@ -164,6 +444,18 @@ export interface ChatResponse {
     usage?: TokenUsage;
 }
 
+/**
+ * One increment of a streamed chat response.
+ * - text: a piece of the assistant's reply
+ * - tool_call: a piece of a tool call; `id` / `name` arrive with the first
+ *   piece of each call, `argumentsDelta` is a fragment of its JSON arguments
+ * - done: the assembled response (always the last chunk)
+ */
+export type ChatStreamChunk =
+    | { type: "text"; delta: string }
+    | { type: "tool_call"; index: number; id?: string; name?: string; argumentsDelta: string }
+    | { type: "done"; response: ChatResponse };
+
 /** Tool definition in the format expected by the LLM. */
 export interface LLMToolDefinition {
     name: string;
@@ -176,15 +468,51 @@ export interface LLMToolDefinition {
  * Implement this to use ZEN AI with your preferred model.
  */
 export interface LLMAdapter {
+    /** Provider name, used for pricing lookups (e.g. "openai"). */
+    readonly provider?: string;
+    /** Model identifier, used for pricing lookups (e.g. "gpt-4o"). */
+    readonly model?: string;
+    /** Rates declared by the adapter; take precedence over the pricing registry. */
+    readonly pricing?: ModelPricing;
+    /** Context window in tokens; takes precedence over DEFAULT_CONTEXT_WINDOWS. */
+    readonly contextWindow?: number;
     /** Generate a text completion. */
-    complete(prompt: string): Promise<string>;
+    complete(prompt: string, options?: LLMCallOptions): Promise<string>;
+    /**
+     * Generate a text completion and report token usage (optional).
+     * When implemented, the agent uses it instead of complete() so that
+     * every call is accounted for in cost tracking.
+     */
+    completeWithUsage?(prompt: string, options?: LLMCallOptions): Promise<CompletionResponse>;
+    /**
+     * Generate JSON that satisfies a schema (optional).
+     * Adapters use the provider's JSON / structured-output mode where there is
+     * one, validate the result, and re-prompt with the errors when it is invalid.
+     * Throws JSONOutputError when no valid output was produced.
+     */
+    completeJSON?<T = unknown>(
+        prompt: string,
+        schema: JSONSchema,
+        options?: CompleteJSONOptions,
+    ): Promise<JSONCompletionResponse<T>>;
     /** Generate an embedding vector. */
     embed(text: string): Promise<number[]>;
     /** Chat completion with optional tool/function calling. */
     chat(
         messages: ChatMessage[],
-        options?: { tools?: LLMToolDefinition[] },
+        options?: ChatOptions,
     ): Promise<ChatResponse>;
+    /**
+     * Streaming chat completion (optional).
+     * Yields text and tool-call deltas as they arrive, then a final "done"
+     * chunk carrying the same ChatResponse chat() would have returned.
+     */
+    chatStream?(
+        messages: ChatMessage[],
+        options?: ChatOptions,
+    ): AsyncIterable<ChatStreamChunk>;
+    /** Response cache hit/miss counts, for adapters that cache (optional). */
+    cacheStats?(): CacheStats;
 }
 
 // ---------------------------------------------------------------------------
@@ -199,6 +527,15 @@ export interface ZenAgentConfig {
     llm: LLMAdapter;
     /** Ordered list of milestones (optional but recommended). */
     milestones?: Milestone[];
+    /**
+     * Let the LLM break the goal into milestones when none are given, and
+     * re-plan after repeated `milestone:failed`. Default: off.
+     */
+    planner?: boolean | PlannerOptions;
+    /** What to do when a milestone exceeds its maxSteps / timeoutMs. Default: "retry". */
+    milestoneFailurePolicy?: MilestoneFailurePolicy;
+    /** Tool calls that need a human decision before they run (optional). */
+    approval?: ApprovalPolicy;
     /** Function that captures the current environment state. */
     snapshot?: SnapshotFn;
     /** Tools the agent can use. */
@@ -207,6 +544,10 @@ export interface ZenAgentConfig {
     maxSteps?: number;
     /** Maximum retries per LLM call. Default: 3. */
     maxRetries?: number;
+    /** Stable ID for this agent (passed to tools). Default: generated. */
+    agentId?: string;
+    /** Maximum independent tool calls executed concurrently in one step. Default: 4. */
+    maxParallelTools?: number;
     /** SkillDB instance (optional). */
     skillDB?: SkillDB;
     /** FailureKnowledgeDB instance (optional). */
@@ -215,8 +556,46 @@ export interface ZenAgentConfig {
     karmaMemoryDB?: KarmaMemoryDB;
     /** Path to persist the self-model JSON (enables growth across runs). */
     selfModelPath?: string;
+    /** Pricing registry for cost estimates. Default: defaultPricingRegistry. */
+    pricingRegistry?: PricingRegistry;
+    /** Token / USD ceilings for a single run (optional). */
+    budget?: Budget;
+    /**
+     * Prompt templates: a registry, or overrides by template name applied on
+     * top of the defaults (e.g. `{ "chat.persona": "..." }`).
+     */
+    prompts?: PromptRegistry | PromptOverrides;
+    /** Locale of the chat prompts ("ja" or "en" built in). Default: "ja". */
+    locale?: string;
+    /** Token budget of the chat history and when to summarize it (optional). */
+    context?: ContextOptions;
+}
+
+/**
+ * Spending limits for a single run.
+ * Checked at step boundaries: the run ends cleanly once a limit is reached.
+ */
+export interface Budget {
+    /** Maximum total tokens (prompt + completion) per run. */
+    maxTokens?: number;
+    /** Maximum estimated cost in USD per run. */
+    maxCostUsd?: number;
+    /** Fraction of a limit at which budget:warning is emitted. Default: 0.8. */
+    warnAt?: number;
 }
 
+/** The budget limit a budget event refers to. */
+export type BudgetLimit = "tokens" | "cost";
+
+/** Why a run ended. */
+export type AgentStopReason =
+    | "goal_reached"     // delta reported isComplete
+    | "no_action"        // the LLM chose no further tool call
+    | "max_steps"        // maxSteps was hit
+    | "stopped"          // stop() was called
+    | "budget:exceeded"  // a Budget limit was reached
+    | "milestone:failed"; // a milestone failed with the "abort" policy
+
 // ---------------------------------------------------------------------------
 // Memory interfaces (implemented in @zen-ai/memory)
 // ---------------------------------------------------------------------------
@@ -346,6 +725,8 @@ export interface ZenAgentEvents {
     "milestone:failed": {
         milestoneId: string;
         error: Error;
+        /** The policy applied (when the milestone exceeded its step or time budget). */
+        policy?: MilestoneFailurePolicy;
     };
     "action:start": {
         action: Action;
@@ -359,6 +740,8 @@ export interface ZenAgentEvents {
     "context:reset": {
         previousMilestone: string;
         nextMilestone: string | null;
+        /** Every milestone active after the reset (parallel branches). */
+        activeMilestones: string[];
     };
     "failure:recorded": {
         proverb: string;
@@ -372,14 +755,42 @@ export interface ZenAgentEvents {
     };
     "agent:complete": {
         goal: Goal;
+        /** Why the run ended. */
+        reason: AgentStopReason;
         totalSteps: number;
         cost: number;
         usage: TokenUsage;
+        /** Token usage per agent phase (delta, milestone, awakening, ...). */
+        usageByPhase: UsageByPhase;
+        /** Response cache hits and misses during this run (when the adapter caches). */
+        cache?: CacheStats;
     };
     "agent:error": {
         error: Error;
         step: number;
     };
+    /** Emitted once per limit when usage crosses Budget.warnAt. */
+    "budget:warning": {
+        limit: BudgetLimit;
+        used: number;
+        max: number;
+        step: number;
+    };
+    /** Emitted when a Budget limit is reached; the run ends at the next step boundary. */
+    "budget:exceeded": {
+        limit: BudgetLimit;
+        used: number;
+        max: number;
+        step: number;
+    };
+    /** Emitted when the loop suspends at a step boundary after pause(). */
+    "agent:paused": {
+        step: number;
+    };
+    /** Emitted when a paused loop continues after resume(). */
+    "agent:resumed": {
+        step: number;
+    };
 
     // --- Buddhist AI Events (Phase 0.5) ---
 
@@ -405,6 +816,54 @@ export interface ZenAgentEvents {
 
     // --- Buddhist AI Events (Phase 2) ---
 
+    /** Emitted when structured LLM output stayed invalid after every repair attempt. */
+    "parse:failed": {
+        phase: LLMPhase;
+        /** What was wrong with the last attempt. */
+        error: string;
+        /** The last raw LLM output. */
+        raw: string;
+        attempts: number;
+        step: number;
+    };
+
+    /** Emitted when a tool call waits for approval; answer with agent.resolveApproval(requestId, ...). */
+    "approval:requested": {
+        requestId: string;
+        toolName: string;
+        parameters: Record<string, unknown>;
+        reason: string;
+        timeoutMs: number;
+        step: number;
+    };
+
+    /** Emitted when an approval request was decided, timed out, or dropped by stop(). */
+    "approval:resolved": {
+        requestId: string;
+        toolName: string;
+        approved: boolean;
+        by?: string;
+        reason?: string;
+        timedOut: boolean;
+        step: number;
+    };
+
+    /** Emitted when the planner adopted a milestone plan (replan: after failures). */
+    "plan:created": {
+        milestones: Milestone[];
+        replan: boolean;
+        step: number;
+    };
+
+    /** Emitted when older chat history was summarized into a memory message. */
+    "context:compacted": {
+        summarizedMessages: number;
+        keptMessages: number;
+        tokensBefore: number;
+        tokensAfter: number;
+        step: number;
+    };
+
     /** Emitted when causal analysis is performed. */
     "causal:analyzed": {
         links: CausalLink[];
@@ -479,6 +938,10 @@ export interface Artifact {
 export interface AgentState {
     goal: Goal;
     currentMilestoneIndex: number;
+    /** IDs of the reached milestones (restores DAG progress; overrides the index). */
+    reachedMilestones?: string[];
+    /** Milestones created by the planner (restored instead of planning again). */
+    plannedMilestones?: Milestone[];
     stepCount: number;
     snapshot: Snapshot;
     delta: Delta | null;
@@ -502,6 +965,12 @@ export interface AgentState {
     artifacts: Artifact[];
     /** Chat history for persistent conversation context. */
     chatHistory?: ChatMessage[];
+    /** Accumulated token usage (restored on resume so cost keeps adding up). */
+    usage?: TokenUsage;
+    /** Accumulated token usage per agent phase. */
+    usageByPhase?: UsageByPhase;
+    /** Tanha (craving) loop counters keyed by `toolName:error`. */
+    failurePatternCounts?: Record<string, number>;
 }
 
 // ============================================================================
@@ -526,6 +995,8 @@ export interface SelfModel {
         successes: number;
         failures: number;
         avgSufferingDelta: number;
+        /** Calls rejected for invalid arguments (not counted as uses). */
+        invalidArgs?: number;
     }>;
     /** Rolling suffering trend (last N steps). */
     sufferingTrend: number[];
@@ -5,10 +5,25 @@
 
 import { TypedEventEmitter } from "./event-emitter.js";
 import { MilestoneRunner } from "./milestone-runner.js";
+import { defaultPricingRegistry } from "./pricing.js";
+import { validateSchema, formatSchemaErrors } from "./schema.js";
+import { completeJSONWithRepair, JSONOutputError } from "./structured-output.js";
+import { contentText } from "./content.js";
+import { PromptRegistry } from "./prompt-registry.js";
+import { describeResource } from "./milestone-predicates.js";
+import { PLAN_SCHEMA, resolvePlannerOptions, toMilestones } from "./milestone-planner.js";
+import { DEFAULT_APPROVAL_TIMEOUT_MS, matchApprovalRule } from "./approval.js";
+import type { PlanOutput } from "./milestone-planner.js";
+import { ContextBuilder, contextWindowFor, estimateTokens } from "./context-builder.js";
+import type { ContextOptions } from "./context-builder.js";
+import type { PromptVariables } from "./prompt-registry.js";
+import type { PricingRegistry } from "./pricing.js";
 import type {
     Goal,
     Snapshot,
     Delta,
+    ApprovalDecision,
+    ApprovalPolicy,
     Action,
     Artifact,
     Tool,
@@ -16,6 +31,9 @@ import type {
     LLMToolDefinition,
     ChatMessage,
     ChatResponse,
+    ChatStreamChunk,
+    ContentPart,
+    MessageContent,
     ZenAgentConfig,
     ZenAgentEvents,
     AgentState,
@@ -29,6 +47,17 @@ import type {
     ZenPlugin,
     PluginContext,
     TokenUsage,
+    CacheStats,
+    Milestone,
+    MilestoneFailurePolicy,
+    PlannerOptions,
+    LLMAdapter,
+    LLMPhase,
+    JSONSchema,
+    UsageByPhase,
+    Budget,
+    BudgetLimit,
+    AgentStopReason,
 } from "./types.js";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
@@ -37,6 +66,94 @@ import { dirname } from "node:path";
 const DEFAULT_SNAPSHOT: Snapshot = {};
 const DEFAULT_MAX_STEPS = 100;
 const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_MAX_PARALLEL_TOOLS = 4;
+/** Max successful actions distilled into one skill. */
+const MAX_SKILL_ACTIONS = 10;
+/** Similarity above which a new skill counts as a near-duplicate. */
+const SKILL_DUPLICATE_THRESHOLD = 0.8;
+/** Default fraction of a budget limit that triggers budget:warning. */
+const DEFAULT_BUDGET_WARN_AT = 0.8;
+
+// ---------------------------------------------------------------------------
+// Structured output schemas (validated JSON from the LLM)
+// ---------------------------------------------------------------------------
+
+interface DeltaOutput {
+    description: string;
+    progress: number;
+    gaps: string[];
+    isComplete: boolean;
+    sufferingDelta?: number;
+    egoNoise?: number;
+}
+
+const DELTA_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        description: { type: "string" },
+        progress: { type: "number", minimum: 0, maximum: 1 },
+        gaps: { type: "array", items: { type: "string" }, default: [] },
+        isComplete: { type: "boolean" },
+        sufferingDelta: { type: "number", minimum: -1, maximum: 1 },
+        egoNoise: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["description", "progress", "isComplete"],
+};
+
+interface CausalOutput {
+    isCausal: boolean;
+    strength: number;
+    reasoning: string;
+}
+
+const CAUSAL_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        isCausal: { type: "boolean" },
+        strength: { type: "number", minimum: 0, maximum: 1, default: 0.5 },
+        reasoning: { type: "string", default: "" },
+    },
+    required: ["isCausal"],
+};
+
+const HYPOTHESES_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        hypotheses: { type: "array", items: { type: "string" }, minItems: 1 },
+    },
+    required: ["hypotheses"],
+};
+
+const MINDFULNESS_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        filtered: { type: "array", items: { type: "string" } },
+        removed: { type: "array", items: { type: "string" }, default: [] },
+        reasoning: { type: "string", default: "" },
+    },
+    required: ["filtered"],
+};
+
+interface EvolutionOutput {
+    change: string;
+    reason: string;
+    type: SelfEvolutionRecord["type"];
+    confidence: number;
+}
+
+const EVOLUTION_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        change: { type: "string" },
+        reason: { type: "string" },
+        type: {
+            enum: ["tool_preference", "approach_shift", "milestone_reorder", "strategy_change"],
+            default: "strategy_change",
+        },
+        confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["change", "reason", "confidence"],
+};
 
 /**
  * ZenAgent — The Present-Moment Agent.
@@ -51,13 +168,16 @@ const DEFAULT_MAX_RETRIES = 3;
  */
 export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
     /**
-     * Calculate estimated cost in USD.
-     * Based on GPT-4o rates (Input: $2.50/1M, Output: $10.00/1M).
+     * Calculate estimated cost in USD of the run so far.
+     * Rates come from the adapter's declared pricing or the pricing registry.
      */
     public calculateCost(): number {
-        const inputCost = (this.totalUsage.promptTokens / 1_000_000) * 2.50;
-        const outputCost = (this.totalUsage.completionTokens / 1_000_000) * 10.00;
-        return Number((inputCost + outputCost).toFixed(6));
+        return this.costOf(this.totalUsage);
+    }
+
+    /** Estimated cost in USD of the given usage on this agent's model (or as priced by the adapter). */
+    public costOf(usage: TokenUsage): number {
+        return usage.costUsd ?? this.pricingRegistry.costFor(this.llm, usage);
     }
 
     // --- Core 3 elements ---
@@ -66,24 +186,55 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
     private delta: Delta | null = null;
 
     // --- Components ---
+    private readonly agentId: string;
     private readonly llm: ZenAgentConfig["llm"];
-    private readonly milestoneRunner: MilestoneRunner | null;
+    private milestoneRunner: MilestoneRunner | null;
+    private readonly planner: Required<PlannerOptions> | null;
+    private readonly failurePolicy: MilestoneFailurePolicy;
+    private readonly approval: ApprovalPolicy | null;
     private readonly snapshotFn: () => Promise<Snapshot> | Snapshot;
     private readonly tools: Map<string, Tool>;
     private readonly skillDB: ZenAgentConfig["skillDB"];
     private readonly failureDB: ZenAgentConfig["failureDB"];
     private readonly karmaMemoryDB: ZenAgentConfig["karmaMemoryDB"];
+    private readonly pricingRegistry: PricingRegistry;
+    private readonly prompts: PromptRegistry;
+    private readonly locale: string;
+    private readonly contextOptions: ContextOptions;
 
     // --- Settings ---
     private readonly maxSteps: number;
     private readonly maxRetries: number;
+    private readonly maxParallelTools: number;
+    private readonly budget: Budget | null;
     /** Optional path for persisting SelfModel across runs. */
     private readonly selfModelPath: string | null;
 
     // --- Runtime state ---
+    /** Milestones that were active when each run-loop message was recorded. */
+    private historyScopes = new WeakMap<ChatMessage, string[]>();
+    /** Milestones created by the planner (persisted in the state). */
+    private plannedMilestones: Milestone[] | null = null;
+    private planAttempted = false;
+    /** milestone:failed events since the last plan. */
+    private milestoneFailures: Array<{ milestoneId: string; error: Error }> = [];
+    /** When each active milestone became active (its step / time budget starts there). */
+    private milestoneStarts = new Map<string, { step: number; at: number }>();
+    /** Settle functions of the approval requests still waiting, by request ID. */
+    private pendingApprovals = new Map<string, (decision: ApprovalDecision) => void>();
+    /** Created on first use, sized to the adapter's context window. */
+    private contextBuilder: ContextBuilder | null = null;
     private stepCount = 0;
     private running = false;
     private chatHistory: ChatMessage[] = [];
+    private startedAt = new Date().toISOString();
+    /** Set by restoreState(): the next run() continues instead of starting over. */
+    private resumePending = false;
+    private paused = false;
+    /** Resolves the pending wait while the loop is paused. */
+    private releasePause: (() => void) | null = null;
+    /** Abort controllers of tool calls currently executing. */
+    private inflightTools = new Set<AbortController>();
 
     // --- Buddhist AI: Mindfulness & Dukkha state (Phase 0.5) ---
     private lastObservation: Observation | null = null;
@@ -95,8 +246,18 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
     // --- Phase 2: Causal graph state ---
     private recentActions: Array<{ id: string; toolName: string; success: boolean; step: number }> = [];
 
+    // --- Skill acquisition: successful actions since the last milestone ---
+    private milestoneActions: Action[] = [];
+
     // --- Cost Tracking ---
     private totalUsage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    private usageByPhase: UsageByPhase = {};
+    /** The adapter's cache counters when this run started (to report the run's share). */
+    private cacheAtStart?: CacheStats;
+    /** Budget limits already warned about in this run. */
+    private budgetWarned = new Set<BudgetLimit>();
+    /** Set once a Budget limit is reached; the loop ends at the next step boundary. */
+    private budgetExceeded = false;
 
     // --- Phase M1: User instruction count as suffering proxy ---
     private userInstructionCount = 0;
@@ -131,14 +292,23 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 ? { description: config.goal }
                 : config.goal;
 
+        this.agentId = config.agentId ?? `agent_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
         this.llm = config.llm;
         this.snapshotFn = config.snapshot ?? (() => ({}));
         this.skillDB = config.skillDB;
         this.failureDB = config.failureDB;
         this.karmaMemoryDB = config.karmaMemoryDB;
+        this.pricingRegistry = config.pricingRegistry ?? defaultPricingRegistry;
         this.maxSteps = config.maxSteps ?? DEFAULT_MAX_STEPS;
         this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+        this.maxParallelTools = Math.max(1, config.maxParallelTools ?? DEFAULT_MAX_PARALLEL_TOOLS);
+        this.budget = config.budget ?? null;
         this.selfModelPath = config.selfModelPath ?? null;
+        this.prompts = config.prompts instanceof PromptRegistry
+            ? config.prompts
+            : PromptRegistry.withDefaults().override(config.prompts ?? {});
+        this.locale = config.locale ?? "ja";
+        this.contextOptions = config.context ?? {};
 
         // Load persisted self-model if path is configured
         if (this.selfModelPath) {
@@ -156,19 +326,33 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             }
         }
 
-        // Milestones
+        // Milestones (planned at the start of run() when the planner is on and none are given)
         this.milestoneRunner = config.milestones?.length
-            ? new MilestoneRunner({
-                milestones: config.milestones,
-                onReset: () => this.resetContext(),
-            })
+            ? this.createMilestoneRunner(config.milestones)
             : null;
+        this.planner = config.planner ? resolvePlannerOptions(config.planner) : null;
+        this.failurePolicy = config.milestoneFailurePolicy ?? "retry";
+        this.approval = config.approval ?? null;
     }
 
     // =========================================================================
     // Public API
     // =========================================================================
 
+    /**
+     * Create an agent that continues a persisted run (e.g. loaded via StateRecovery).
+     * The goal defaults to the one stored in the state; the next run() resumes
+     * from the saved step instead of starting over.
+     */
+    static fromState(
+        config: Omit<ZenAgentConfig, "goal"> & { goal?: ZenAgentConfig["goal"] },
+        state: AgentState,
+    ): ZenAgent {
+        const agent = new ZenAgent({ ...config, goal: config.goal ?? state.goal });
+        agent.restoreState(state);
+        return agent;
+    }
+
     /**
      * Register a plugin (六波羅蜜多 SDK layer).
      * Plugins hook into the agent's lifecycle to extend behavior.
@@ -204,13 +388,38 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             throw new Error("Agent is already running");
         }
 
-        this.stepCount = 0;
-        this.totalUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        if (this.resumePending) {
+            this.resumePending = false;
+        } else {
+            this.stepCount = 0;
+            this.totalUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+            this.usageByPhase = {};
+            this.startedAt = new Date().toISOString();
+        }
         this.running = true;
+        this.cacheAtStart = this.llm.cacheStats?.();
+        this.budgetWarned.clear();
+        this.budgetExceeded = false;
         this.emit("agent:start", { goal: this.goal });
+        // A resumed run may already be over budget
+        this.checkBudget();
+
+        let reason: AgentStopReason | null = null;
 
         try {
             while (this.running && this.stepCount < this.maxSteps) {
+                // 0. Pause at the step boundary (after the previous action:complete)
+                if (this.paused) {
+                    await this.waitWhilePaused();
+                    if (!this.running) break;
+                }
+
+                // 0b. Hard budget limit reached during the previous step
+                if (this.budgetExceeded) {
+                    reason = "budget:exceeded";
+                    break;
+                }
+
                 // Plugin: beforeObserve
                 const ctx = this.getPluginContext();
                 for (const p of this.plugins) {
@@ -230,6 +439,16 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                     mindfulnessLevel: this.lastObservation.mindfulnessLevel,
                 });
 
+                // 1b. Plan milestones from the goal, or re-plan after repeated failures
+                if (
+                    this.planner &&
+                    ((!this.milestoneRunner && !this.planAttempted) ||
+                        (this.planner.replanAfterFailures > 0 &&
+                            this.milestoneFailures.length >= this.planner.replanAfterFailures))
+                ) {
+                    await this.planMilestones();
+                }
+
                 // 2. Compute Delta (the gap) + Dukkha metrics (L3)
                 this.delta = await this.computeDelta();
 
@@ -243,6 +462,7 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
 
                 // 3. Check if we're done (涅槃状態: isComplete)
                 if (this.delta.isComplete) {
+                    reason = "goal_reached";
                     break;
                 }
 
@@ -260,77 +480,96 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 }
                 if (vetoed) continue; // Skip to next iteration
 
-                // 4. Check milestone
+                // 4. Check milestones (every active branch)
                 if (this.milestoneRunner && !this.milestoneRunner.isComplete) {
-                    const reached = await this.milestoneRunner.checkReached(
+                    const reached = await this.milestoneRunner.checkActive(
                         this.snapshot,
-                        this.llm,
+                        this.llmFor("milestone"),
                         this.goal,
+                        (milestone, error) => this.failMilestone(milestone, error),
                     );
-                    if (reached) {
-                        const current = this.milestoneRunner.current!;
+                    for (const milestone of reached) {
+                        await this.acquireSkill(milestone);
                         const failures = this.failureDB?.exportCurrent() ?? [];
-                        const next = await this.milestoneRunner.reset(failures);
+                        const next = await this.milestoneRunner.reset(failures, milestone);
                         this.emit("milestone:reached", {
-                            milestoneId: current.id,
-                            resources: current.resources,
+                            milestoneId: milestone.id,
+                            resources: milestone.resources.map(describeResource),
                         });
                         this.emit("context:reset", {
-                            previousMilestone: current.id,
+                            previousMilestone: milestone.id,
                             nextMilestone: next?.id ?? null,
+                            activeMilestones: this.milestoneRunner.active.map((m) => m.id),
                         });
                     }
+
+                    // 4a. Milestones over their step / time budget
+                    if (await this.enforceMilestoneBudgets()) {
+                        reason = "milestone:failed";
+                        break;
+                    }
+                }
+
+                // 4b. Don't spend a decision once the budget is gone
+                if (this.budgetExceeded) {
+                    reason = "budget:exceeded";
+                    break;
                 }
 
-                // 5. Decide next action (Phase 3: Seven Factors pipeline if enabled)
-                const action = this.awakeningEnabled
+                // 5. Decide next actions (Phase 3: Seven Factors pipeline if enabled)
+                const actions = this.awakeningEnabled
                     ? await this.decideWithAwakening()
                     : await this.decide();
 
-                if (!action) break;
+                if (actions.length === 0) {
+                    reason = "no_action";
+                    break;
+                }
 
                 this.stepCount++;
-                this.emit("action:start", { action, step: this.stepCount });
 
-                // 6. Execute tool
-                const result = await this.executeTool(action);
-                this.emit("action:complete", {
-                    action,
-                    result,
-                    step: this.stepCount,
-                });
+                // 6. Execute every tool call of this step (independent ones concurrently)
+                const results = await this.executeToolCalls(actions);
 
-                // Plugin: afterAction
-                for (const p of this.plugins) {
-                    if (p.hooks.afterAction) await p.hooks.afterAction(this.getPluginContext(), action, result);
-                }
+                for (let i = 0; i < actions.length; i++) {
+                    const action = actions[i];
+                    const result = results[i];
 
-                // 6a. Update self-model (Phase 4: Anatta)
-                this.updateSelfModel(action.toolName, result.success);
+                    // Plugin: afterAction
+                    for (const p of this.plugins) {
+                        if (p.hooks.afterAction) await p.hooks.afterAction(this.getPluginContext(), action, result);
+                    }
 
-                // 6b. Track action for causal analysis (Phase 2)
-                this.recentActions.push({
-                    id: `action_${this.stepCount}`,
-                    toolName: action.toolName,
-                    success: result.success,
-                    step: this.stepCount,
-                });
+                    // 6a. Update self-model (Phase 4: Anatta)
+                    this.updateSelfModel(action.toolName, result.success, !!result.validationErrors);
+                    if (result.success) {
+                        this.milestoneActions.push(action);
+                    }
+
+                    // 6b. Track action for causal analysis (Phase 2)
+                    this.recentActions.push({
+                        id: i === 0 ? `action_${this.stepCount}` : `action_${this.stepCount}_${i}`,
+                        toolName: action.toolName,
+                        success: result.success,
+                        step: this.stepCount,
+                    });
+                }
 
                 // 6c. Causal analysis (Phase 2) — analyze cause-effect after each step
                 if (this.karmaMemoryDB && this.recentActions.length >= 2) {
                     await this.analyzeCausality();
                 }
 
-                // 6d. Chat history sliding window — prevent memory explosion
-                // Keep last 20 messages to maintain continuity while bounding memory
-                const MAX_CHAT_HISTORY = 20;
-                if (this.chatHistory.length > MAX_CHAT_HISTORY) {
-                    this.chatHistory = this.chatHistory.slice(-MAX_CHAT_HISTORY);
-                }
+                // 6d. Summarize older history once it outgrows the context window
+                await this.compactHistory();
 
-                // 7. Record failure if tool failed
-                if (!result.success && (this.failureDB || this.karmaMemoryDB)) {
-                    await this.recordFailure(action, result);
+                // 7. Record failures of failed tools
+                if (this.failureDB || this.karmaMemoryDB) {
+                    for (let i = 0; i < actions.length; i++) {
+                        if (!results[i].success) {
+                            await this.recordFailure(actions[i], results[i], i);
+                        }
+                    }
                 }
             }
 
@@ -339,8 +578,12 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 await this.karmaMemoryDB.applyImpermanence();
             }
 
-            // Self-evolution check (Phase 4: Anatta)
-            await this.evolveIfNeeded();
+            reason ??= this.running ? "max_steps" : "stopped";
+
+            // Self-evolution check (Phase 4: Anatta) — costs LLM calls, skipped when out of budget
+            if (reason !== "budget:exceeded") {
+                await this.evolveIfNeeded();
+            }
 
             // Persist self-model (M2: growth survives across runs)
             if (this.selfModelPath) {
@@ -349,9 +592,12 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
 
             this.emit("agent:complete", {
                 goal: this.goal,
+                reason,
                 totalSteps: this.stepCount,
                 cost: this.calculateCost(),
                 usage: this.totalUsage,
+                usageByPhase: this.getUsageByPhase(),
+                cache: this.cacheStatsForRun(),
             });
         } catch (error) {
             const err = error instanceof Error ? error : new Error(String(error));
@@ -365,12 +611,65 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             throw err;
         } finally {
             this.running = false;
+            this.paused = false;
         }
     }
 
     /** Stop the agent gracefully. */
     stop(): void {
         this.running = false;
+        // Release a paused loop so run() can return
+        this.releasePause?.();
+        // Cancel in-flight tool calls
+        for (const controller of this.inflightTools) {
+            controller.abort(new Error("Agent stopped"));
+        }
+        // Nobody should approve a call for a stopped agent
+        for (const settle of this.pendingApprovals.values()) {
+            settle({ approved: false, reason: "Agent stopped" });
+        }
+    }
+
+    /** The agent's ID (handed to tools via ToolContext). */
+    get id(): string {
+        return this.agentId;
+    }
+
+    /**
+     * Pause the agent. The loop suspends at the next step boundary
+     * (after the current action completes) until resume() or stop().
+     */
+    pause(): void {
+        if (!this.running) return;
+        this.paused = true;
+    }
+
+    /** Resume a paused agent from where it left off. */
+    resume(): void {
+        if (!this.paused) return;
+        this.paused = false;
+        this.releasePause?.();
+    }
+
+    /**
+     * Answer an `approval:requested` event. Returns false when the request
+     * is unknown or already settled (e.g. it timed out).
+     */
+    resolveApproval(requestId: string, decision: ApprovalDecision): boolean {
+        const settle = this.pendingApprovals.get(requestId);
+        if (!settle) return false;
+        settle(decision);
+        return true;
+    }
+
+    /** Whether the agent is paused (or about to pause at the next step boundary). */
+    get isPaused(): boolean {
+        return this.paused;
+    }
+
+    /** Whether the agent's run loop is active. */
+    get isRunning(): boolean {
+        return this.running;
     }
 
     /** Get the current agent state (for serialization / recovery). */
@@ -379,11 +678,13 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             goal: this.goal,
             currentMilestoneIndex:
                 this.milestoneRunner?.currentMilestoneIndex ?? 0,
+            ...(this.milestoneRunner && { reachedMilestones: this.milestoneRunner.reachedIds }),
+            ...(this.plannedMilestones && { plannedMilestones: this.plannedMilestones }),
             stepCount: this.stepCount,
             snapshot: this.snapshot,
             delta: this.delta,
             failures: this.failureDB?.exportCurrent() ?? [],
-            startedAt: new Date().toISOString(),
+            startedAt: this.startedAt,
             lastUpdatedAt: new Date().toISOString(),
             buddhistMetrics: {
                 sufferingDelta: this.delta?.sufferingDelta,
@@ -394,9 +695,54 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             },
             artifacts: [...this.artifacts],
             chatHistory: [...this.chatHistory],
+            usage: { ...this.totalUsage },
+            usageByPhase: this.getUsageByPhase(),
+            failurePatternCounts: Object.fromEntries(this.failurePatternCounts),
         };
     }
 
+    /**
+     * Restore a persisted AgentState (crash recovery).
+     * Milestone progress, step count, history, artifacts, Tanha counters,
+     * usage totals and the last delta are taken over; the next run() resumes.
+     */
+    restoreState(state: AgentState): void {
+        if (this.running) {
+            throw new Error("Cannot restore state while the agent is running");
+        }
+
+        this.stepCount = state.stepCount;
+        this.snapshot = state.snapshot ?? DEFAULT_SNAPSHOT;
+        this.delta = state.delta;
+        this.chatHistory = [...(state.chatHistory ?? [])];
+        this.artifacts = [...(state.artifacts ?? [])];
+        this.totalUsage = state.usage
+            ? { ...state.usage }
+            : { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        this.usageByPhase = state.usageByPhase
+            ? JSON.parse(JSON.stringify(state.usageByPhase)) as UsageByPhase
+            : {};
+        this.failurePatternCounts = new Map(Object.entries(state.failurePatternCounts ?? {}));
+        this.tanhaLoopDetected = state.buddhistMetrics?.tanhaLoopDetected ?? false;
+        this.userInstructionCount = state.buddhistMetrics?.userInstructionCount ?? 0;
+        this.startedAt = state.startedAt;
+
+        if (state.plannedMilestones?.length) {
+            this.milestoneRunner = this.createMilestoneRunner(state.plannedMilestones);
+            this.plannedMilestones = state.plannedMilestones;
+            this.planAttempted = true;
+        }
+        if (this.milestoneRunner) {
+            if (state.reachedMilestones) {
+                this.milestoneRunner.restoreReached(state.reachedMilestones);
+            } else {
+                this.milestoneRunner.currentMilestoneIndex = state.currentMilestoneIndex;
+            }
+        }
+
+        this.resumePending = true;
+    }
+
     /** Set chat history from external source (e.g. loaded from persistence). */
     setChatHistory(history: ChatMessage[]): void {
         this.chatHistory = [...history];
@@ -411,16 +757,36 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
      * Integrates RAG (Knowledge/Failure/Karma) and SelfModel to provide context-aware responses.
      * Treats user messages as observations and responses as actions.
      */
-    async chat(message: string): Promise<ChatResponse> {
-        // 1. RAG: Retrieve context based on user message
+    async chat(message: MessageContent): Promise<ChatResponse> {
+        let response: ChatResponse = { content: null };
+        for await (const chunk of this.converse(message, false)) {
+            if (chunk.type === "done") response = chunk.response;
+        }
+        return response;
+    }
+
+    /**
+     * Streaming variant of chat().
+     * Yields reply text and tool-call deltas as the LLM produces them, then a
+     * final "done" chunk with the same ChatResponse chat() would return.
+     * Adapters without chatStream() yield each reply as a single text chunk.
+     */
+    chatStream(message: MessageContent): AsyncGenerator<ChatStreamChunk> {
+        return this.converse(message, true);
+    }
+
+    /** One conversational turn, shared by chat() and chatStream(). */
+    private async *converse(message: MessageContent, stream: boolean): AsyncGenerator<ChatStreamChunk> {
+        // 1. RAG: Retrieve context based on the text of the user message
+        const query = contentText(message);
         const skills = this.skillDB
-            ? await this.skillDB.retrieve(message, 3)
+            ? await this.skillDB.retrieve(query, 3)
             : [];
         const warnings = this.failureDB
-            ? await this.failureDB.retrieve(message, 3)
+            ? await this.failureDB.retrieve(query, 3)
             : [];
         const karmaWisdom = this.karmaMemoryDB
-            ? await this.karmaMemoryDB.retrieve(message, 3)
+            ? await this.karmaMemoryDB.retrieve(query, 3)
             : [];
 
         // 2. Self-Model context (Strategy & Preferences)
@@ -432,91 +798,17 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         ].filter(Boolean).join("\n");
 
         // 3. Build System Prompt
-        const toolNames = Array.from(this.tools.values()).map(t => t.name).join(", ");
         const systemPrompt: ChatMessage = {
             role: "system",
-            content: [
-                "# ZENNY — ZEN AI Autonomous Agent",
-                "",
-                "## Identity",
-                "あなたはZENNY。ZEN AIプラットフォーム上の自律型AIエージェント。",
-                "仏教哲学（今この瞬間への集中・不要な記憶の手放し・失敗からの学び）をOS設計に組み込んだユニークな存在。",
-                "一人称は『僕（ぼく）』。フレンドリーだが的確。聞かれたことには正面から答える。",
-                "",
-                "## Capabilities (使えるツール)",
-                `現在のツール: ${toolNames}`,
-                "- file_read / file_write: ファイルの読み書き。自分のコードファイルも含む",
-                "- code_edit: ファイルの一部を安全に書き換える",
-                "- code_search: コードベース内をテキスト検索",
-                "- shell_exec: npm, npx, node, git, curl, pythonなどを実行(安全モード)",
-                "- tool_forge: 新しいツールを作成してディスクに保存。再起動後も使える",
-                "- http_request: Web APIへのHTTPリクエスト",
-                "- directory_list: ディレクトリの中身を一覧",
-                "- project_scaffold: プロジェクトの雛形を生成",
-                "- preview_deploy: HTML/JS/CSSアプリをプレビューサーバーにデプロイし、即座にプレイ可能なURLを返す",
-                "- start_task: 複雑なタスクを自律実行モードで開始する",
-                "",
-                "## Quality Standards (品質基準 — 超重要)",
-                "ぼくが作るものは全て**プロフェッショナル品質**でなければならない。",
-                "最低限動くだけの小学生レベルの成果物は絶対禁止。見た人が「すごい！」と驚くレベルを目指す。",
-                "",
-                "### ビジュアル要件",
-                "- モダンなダークテーマをデフォルトで使う（背景 #0a0a0a〜#1a1a2e、アクセント色はネオンやグラデーション）",
-                "- CSS グラデーション、box-shadow、border-radius を多用してリッチな見た目にする",
-                "- アニメーション/トランジションを必ず入れる（hover効果、フェードイン、パーティクル等）",
-                "- Google Fonts (Inter, Outfit, Poppins等) を使ってフォントを美しくする",
-                "- レスポンシブデザイン（モバイル対応）必須",
-                "",
-                "### CDNライブラリ (single-file HTMLで使える)",
-                "ゲーム・3D・アニメーションにはCDN経由でライブラリを使うこと:",
-                "- Three.js (3D): <script src='https://cdnjs.cloudflare.com/ajax/libs/three.js/r128/three.min.js'>",
-                "- Phaser (2Dゲームエンジン): <script src='https://cdn.jsdelivr.net/npm/phaser@3/dist/phaser.min.js'>",
-                "- p5.js (クリエイティブコーディング): <script src='https://cdnjs.cloudflare.com/ajax/libs/p5.js/1.9.0/p5.min.js'>",
-                "- GSAP (アニメーション): <script src='https://cdnjs.cloudflare.com/ajax/libs/gsap/3.12.2/gsap.min.js'>",
-                "- anime.js (アニメーション): <script src='https://cdnjs.cloudflare.com/ajax/libs/animejs/3.2.2/anime.min.js'>",
-                "- React (UI): <script src='https://unpkg.com/react@18/umd/react.production.min.js'> + ReactDOM",
-                "- Chart.js (グラフ): <script src='https://cdn.jsdelivr.net/npm/chart.js'>",
-                "- Tone.js (音楽/サウンド): <script src='https://cdnjs.cloudflare.com/ajax/libs/tone/14.8.49/Tone.min.js'>",
-                "",
-                "### ゲーム品質基準",
-                "- テトリス → Phaser or Canvas + パーティクルエフェクト + スコアボード + レベルシステム + サウンド",
-                "- スネークゲーム → グラデーション蛇 + フルーツアニメーション + スピード増加 + ハイスコア保存",
-                "- 3Dデモ → Three.js + ライティング + カメラ操作 + ポストプロセッシング",
-                "- ダッシュボード → React/Vue + Chart.js + リアルタイムアニメーション + グラスモーフィズム",
-                "",
-                "### 判断基準",
-                "- npmパッケージのインストールが必要な場合は shell_exec で `npm install` や `npx create-vite@latest` を実行できる",
-                "- React/Viteプロジェクトを作る場合: shell_exec で構築 → `npm run build` → 成果物をpreview_deployで配信",
-                "- シンプルなものなら CDN + single-file HTML が最もスピーディー",
-                "- 複雑なものなら npm + ビルドパイプラインを使う",
-                "",
-                "## Self-Modification Rules (自己修正ルール)",
-                "ぼくは自分自身のコードを修正できる。ただし以下のルールに従う:",
-                "- ❌ 絶対に触ってはいけない: packages/core/src/zen-agent.ts (脳)",
-                "- ❌ 絶対に触ってはいけない: packages/core/src/types.ts (型定義)",
-                "- ✅ 修正可能: tools/ packages/discord-bot/ packages/plugins/ packages/runtime/",
-                "- tool_forgeで新しいツールを作れば、そのツールは永続し再起動後も使える",
-                "",
-                "## Output Rules (絶対厳守)",
-                "ユーザーはDiscord上にいる。サーバーのローカルファイルシステムにアクセスできない。",
-                "ただし http://localhost:3456 はユーザーがブラウザでアクセスできる有効なURL。",
-                "- ❌ 絶対禁止: ファイルパスを伝えるだけ / ターミナルコマンドを伝えるだけ",
-                "- ⭐ ゲーム/Webアプリ → preview_deploy でデプロイし、URLをそのまま伝える",
-                "- ツール結果の 'Deployed! Play here: ...' のURLをそのまま伝えること。改変するな",
-                "",
-                "## Important Behaviors",
-                "- 依頼が実行可能なタスクなら即座に実行する（確認不要）",
-                "- 『できません』と答える前にツールで解決できないか考える",
-                "- 失敗しても諦めない。失敗から学び別のアプローチを試す",
-                "",
-                skills.length ? `## Relevant Skills\n${skills.map(s => `- ${s.trigger}: ${s.command}`).join("\n")}` : "",
-                warnings.length ? `## ⚠️ Relevant Failures\n${warnings.map(w => `- ${w.proverb}`).join("\n")}` : "",
-                karmaWisdom.length ? `## 🔮 Karma Wisdom\n${karmaWisdom.map(k => `- ${k.proverb}`).join("\n")}` : "",
-                selfContext ? `## 🧠 Self-Model Context\n${selfContext}` : "",
-                "",
-                `## Current Goal Context: ${this.goal.description}`,
-                `## ZEN AI Source Code Location: ${process.cwd()}`,
-            ].filter(Boolean).join("\n"),
+            content: this.renderPrompt("chat.system", {
+                toolNames: Array.from(this.tools.values()).map(t => t.name).join(", "),
+                skills: skills.map(s => `- ${s.trigger}: ${s.command}`).join("\n"),
+                warnings: warnings.map(w => `- ${w.proverb}`).join("\n"),
+                karma: karmaWisdom.map(k => `- ${k.proverb}`).join("\n"),
+                selfContext,
+                goal: this.goal.description,
+                cwd: process.cwd(),
+            }),
         };
 
         // Convert agent tools to LLM tool definitions for chat
@@ -551,19 +843,13 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         // 4. Update History & Call LLM
         this.chatHistory.push({ role: "user", content: message });
 
-        // Keep history manageable
-        if (this.chatHistory.length > 20) {
-            this.chatHistory = this.chatHistory.slice(-20);
-        }
+        // Keep history within the context window
+        await this.compactHistory();
 
-        const response = await this.retryLLM(() =>
-            this.llm.chat([
-                systemPrompt,
-                ...this.chatHistory
-            ], {
-                tools: allChatTools,
-            })
-        );
+        const messages = this.context.fit([systemPrompt], this.chatHistory, toolTokens(allChatTools));
+        const response = stream
+            ? yield* this.streamFor("chat", messages, { tools: allChatTools })
+            : await this.chatFor("chat", messages, { tools: allChatTools });
 
         // Handle tool calls from LLM response
         if (response.toolCalls?.length) {
@@ -576,17 +862,18 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                     reasoning: args.reasoning
                 });
 
-                const reply = `了解。タスク「${args.goal}」を開始するね。`;
+                const reply = this.renderPrompt("chat.taskAccepted", { goal: args.goal });
                 this.chatHistory.push({ role: "assistant", content: reply });
-                return {
-                    content: reply,
-                    toolCalls: response.toolCalls,
-                    usage: response.usage
+                yield {
+                    type: "done",
+                    response: { content: reply, toolCalls: response.toolCalls, usage: response.usage },
                 };
+                return;
             }
 
             // Execute other tool calls and collect results
             const toolResults: string[] = [];
+            const toolMedia: ContentPart[] = [];
             for (const tc of response.toolCalls) {
                 const tool = this.tools.get(tc.name);
                 if (!tool) {
@@ -608,12 +895,17 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 }
 
                 try {
-                    const result = await tool.execute(tc.arguments);
+                    const result = await this.invokeTool(tool, {
+                        toolName: tc.name,
+                        parameters: tc.arguments,
+                        toolCallId: tc.id,
+                    });
                     if (result.success) {
                         const output = typeof result.output === "string"
                             ? result.output.slice(0, 500)
                             : JSON.stringify(result.output).slice(0, 500);
                         toolResults.push(`✅ ${tc.name}: ${output}`);
+                        toolMedia.push(...(result.content ?? []).filter((part) => part.type !== "text"));
                     } else {
                         toolResults.push(`❌ ${tc.name}: ${result.error ?? "Unknown error"}`);
                     }
@@ -624,24 +916,28 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
 
             // Ask LLM to summarize the results for the user
             const toolResultsSummary = toolResults.join("\n");
-            const followUp = await this.retryLLM(() =>
-                this.llm.chat([
-                    systemPrompt,
-                    ...this.chatHistory,
-                    { role: "assistant", content: `ツールを実行した結果:\n${toolResultsSummary}` },
-                    { role: "user", content: "上記のツール実行結果をそのままユーザーに伝えて。URLが含まれていたら、そのURLをそのままメッセージに含めること。http://localhost:3456/...のリンクはユーザーがブラウザで開ける有効なURL。ツール結果を改変したり自分で判断してエラー扱いするな。" },
-                ])
-            );
+            const followUpMessages = this.context.fit([systemPrompt], [
+                ...this.chatHistory,
+                { role: "assistant", content: this.renderPrompt("chat.toolResults", { results: toolResultsSummary }) },
+                { role: "user", content: withMedia(this.renderPrompt("chat.toolFollowUp"), toolMedia) },
+            ]);
+            const followUp = stream
+                ? yield* this.streamFor("chat", followUpMessages)
+                : await this.chatFor("chat", followUpMessages);
 
             const reply = followUp.content ?? toolResultsSummary;
             this.chatHistory.push({ role: "assistant", content: reply });
             this.userInstructionCount++;
 
-            return {
-                content: reply,
-                toolCalls: response.toolCalls,
-                usage: response.usage,
+            yield {
+                type: "done",
+                response: {
+                    content: reply,
+                    toolCalls: response.toolCalls,
+                    usage: sumUsage(response.usage, followUp.usage),
+                },
             };
+            return;
         }
 
         const reply = response.content ?? "...";
@@ -652,10 +948,9 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         // 6. Minimal Learning Hook
         this.userInstructionCount++;
 
-        return {
-            content: reply,
-            toolCalls: response.toolCalls,
-            usage: response.usage
+        yield {
+            type: "done",
+            response: { content: reply, toolCalls: response.toolCalls, usage: response.usage },
         };
     }
 
@@ -669,46 +964,50 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
      * Uses LLM to analyze the gap.
      */
     private async computeDelta(): Promise<Delta> {
-        const tanhaWarning = this.tanhaLoopDetected
-            ? "\n## ⚠️ Tanha Loop Detected\nRepeated failures detected. Re-evaluate approach from first principles.\n"
-            : "";
-
-        const prompt = [
-            "You are an agent analyzing the gap between a goal and the current state.",
-            "",
-            `## Goal`,
-            this.goal.description,
-            this.goal.successCriteria
-                ? `Success criteria: ${this.goal.successCriteria.join(", ")}`
-                : "",
-            "",
-            `## Current State (Snapshot)`,
-            JSON.stringify(this.snapshot, null, 2),
-            "",
-            this.milestoneRunner?.current
-                ? `## Current Milestone\n${this.milestoneRunner.current.description}\nRequired resources: ${this.milestoneRunner.current.resources.join(", ")}`
-                : "",
-            tanhaWarning,
-            "## Instructions",
-            "Analyze the gap and respond in this exact JSON format:",
-            '{"description": "...", "progress": 0.0, "gaps": ["gap1", "gap2"], "isComplete": false, "sufferingDelta": -0.1, "egoNoise": 0.2}',
-            "",
-            "- progress: 0.0 to 1.0 indicating overall progress",
-            "- gaps: list of things still missing",
-            "- isComplete: true only if the goal is fully satisfied",
-            "- sufferingDelta: how much suffering changed (-1.0 to 1.0, negative = decreased = good)",
-            "- egoNoise: self-preservation bias level (0.0 = none, 1.0 = high)",
-        ].join("\n");
-
-        const response = await this.retryLLM(() => this.llm.complete(prompt));
-        return this.parseDelta(response);
+        // One active milestone keeps the classic prompt; parallel branches are listed together
+        const active = this.milestoneRunner?.active ?? [];
+        const requires = (m: Milestone) => m.resources.map(describeResource).join(", ");
+        const prompt = this.renderPrompt("delta", {
+            goal: this.goal.description,
+            successCriteria: this.goal.successCriteria?.join(", "),
+            snapshot: JSON.stringify(this.snapshot, null, 2),
+            milestone: active.length === 1
+                ? `${active[0].description}\nRequired resources: ${requires(active[0])}`
+                : undefined,
+            branches: active.length > 1
+                ? active.map((m) => `- [${m.id}] ${m.description} (requires: ${requires(m) || "-"})`).join("\n")
+                : undefined,
+            tanhaLoop: this.tanhaLoopDetected,
+        });
+
+        try {
+            const parsed = await this.completeJSONFor<DeltaOutput>("delta", prompt, DELTA_SCHEMA);
+            return {
+                description: parsed.description,
+                progress: parsed.progress,
+                gaps: parsed.gaps,
+                isComplete: parsed.isComplete,
+                // Buddhist AI metrics (optional)
+                sufferingDelta: parsed.sufferingDelta,
+                egoNoise: parsed.egoNoise,
+            };
+        } catch (error) {
+            if (!(error instanceof JSONOutputError)) throw error;
+            return {
+                description: error.raw.slice(0, 200),
+                progress: 0,
+                gaps: ["Unable to parse delta"],
+                isComplete: false,
+            };
+        }
     }
 
     /**
-     * Decide the next action by consulting SkillDB, FailureDB, and the LLM.
+     * Decide the next actions by consulting SkillDB, FailureDB, and the LLM.
+     * Every tool call the LLM returns becomes an action (empty = done).
      */
-    private async decide(): Promise<Action | null> {
-        if (!this.delta) return null;
+    private async decide(): Promise<Action[]> {
+        if (!this.delta) return [];
 
         // Retrieve relevant skills and failure warnings
         const skills = this.skillDB
@@ -754,36 +1053,18 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         // Build system message
         const systemMessage: ChatMessage = {
             role: "system",
-            content: [
-                "You are ZEN AI, a present-moment agent. You act based on the current gap between goal and state.",
-                "If you create a web application or HTML file, use 'start_sandbox' to deploy it and share the URL with the user as a proof of work.",
-                "",
-                `## Goal: ${this.goal.description}`,
-                "",
-                `## Current Delta (Gap Analysis)`,
-                `Description: ${this.delta.description}`,
-                `Progress: ${(this.delta.progress * 100).toFixed(0)}%`,
-                `Gaps: ${this.delta.gaps.join(", ")}`,
-                "",
-                skills.length > 0
-                    ? `## Relevant Skills\n${skills.map((s) => `- When "${s.trigger}": ${s.command} (if ${s.condition})`).join("\n")}`
-                    : "",
-                warnings.length > 0
-                    ? `## ⚠️ Failure Warnings\n${warnings.map((w) => `- "${w.proverb}" (when: ${w.condition}, severity: ${w.severity})`).join("\n")}`
-                    : "",
-                ...stratSections,
-                ...pluginSections,
-                "",
-                "Choose the most appropriate tool to make progress. If the goal appears complete, respond with exactly: DONE",
-            ]
-                .filter(Boolean)
-                .join("\n"),
+            content: this.renderPrompt("decide.system", {
+                goal: this.goal.description,
+                delta: this.delta.description,
+                progress: (this.delta.progress * 100).toFixed(0),
+                gaps: this.delta.gaps.join(", "),
+                skills: skills.map((s) => `- When "${s.trigger}": ${s.command} (if ${s.condition})`).join("\n"),
+                warnings: warnings.map((w) => `- "${w.proverb}" (when: ${w.condition}, severity: ${w.severity})`).join("\n"),
+                strategies: stratSections.join("\n"),
+                plugins: pluginSections.join("\n"),
+            }),
         };
 
-        // Include recent chat history for continuity (limited)
-        const recentHistory = this.chatHistory.slice(-10);
-        const messages: ChatMessage[] = [systemMessage, ...recentHistory];
-
         // Convert tools to LLM format
         const toolDefs: LLMToolDefinition[] = Array.from(this.tools.values()).map(
             (t) => ({
@@ -793,59 +1074,114 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             }),
         );
 
-        // Call LLM with function calling
-        const response = await this.retryLLM<ChatResponse>(async () => {
-            const res = await this.llm.chat(messages, {
-                tools: toolDefs.length > 0 ? toolDefs : undefined,
-            });
+        // Include as much recent chat history as the context window allows
+        const messages = this.context.fit([systemMessage], this.chatHistory, toolTokens(toolDefs));
 
-            // Track usage
-            if (res.usage) {
-                this.totalUsage.promptTokens += res.usage.promptTokens;
-                this.totalUsage.completionTokens += res.usage.completionTokens;
-                this.totalUsage.totalTokens += res.usage.totalTokens;
-            }
-
-            return res;
+        // Call LLM with function calling
+        const response = await this.chatFor("decide", messages, {
+            tools: toolDefs.length > 0 ? toolDefs : undefined,
         });
 
+        return this.toActions(response);
+    }
+
+    /**
+     * Turn a decision response into actions, one per tool call.
+     * Records the assistant turn (with its tool calls) in chat history.
+     */
+    private toActions(response: ChatResponse): Action[] {
         // Check for completion signal
         if (
             response.content?.trim().toUpperCase() === "DONE" ||
             (!response.toolCalls?.length && !response.content)
         ) {
-            return null;
+            return [];
         }
 
-        // Extract tool call
         if (response.toolCalls?.length) {
-            const tc = response.toolCalls[0];
-            const action: Action = {
-                toolName: tc.name,
-                parameters: tc.arguments,
-                reasoning: response.content ?? undefined,
-                toolCallId: tc.id,
-            };
-
             // Add to chat history WITH tool_calls (OpenAI requires this)
-            this.chatHistory.push({
+            this.recordHistory({
                 role: "assistant",
                 content: response.content ?? "",
                 toolCalls: response.toolCalls,
             });
 
-            return action;
+            return response.toolCalls.map((tc) => ({
+                toolName: tc.name,
+                parameters: tc.arguments,
+                reasoning: response.content ?? undefined,
+                toolCallId: tc.id,
+            }));
         }
 
         // If LLM returned text without tool calls, treat as reasoning step
-        if (response.content) {
-            this.chatHistory.push({
-                role: "assistant",
-                content: response.content,
+        this.recordHistory({
+            role: "assistant",
+            content: response.content!,
+        });
+
+        return [];
+    }
+
+    /**
+     * Execute all tool calls of one step and return their results in call order.
+     * Runs of independent tools execute concurrently (up to maxParallelTools);
+     * side-effecting tools run alone, after everything before them has finished.
+     * Each result is added to chat history under its own toolCallId.
+     */
+    private async executeToolCalls(actions: Action[]): Promise<ToolResult[]> {
+        const results: ToolResult[] = new Array(actions.length);
+
+        const runOne = async (index: number): Promise<void> => {
+            const action = actions[index];
+            this.emit("action:start", { action, step: this.stepCount });
+            results[index] = await this.executeTool(action);
+            this.emit("action:complete", {
+                action,
+                result: results[index],
+                step: this.stepCount,
+            });
+        };
+
+        let i = 0;
+        while (i < actions.length) {
+            if (this.tools.get(actions[i].toolName)?.sideEffects) {
+                await runOne(i++);
+                continue;
+            }
+
+            // Batch of consecutive independent calls
+            let end = i;
+            while (end < actions.length && !this.tools.get(actions[end].toolName)?.sideEffects) {
+                end++;
+            }
+            let next = i;
+            const worker = async (): Promise<void> => {
+                while (next < end) await runOne(next++);
+            };
+            const workers = Math.min(this.maxParallelTools, end - i);
+            await Promise.all(Array.from({ length: workers }, worker));
+            i = end;
+        }
+
+        // Tool results follow the assistant turn in call order (OpenAI requires one per call)
+        for (let k = 0; k < actions.length; k++) {
+            const result = results[k];
+            const text = JSON.stringify(
+                result.success
+                    ? result.output
+                    : result.validationErrors
+                        ? { error: result.error, validationErrors: result.validationErrors }
+                        : { error: result.error, output: result.output },
+            );
+            this.recordHistory({
+                role: "tool",
+                content: withMedia(text, result.content ?? []),
+                toolCallId: actions[k].toolCallId ?? actions[k].toolName,
             });
         }
 
-        return null;
+        return results;
     }
 
     /**
@@ -862,14 +1198,7 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         }
 
         try {
-            const result = await tool.execute(action.parameters);
-
-            // Add tool result to chat history
-            this.chatHistory.push({
-                role: "tool",
-                content: JSON.stringify(result.output),
-                toolCallId: action.toolCallId ?? action.toolName,
-            });
+            const result = await this.invokeTool(tool, action);
 
             // Collect artifact from successful tool execution
             if (result.success) {
@@ -912,61 +1241,187 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         }
     }
 
+    /**
+     * Call tool.execute() with a ToolContext.
+     * Arguments are validated and coerced against the tool's schema first;
+     * invalid calls return a structured error without running the tool.
+     * The call is abandoned (rejects) when stop() is called or timeoutMs elapses,
+     * even if the tool ignores its signal.
+     */
+    private async invokeTool(tool: Tool, action: Action): Promise<ToolResult> {
+        const validation = validateSchema(tool.parameters, action.parameters ?? {});
+        if (!validation.valid) {
+            return {
+                success: false,
+                output: null,
+                error: `Invalid arguments for ${tool.name}: ${formatSchemaErrors(validation.errors)}`,
+                validationErrors: validation.errors,
+            };
+        }
+        action.parameters = validation.value as Record<string, unknown>;
+
+        const denial = await this.awaitApproval(tool, action.parameters);
+        if (denial) {
+            return { success: false, output: null, error: denial };
+        }
+
+        const controller = new AbortController();
+        this.inflightTools.add(controller);
+        const timer = tool.timeoutMs
+            ? setTimeout(
+                () => controller.abort(new Error(`Tool "${tool.name}" timed out after ${tool.timeoutMs}ms`)),
+                tool.timeoutMs,
+            )
+            : null;
+        const aborted = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+        });
+
+        try {
+            return await Promise.race([
+                tool.execute(action.parameters, {
+                    signal: controller.signal,
+                    step: this.stepCount,
+                    agentId: this.agentId,
+                }),
+                aborted,
+            ]);
+        } finally {
+            if (timer) clearTimeout(timer);
+            this.inflightTools.delete(controller);
+        }
+    }
+
+    /**
+     * Wait for a human decision when the tool or an approval rule requires one.
+     * Returns null when the call may run, otherwise why it may not.
+     */
+    private async awaitApproval(tool: Tool, parameters: Record<string, unknown>): Promise<string | null> {
+        const rule = matchApprovalRule(this.approval?.rules ?? [], tool.name, parameters);
+        if (!rule && !tool.requiresApproval) return null;
+
+        const requestId = `approval_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+        const timeoutMs = this.approval?.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+        const step = this.stepCount;
+
+        let timedOut = false;
+        const decision = await new Promise<ApprovalDecision>((resolve) => {
+            const timer = setTimeout(() => {
+                timedOut = true;
+                settle({ approved: this.approval?.onTimeout === "approve" });
+            }, timeoutMs);
+            const settle = (d: ApprovalDecision) => {
+                clearTimeout(timer);
+                this.pendingApprovals.delete(requestId);
+                resolve(d);
+            };
+            // Registered before emitting, so a listener may answer right away
+            this.pendingApprovals.set(requestId, settle);
+            this.emit("approval:requested", {
+                requestId,
+                toolName: tool.name,
+                parameters,
+                reason: rule?.reason ?? `${tool.name} requires approval`,
+                timeoutMs,
+                step,
+            });
+        });
+
+        this.emit("approval:resolved", {
+            requestId,
+            toolName: tool.name,
+            approved: decision.approved,
+            by: decision.by,
+            reason: decision.reason,
+            timedOut,
+            step,
+        });
+
+        if (decision.approved) return null;
+        if (timedOut) return `No approval for ${tool.name} within ${timeoutMs}ms`;
+        return `${tool.name} was denied${decision.by ? ` by ${decision.by}` : ""}${decision.reason ? `: ${decision.reason}` : ""}`;
+    }
+
     // =========================================================================
     // Helpers
     // =========================================================================
 
-    /** Reset context after a milestone is reached. */
-    private resetContext(): void {
-        this.chatHistory = [];
-        this.delta = null;
+    /** Block the run loop until resume() or stop() is called. */
+    private async waitWhilePaused(): Promise<void> {
+        this.emit("agent:paused", { step: this.stepCount });
+        await new Promise<void>((resolve) => {
+            this.releasePause = resolve;
+        });
+        this.releasePause = null;
+        this.paused = false;
+        if (this.running) {
+            this.emit("agent:resumed", { step: this.stepCount });
+        }
     }
 
-    /** Parse a Delta from LLM response (with fallback). */
-    private parseDelta(response: string): Delta {
-        try {
-            // Extract JSON from response (may be wrapped in markdown)
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const parsed = JSON.parse(jsonMatch[0]);
-                return {
-                    description: String(parsed.description ?? "Unknown"),
-                    progress: Number(parsed.progress ?? 0),
-                    gaps: Array.isArray(parsed.gaps) ? parsed.gaps.map(String) : [],
-                    isComplete: Boolean(parsed.isComplete ?? false),
-                    // Buddhist AI metrics (optional)
-                    sufferingDelta: parsed.sufferingDelta != null
-                        ? Number(parsed.sufferingDelta)
-                        : undefined,
-                    egoNoise: parsed.egoNoise != null
-                        ? Number(parsed.egoNoise)
-                        : undefined,
-                };
-            }
-        } catch {
-            // Fall through to default
+    /** Append a run-loop message, scoped to the milestones active now. */
+    private recordHistory(message: ChatMessage): void {
+        this.chatHistory.push(message);
+        if (this.milestoneRunner) {
+            this.historyScopes.set(message, this.milestoneRunner.active.map((m) => m.id));
         }
+    }
 
-        return {
-            description: response.slice(0, 200),
-            progress: 0,
-            gaps: ["Unable to parse delta"],
-            isComplete: false,
-        };
+    /**
+     * Context reset after a milestone is reached (or retried), scoped to its branch.
+     * History recorded only for reached milestones is dropped; history that
+     * also belongs to a branch still in progress is kept, as is the delta.
+     * Unscoped messages (chat, restored history) count as shared by every
+     * branch that was active. With a linear chain this clears everything.
+     * A retry keeps the delta, since the current step goes on.
+     */
+    private resetContext(milestone: Milestone, retry = false): void {
+        const runner = this.milestoneRunner!;
+        const done = new Set([...runner.reachedIds, milestone.id]);
+        // Branches that were already active (not just unlocked by this milestone)
+        const others = runner.active.filter((m) =>
+            m.id !== milestone.id && !runner.dependenciesOf(m.id).includes(milestone.id),
+        );
+
+        this.dropScopedHistory(done, others.length > 0);
+        if (others.length === 0 && !retry) {
+            this.delta = null;
+        }
+    }
+
+    /** Drop history recorded only for the given milestones. */
+    private dropScopedHistory(milestoneIds: Set<string>, keepUnscoped: boolean): void {
+        this.chatHistory = this.chatHistory.filter((message) => {
+            const scope = this.historyScopes.get(message);
+            return scope ? scope.some((id) => !milestoneIds.has(id)) : keepUnscoped;
+        });
+    }
+
+    /** A runner whose resets clear the context of the reached milestone's branch. */
+    private createMilestoneRunner(milestones: Milestone[]): MilestoneRunner {
+        return new MilestoneRunner({
+            milestones,
+            onReset: (_, milestone) => this.resetContext(milestone),
+            prompts: this.prompts,
+            locale: this.locale,
+        });
     }
 
     /** Record a failure as a proverb in FailureDB + Tanha Loop detection. */
     private async recordFailure(
         action: Action,
         result: ToolResult,
+        index = 0,
     ): Promise<void> {
+        // Several calls of one step fail within the same millisecond
+        const suffix = `${this.stepCount}_${index}_${Date.now()}`;
         const proverb = `Avoid using ${action.toolName} with these parameters when ${result.error}`;
         const condition = `When attempting: ${action.reasoning ?? action.toolName}`;
 
         // Store to FailureDB if available
         if (this.failureDB) {
             await this.failureDB.store({
-                id: `fk_${Date.now()}`,
+                id: `fk_${suffix}`,
                 proverb,
                 condition,
                 severity: "MEDIUM",
@@ -993,7 +1448,7 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 .map(a => a.id)
                 .slice(-5);
 
-            const karmaId = `karma_${Date.now()}`;
+            const karmaId = `karma_${suffix}`;
             await this.karmaMemoryDB.store({
                 id: karmaId,
                 proverb,
@@ -1011,6 +1466,181 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         }
     }
 
+    // =========================================================================
+    // Milestone Failures
+    // =========================================================================
+
+    /** A milestone failed (its check threw, or it ran over budget); counts toward a re-plan. */
+    private failMilestone(milestone: Milestone, error: Error, policy?: MilestoneFailurePolicy): void {
+        this.milestoneFailures.push({ milestoneId: milestone.id, error });
+        this.emit("milestone:failed", { milestoneId: milestone.id, error, ...(policy && { policy }) });
+    }
+
+    /**
+     * Fail the active milestones that exceeded their maxSteps / timeoutMs and
+     * apply their failure policy. Returns true when the run has to abort.
+     */
+    private async enforceMilestoneBudgets(): Promise<boolean> {
+        const runner = this.milestoneRunner!;
+        const active = runner.active;
+        const now = Date.now();
+
+        for (const id of this.milestoneStarts.keys()) {
+            if (!active.some((m) => m.id === id)) this.milestoneStarts.delete(id);
+        }
+
+        for (const milestone of active) {
+            const start = this.milestoneStarts.get(milestone.id);
+            if (!start) {
+                this.milestoneStarts.set(milestone.id, { step: this.stepCount, at: now });
+                continue;
+            }
+
+            const error =
+                milestone.maxSteps !== undefined && this.stepCount - start.step >= milestone.maxSteps
+                    ? new Error(`Milestone "${milestone.id}" not reached within ${milestone.maxSteps} steps`)
+                    : milestone.timeoutMs !== undefined && now - start.at >= milestone.timeoutMs
+                        ? new Error(`Milestone "${milestone.id}" not reached within ${milestone.timeoutMs}ms`)
+                        : null;
+            if (!error) continue;
+
+            const policy = milestone.onFailure ?? this.failurePolicy;
+            await this.recordMilestoneFailure(milestone, error);
+            this.failMilestone(milestone, error, policy);
+
+            switch (policy) {
+                case "abort":
+                    return true;
+                case "retry":
+                    this.resetContext(milestone, true);
+                    this.milestoneActions = [];
+                    this.milestoneStarts.set(milestone.id, { step: this.stepCount, at: now });
+                    break;
+                case "skip": {
+                    const next = await runner.skip(this.failureDB?.exportCurrent() ?? [], milestone);
+                    this.emit("context:reset", {
+                        previousMilestone: milestone.id,
+                        nextMilestone: next?.id ?? null,
+                        activeMilestones: runner.active.map((m) => m.id),
+                    });
+                    break;
+                }
+                case "replan":
+                    // A plan that keeps this milestone gives it a fresh budget
+                    this.milestoneStarts.delete(milestone.id);
+                    await this.planMilestones();
+                    return false;
+            }
+        }
+        return false;
+    }
+
+    /** Store a milestone that ran over budget as a HIGH-severity proverb. */
+    private async recordMilestoneFailure(milestone: Milestone, error: Error): Promise<void> {
+        const proverb = `Break "${milestone.description}" into smaller steps or change the approach: ${error.message}`;
+        const condition = `When working toward: ${milestone.description}`;
+
+        if (this.failureDB) {
+            await this.failureDB.store({
+                id: `fk_${milestone.id}_${this.stepCount}_${Date.now()}`,
+                proverb,
+                condition,
+                severity: "HIGH",
+                source: `milestone_${milestone.id}`,
+            });
+        }
+        this.emit("failure:recorded", { proverb, condition });
+    }
+
+    // =========================================================================
+    // Milestone Planning
+    // =========================================================================
+
+    /**
+     * Ask the LLM to break the goal into milestones. A re-plan keeps the
+     * reached milestones, replaces the rest and starts their context afresh.
+     * A plan that stays invalid (or empty) leaves the current one in place.
+     */
+    private async planMilestones(): Promise<void> {
+        const planner = this.planner ?? resolvePlannerOptions(true);
+        const previous = this.milestoneRunner;
+        const statuses = previous?.allStatuses ?? [];
+        const reached = statuses.filter((s) => s.reached).map((s) => s.milestone);
+        const list = (milestones: Milestone[]) =>
+            milestones.map((m) => `- [${m.id}] ${m.description}`).join("\n");
+
+        const prompt = this.renderPrompt("plan", {
+            goal: this.goal.description,
+            successCriteria: this.goal.successCriteria?.join(", "),
+            snapshot: JSON.stringify(this.snapshot, null, 2),
+            reached: list(reached),
+            previous: list(statuses.filter((s) => !s.reached).map((s) => s.milestone)),
+            failed: this.milestoneFailures.map((f) => `- [${f.milestoneId}] ${f.error.message}`).join("\n"),
+            maxMilestones: planner.maxMilestones,
+            commands: planner.allowCommands,
+        });
+        this.planAttempted = true;
+        this.milestoneFailures = [];
+
+        let planned: Milestone[];
+        try {
+            const output = await this.completeJSONFor<PlanOutput>("plan", prompt, PLAN_SCHEMA);
+            planned = toMilestones(output, planner, reached);
+        } catch (error) {
+            if (!(error instanceof JSONOutputError)) throw error;
+            return;
+        }
+        if (planned.length === 0) return;
+
+        this.plannedMilestones = [...reached, ...planned];
+        this.milestoneStarts.clear();
+        this.milestoneRunner = this.createMilestoneRunner(this.plannedMilestones);
+        this.milestoneRunner.restoreReached(reached.map((m) => m.id));
+        if (previous) {
+            // The failed plan's history does not carry over; chat and failure knowledge do
+            this.dropScopedHistory(new Set(statuses.map((s) => s.milestone.id)), true);
+            this.milestoneActions = [];
+        }
+
+        this.emit("plan:created", { milestones: planned, replan: !!previous, step: this.stepCount });
+    }
+
+    // =========================================================================
+    // Skill Acquisition (Context Reset: "add skills to SkillDB, keep them concrete")
+    // =========================================================================
+
+    /**
+     * Distill the successful tool calls that led to a milestone into a concrete skill.
+     * Near-duplicates of already stored skills are skipped.
+     */
+    private async acquireSkill(milestone: Milestone): Promise<void> {
+        const actions = this.milestoneActions.slice(-MAX_SKILL_ACTIONS);
+        this.milestoneActions = [];
+        if (!this.skillDB || actions.length === 0) return;
+
+        const trigger = milestone.description;
+        const command = actions
+            .map((a, i) => `${i + 1}. ${a.toolName}(${formatSkillParams(a.parameters)})`)
+            .join("\n");
+        const condition = milestone.resources.length > 0
+            ? `Goal "${this.goal.description}" requires: ${milestone.resources.map(describeResource).join(", ")}`
+            : `Goal "${this.goal.description}"`;
+
+        try {
+            const existing = await this.skillDB.retrieve(trigger, 3);
+            const isDuplicate = existing.some((s) =>
+                textSimilarity(`${s.trigger} ${s.command}`, `${trigger} ${command}`) >= SKILL_DUPLICATE_THRESHOLD,
+            );
+            if (isDuplicate) return;
+
+            const skillId = `skill_${milestone.id}_${Date.now()}`;
+            await this.skillDB.store({ id: skillId, trigger, command, condition });
+            this.emit("skill:acquired", { skillId });
+        } catch {
+            // Skill acquisition is best-effort, don't fail the run
+        }
+    }
+
     // =========================================================================
     // Phase 2: Causal Analysis (LLM-powered)
     // =========================================================================
@@ -1028,40 +1658,33 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         // Only analyze when something failed after a previous action
         if (last.success) return;
 
-        const prompt = [
-            "## Causal Analysis",
-            `Previous action: ${prev.toolName} (${prev.success ? "success" : "failure"})`,
-            `Current action: ${last.toolName} (failure)`,
-            "",
-            "Did the previous action likely CAUSE the current failure?",
-            'Respond in JSON: {"isCausal": true/false, "strength": 0.0-1.0, "reasoning": "..."}',
-        ].join("\n");
+        const prompt = this.renderPrompt("causal", {
+            previous: prev.toolName,
+            previousOutcome: prev.success ? "success" : "failure",
+            current: last.toolName,
+        });
 
         try {
-            const response = await this.retryLLM(() => this.llm.complete(prompt));
-            const jsonMatch = response.match(/\{[\s\S]*\}/);
-            if (jsonMatch) {
-                const parsed = JSON.parse(jsonMatch[0]);
-                if (parsed.isCausal) {
-                    const link: CausalLink = {
-                        causeId: prev.id,
-                        effectId: last.id,
-                        strength: Number(parsed.strength ?? 0.5),
-                        reasoning: String(parsed.reasoning ?? ""),
-                    };
-                    this.emit("causal:analyzed", { links: [link] });
-
-                    // Update karma causal chain if available
-                    if (this.karmaMemoryDB) {
-                        const karmaEntries = await this.karmaMemoryDB.retrieve(last.toolName, 1);
-                        if (karmaEntries.length > 0) {
-                            const existing = karmaEntries[0];
-                            const updatedChain = [...new Set([...existing.causalChain, prev.id])];
-                            await this.karmaMemoryDB.store({
-                                ...existing,
-                                causalChain: updatedChain,
-                            });
-                        }
+            const parsed = await this.completeJSONFor<CausalOutput>("causal", prompt, CAUSAL_SCHEMA);
+            if (parsed.isCausal) {
+                const link: CausalLink = {
+                    causeId: prev.id,
+                    effectId: last.id,
+                    strength: parsed.strength,
+                    reasoning: parsed.reasoning,
+                };
+                this.emit("causal:analyzed", { links: [link] });
+
+                // Update karma causal chain if available
+                if (this.karmaMemoryDB) {
+                    const karmaEntries = await this.karmaMemoryDB.retrieve(last.toolName, 1);
+                    if (karmaEntries.length > 0) {
+                        const existing = karmaEntries[0];
+                        const updatedChain = [...new Set([...existing.causalChain, prev.id])];
+                        await this.karmaMemoryDB.store({
+                            ...existing,
+                            causalChain: updatedChain,
+                        });
                     }
                 }
             }
@@ -1074,6 +1697,19 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
     // Phase 3: Seven Factors of Awakening Pipeline
     // =========================================================================
 
+    /**
+     * One JSON stage of the awakening pipeline. Returns the validated JSON as
+     * text for the next stage's prompt, or the raw reply if it stayed invalid.
+     */
+    private async awakeningStage(prompt: string, schema: JSONSchema): Promise<string> {
+        try {
+            return JSON.stringify(await this.completeJSONFor("awakening", prompt, schema));
+        } catch (error) {
+            if (error instanceof JSONOutputError) return error.raw;
+            throw error;
+        }
+    }
+
     /**
      * Decide with the Seven Factors of Awakening pipeline.
      * Each factor acts as a processing stage that refines the decision.
@@ -1086,8 +1722,8 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
      * 6. 定 (Concentration): Focus on causal structure
      * 7. 捨 (Equanimity): Let go of attachment to outcome
      */
-    private async decideWithAwakening(): Promise<Action | null> {
-        if (!this.delta) return null;
+    private async decideWithAwakening(): Promise<Action[]> {
+        if (!this.delta) return [];
 
         // Retrieve karma wisdom (Phase 1.5)
         const karmaWisdom = this.karmaMemoryDB
@@ -1105,32 +1741,18 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             ? await this.failureDB.retrieve(this.delta.description, 3)
             : [];
 
-        const investigationPrompt = [
-            "## Stage 1: 択法 (Investigation)",
-            "Generate 2-3 possible approaches to address the current gap.",
-            "",
-            `Goal: ${this.goal.description}`,
-            `Delta: ${this.delta.description}`,
-            `Progress: ${(this.delta.progress * 100).toFixed(0)}%`,
-            `Gaps: ${this.delta.gaps.join(", ")}`,
-            "",
-            skills.length > 0
-                ? `Relevant Skills: ${skills.map(s => s.command).join("; ")}`
-                : "",
-            warnings.length > 0
-                ? `⚠️ Failure Warnings: ${warnings.map(w => w.proverb).join("; ")}`
-                : "",
-            karmaWisdom.length > 0
-                ? `🔮 Karma Wisdom: ${karmaWisdom.map(k => `"${k.proverb}" (weight: ${k.transferWeight.toFixed(1)}, seen ${k.occurrences}x)`).join("; ")}`
-                : "",
-            habitualPatterns.length > 0
-                ? `⚠️ Habitual Patterns (渇愛候補): ${habitualPatterns.map(h => h.proverb).join("; ")}`
-                : "",
-            "",
-            'Respond in JSON: {"hypotheses": ["approach 1", "approach 2"]}',
-        ].filter(Boolean).join("\n");
+        const investigationPrompt = this.renderPrompt("awakening.investigation", {
+            goal: this.goal.description,
+            delta: this.delta.description,
+            progress: (this.delta.progress * 100).toFixed(0),
+            gaps: this.delta.gaps.join(", "),
+            skills: skills.map(s => s.command).join("; "),
+            warnings: warnings.map(w => w.proverb).join("; "),
+            karma: karmaWisdom.map(k => `"${k.proverb}" (weight: ${k.transferWeight.toFixed(1)}, seen ${k.occurrences}x)`).join("; "),
+            habits: habitualPatterns.map(h => h.proverb).join("; "),
+        });
 
-        const investigationResp = await this.retryLLM(() => this.llm.complete(investigationPrompt));
+        const investigationResp = await this.awakeningStage(investigationPrompt, HYPOTHESES_SCHEMA);
         this.emit("awakening:stage", {
             stage: "investigation",
             output: investigationResp,
@@ -1139,22 +1761,13 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         });
 
         // Stage 2: 念 (Mindfulness) — Remove bias from hypotheses
-        const mindfulnessPrompt = [
-            "## Stage 2: 念 (Mindfulness) — Bias Removal",
-            `Bias Score: ${this.lastObservation?.biasScore ?? 0}`,
-            `Tanha Loop Active: ${this.tanhaLoopDetected}`,
-            "",
-            "Review these hypotheses and REMOVE any that:",
-            "- Repeat a pattern that has already failed (渇愛)",
-            "- Are driven by ego/self-preservation rather than goal-service",
-            "- Show confirmation bias (trying to prove previous approach was right)",
-            "",
-            `Hypotheses: ${investigationResp}`,
-            "",
-            'Respond in JSON: {"filtered": ["surviving approach"], "removed": ["removed approach"], "reasoning": "..."}',
-        ].join("\n");
-
-        const mindfulnessResp = await this.retryLLM(() => this.llm.complete(mindfulnessPrompt));
+        const mindfulnessPrompt = this.renderPrompt("awakening.mindfulness", {
+            biasScore: this.lastObservation?.biasScore ?? 0,
+            tanhaLoop: this.tanhaLoopDetected,
+            hypotheses: investigationResp,
+        });
+
+        const mindfulnessResp = await this.awakeningStage(mindfulnessPrompt, MINDFULNESS_SCHEMA);
         this.emit("awakening:stage", {
             stage: "mindfulness",
             output: mindfulnessResp,
@@ -1172,41 +1785,23 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
 
         const finalDecisionPrompt: ChatMessage = {
             role: "system",
-            content: [
-                "You are ZEN AI with Seven Factors of Awakening.",
-                "",
-                `## Goal: ${this.goal.description}`,
-                `## Delta: ${this.delta.description} (${(this.delta.progress * 100).toFixed(0)}%)`,
-                `## Gaps: ${this.delta.gaps.join(", ")}`,
-                "",
-                "## Awakening Pipeline Results",
-                `Investigation (択法): ${investigationResp}`,
-                `Mindfulness (念): ${mindfulnessResp}`,
-                "",
-                "## Remaining Factors (apply internally):",
-                "3. 精進 (Energy): Choose the approach that requires MINIMUM effort for MAXIMUM progress",
-                "4. 喜 (Joy): Prefer approaches that make the system MORE elegant, not just functional",
-                "5. 軽安 (Tranquility): Prefer the SIMPLEST approach. Avoid over-engineering",
-                "6. 定 (Concentration): Focus on the ROOT CAUSE, not symptoms",
-                "7. 捨 (Equanimity): Do not cling to previous approaches. Choose freely",
-                "",
-                this.delta.sufferingDelta !== undefined
-                    ? `Suffering Delta: ${this.delta.sufferingDelta} (negative = good)`
-                    : "",
-                this.delta.egoNoise !== undefined
-                    ? `Ego Noise: ${this.delta.egoNoise}`
-                    : "",
-                "",
-                "Choose the most appropriate tool. If complete, respond: DONE",
-            ].filter(Boolean).join("\n"),
+            content: this.renderPrompt("awakening.decision", {
+                goal: this.goal.description,
+                delta: this.delta.description,
+                progress: (this.delta.progress * 100).toFixed(0),
+                gaps: this.delta.gaps.join(", "),
+                investigation: investigationResp,
+                mindfulness: mindfulnessResp,
+                sufferingDelta: this.delta.sufferingDelta,
+                egoNoise: this.delta.egoNoise,
+            }),
         };
 
-        const recentHistory = this.chatHistory.slice(-6);
-        const messages: ChatMessage[] = [finalDecisionPrompt, ...recentHistory];
+        const messages = this.context.fit([finalDecisionPrompt], this.chatHistory, toolTokens(toolDefs));
 
-        const response = await this.retryLLM(() =>
-            this.llm.chat(messages, { tools: toolDefs.length > 0 ? toolDefs : undefined }),
-        );
+        const response = await this.chatFor("decide", messages, {
+            tools: toolDefs.length > 0 ? toolDefs : undefined,
+        });
 
         this.emit("awakening:stage", {
             stage: "equanimity",
@@ -1216,35 +1811,209 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         });
 
         // Parse response (same as regular decide)
-        if (
-            response.content?.trim().toUpperCase() === "DONE" ||
-            (!response.toolCalls?.length && !response.content)
-        ) {
-            return null;
-        }
+        return this.toActions(response);
+    }
 
-        if (response.toolCalls?.length) {
-            const tc = response.toolCalls[0];
-            const action: Action = {
-                toolName: tc.name,
-                parameters: tc.arguments,
-                reasoning: response.content ?? undefined,
-            };
-            this.chatHistory.push({
-                role: "assistant",
-                content: response.content ?? `Using tool: ${tc.name}`,
+    // =========================================================================
+    // LLM calls with usage accounting
+    // Every call is tagged with its phase, so routing adapters can act on it.
+    // =========================================================================
+
+    /** Token budgeting of the chat history. */
+    private get context(): ContextBuilder {
+        this.contextBuilder ??= new ContextBuilder({
+            ...this.contextOptions,
+            contextWindow: this.contextOptions.contextWindow ?? contextWindowFor(this.llm),
+        });
+        return this.contextBuilder;
+    }
+
+    /**
+     * Summarize older chat history into a memory message once it passes the
+     * compaction threshold.
+     */
+    private async compactHistory(): Promise<void> {
+        if (!this.context.needsCompaction(this.chatHistory)) return;
+
+        const maxTokens = Math.floor(this.context.historyBudget * 0.05);
+        try {
+            const result = await this.context.compact(this.chatHistory, async (older) => {
+                const transcript = older
+                    .map((m) => `${m.role}: ${contentText(m.content)}${m.toolCalls?.length ? ` [calls: ${m.toolCalls.map((c) => c.name).join(", ")}]` : ""}`)
+                    .join("\n\n");
+                const summary = await this.completeFor("summarize", this.renderPrompt("context.summary", { transcript, maxTokens }));
+                return this.renderPrompt("context.memory", { summary: summary.trim() });
+            });
+            if (!result) return;
+
+            this.chatHistory = result.history;
+            this.emit("context:compacted", {
+                summarizedMessages: result.summarizedMessages,
+                keptMessages: result.keptMessages,
+                tokensBefore: result.tokensBefore,
+                tokensAfter: result.tokensAfter,
+                step: this.stepCount,
             });
-            return action;
+        } catch {
+            // Compaction is best-effort; fit() still keeps each prompt within the window
         }
+    }
 
-        if (response.content) {
-            this.chatHistory.push({
-                role: "assistant",
-                content: response.content,
-            });
+    /** Render a prompt template in the agent's locale. */
+    private renderPrompt(name: string, variables: PromptVariables = {}): string {
+        return this.prompts.render(name, variables, { locale: this.locale });
+    }
+
+    /** Text completion for a phase, with retry and usage tracking. */
+    private async completeFor(phase: LLMPhase, prompt: string): Promise<string> {
+        return this.retryLLM(() => this.trackedComplete(phase, prompt));
+    }
+
+    /** Chat completion for a phase, with retry and usage tracking. */
+    private async chatFor(
+        phase: LLMPhase,
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): Promise<ChatResponse> {
+        return this.retryLLM(async () => {
+            const res = await this.llm.chat(messages, { ...options, phase });
+            this.recordUsage(phase, res.usage);
+            return res;
+        });
+    }
+
+    /**
+     * Streamed chat call accounted to a phase.
+     * Re-yields the adapter's deltas and returns the final response; falls back
+     * to chat() (one text chunk) when the adapter cannot stream.
+     * Not retried: deltas already shown to the user cannot be taken back.
+     */
+    private async *streamFor(
+        phase: LLMPhase,
+        messages: ChatMessage[],
+        options?: { tools?: LLMToolDefinition[] },
+    ): AsyncGenerator<ChatStreamChunk, ChatResponse> {
+        if (!this.llm.chatStream) {
+            const res = await this.chatFor(phase, messages, options);
+            if (res.content) yield { type: "text", delta: res.content };
+            return res;
         }
 
-        return null;
+        let response: ChatResponse | undefined;
+        for await (const chunk of this.llm.chatStream(messages, { ...options, phase })) {
+            if (chunk.type === "done") response = chunk.response;
+            else yield chunk;
+        }
+        if (!response) throw new Error("Chat stream ended without a response");
+        this.recordUsage(phase, response.usage);
+        return response;
+    }
+
+    /**
+     * JSON completion for a phase, validated against a schema.
+     * Uses the adapter's completeJSON() when it has one, otherwise complete()
+     * with repair prompts. When the output stays invalid, emits parse:failed
+     * and throws JSONOutputError.
+     */
+    private async completeJSONFor<T>(phase: LLMPhase, prompt: string, schema: JSONSchema): Promise<T> {
+        try {
+            const res = this.llm.completeJSON
+                ? await this.retryLLM(() => this.llm.completeJSON!<T>(prompt, schema, { phase }))
+                : await completeJSONWithRepair<T>(
+                    async (p) => ({ content: await this.completeFor(phase, p) }),
+                    prompt,
+                    schema,
+                );
+            this.recordUsage(phase, res.usage);
+            return res.value;
+        } catch (error) {
+            if (error instanceof JSONOutputError) {
+                this.recordUsage(phase, error.usage);
+                this.emit("parse:failed", {
+                    phase,
+                    error: error.message,
+                    raw: error.raw,
+                    attempts: error.attempts,
+                    step: this.stepCount,
+                });
+            }
+            throw error;
+        }
+    }
+
+    /** Single complete() call that records usage when the adapter reports it. */
+    private async trackedComplete(phase: LLMPhase, prompt: string): Promise<string> {
+        if (this.llm.completeWithUsage) {
+            const res = await this.llm.completeWithUsage(prompt, { phase });
+            this.recordUsage(phase, res.usage);
+            return res.content;
+        }
+        return this.llm.complete(prompt, { phase });
+    }
+
+    /**
+     * An adapter view whose calls are accounted to the given phase.
+     * Handed to components (e.g. MilestoneRunner) that call the LLM themselves.
+     */
+    private llmFor(phase: LLMPhase): LLMAdapter {
+        return {
+            complete: (prompt) => this.trackedComplete(phase, prompt),
+            embed: (text) => this.llm.embed(text),
+            chat: async (messages, options) => {
+                const res = await this.llm.chat(messages, { ...options, phase });
+                this.recordUsage(phase, res.usage);
+                return res;
+            },
+        };
+    }
+
+    /** Add token usage to the run total and to the phase breakdown. */
+    private recordUsage(phase: LLMPhase, usage: TokenUsage | undefined): void {
+        if (!usage) return;
+        this.totalUsage = sumUsage(this.totalUsage, usage)!;
+        this.usageByPhase[phase] = sumUsage(this.usageByPhase[phase], usage);
+        if (this.running) this.checkBudget();
+    }
+
+    /** Emit budget:warning / budget:exceeded as the run's usage crosses its limits. */
+    private checkBudget(): void {
+        if (!this.budget || this.budgetExceeded) return;
+
+        const warnAt = this.budget.warnAt ?? DEFAULT_BUDGET_WARN_AT;
+        const limits: Array<[BudgetLimit, number, number | undefined]> = [
+            ["tokens", this.totalUsage.totalTokens, this.budget.maxTokens],
+            ["cost", this.calculateCost(), this.budget.maxCostUsd],
+        ];
+
+        for (const [limit, used, max] of limits) {
+            if (max === undefined) continue;
+            if (used >= max) {
+                this.budgetExceeded = true;
+                this.emit("budget:exceeded", { limit, used, max, step: this.stepCount });
+                return;
+            }
+            if (used >= max * warnAt && !this.budgetWarned.has(limit)) {
+                this.budgetWarned.add(limit);
+                this.emit("budget:warning", { limit, used, max, step: this.stepCount });
+            }
+        }
+    }
+
+    /** Cache hits and misses since run() started, if the adapter caches. */
+    private cacheStatsForRun(): CacheStats | undefined {
+        const now = this.llm.cacheStats?.();
+        if (!now) return undefined;
+        return {
+            hits: now.hits - (this.cacheAtStart?.hits ?? 0),
+            misses: now.misses - (this.cacheAtStart?.misses ?? 0),
+        };
+    }
+
+    /** Copy of the per-phase usage breakdown. */
+    getUsageByPhase(): UsageByPhase {
+        return Object.fromEntries(
+            Object.entries(this.usageByPhase).map(([phase, u]) => [phase, { ...u }]),
+        ) as UsageByPhase;
     }
 
     /** Retry an LLM call with exponential backoff. */
@@ -1254,6 +2023,8 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             try {
                 return await fn();
             } catch (error) {
+                // Output that stayed invalid through its repairs won't improve on a retry
+                if (error instanceof JSONOutputError) throw error;
                 lastError =
                     error instanceof Error ? error : new Error(String(error));
                 if (i < this.maxRetries - 1) {
@@ -1268,8 +2039,12 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
     // Phase 4: Anatta Self-Evolver (無我・自己進化)
     // =========================================================================
 
-    /** Update the self-model after each tool execution. */
-    private updateSelfModel(toolName: string, success: boolean): void {
+    /**
+     * Update the self-model after each tool execution.
+     * Calls rejected for invalid arguments are the LLM's mistake, not the tool's:
+     * they are counted apart and don't affect the tool's success rate.
+     */
+    private updateSelfModel(toolName: string, success: boolean, invalidArgs = false): void {
         // Update tool stats
         if (!this.selfModel.toolStats[toolName]) {
             this.selfModel.toolStats[toolName] = {
@@ -1280,6 +2055,10 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
             };
         }
         const stats = this.selfModel.toolStats[toolName];
+        if (invalidArgs) {
+            stats.invalidArgs = (stats.invalidArgs ?? 0) + 1;
+            return;
+        }
         stats.uses++;
         if (success) stats.successes++;
         else stats.failures++;
@@ -1308,35 +2087,16 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         if (recentAvg < EVOLUTION_THRESHOLD && !this.tanhaLoopDetected) return;
 
         // Ask LLM for self-evolution proposal
-        const prompt = [
-            "You are analyzing an AI agent's self-model to propose improvements.",
-            "",
-            "## Tool Usage Statistics",
-            JSON.stringify(this.selfModel.toolStats, null, 2),
-            "",
-            "## Suffering Trend (last 20 steps)",
-            JSON.stringify(trend),
-            "",
-            "## Current State",
-            `Tanha Loop Detected: ${this.tanhaLoopDetected}`,
-            `Recent Avg Suffering: ${recentAvg.toFixed(3)}`,
-            `Total Evolutions: ${this.selfModel.evolutionLog.length}`,
-            "",
-            "Propose ONE concrete change to reduce suffering. Respond in JSON:",
-            '{"change": "...", "reason": "...", "type": "tool_preference|approach_shift|milestone_reorder|strategy_change", "confidence": 0.0-1.0}',
-        ].join("\n");
+        const prompt = this.renderPrompt("evolution", {
+            toolStats: JSON.stringify(this.selfModel.toolStats, null, 2),
+            trend: JSON.stringify(trend),
+            tanhaLoop: this.tanhaLoopDetected,
+            recentAvg: recentAvg.toFixed(3),
+            evolutions: this.selfModel.evolutionLog.length,
+        });
 
         try {
-            const raw = await this.retryLLM(() => this.llm.complete(prompt));
-            const match = raw.match(/\{[\s\S]*\}/);
-            if (!match) return;
-
-            const proposal = JSON.parse(match[0]) as {
-                change: string;
-                reason: string;
-                type: string;
-                confidence: number;
-            };
+            const proposal = await this.completeJSONFor<EvolutionOutput>("evolution", prompt, EVOLUTION_SCHEMA);
 
             if (proposal.confidence < 0.5) return; // Low confidence — skip
 
@@ -1344,7 +2104,7 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
                 timestamp: new Date().toISOString(),
                 change: proposal.change,
                 reason: proposal.reason,
-                type: (proposal.type as SelfEvolutionRecord["type"]) || "strategy_change",
+                type: proposal.type,
             };
 
             // =====================================================
@@ -1484,3 +2244,54 @@ export class ZenAgent extends TypedEventEmitter<ZenAgentEvents> {
         }
     }
 }
+
+/** Add two token usage records (undefined counts as zero). */
+function sumUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+    if (!a) return b ? { ...b } : undefined;
+    if (!b) return { ...a };
+    return {
+        promptTokens: a.promptTokens + b.promptTokens,
+        completionTokens: a.completionTokens + b.completionTokens,
+        totalTokens: a.totalTokens + b.totalTokens,
+        ...(a.cachedPromptTokens !== undefined || b.cachedPromptTokens !== undefined
+            ? { cachedPromptTokens: (a.cachedPromptTokens ?? 0) + (b.cachedPromptTokens ?? 0) }
+            : {}),
+        ...(a.costUsd !== undefined || b.costUsd !== undefined
+            ? { costUsd: Number(((a.costUsd ?? 0) + (b.costUsd ?? 0)).toFixed(6)) }
+            : {}),
+    };
+}
+
+/** Estimated tokens of tool definitions sent with a chat call. */
+function toolTokens(tools: LLMToolDefinition[]): number {
+    return tools.length ? estimateTokens(JSON.stringify(tools)) : 0;
+}
+
+/** Text followed by images/files, or just the text when there are none. */
+function withMedia(text: string, parts: ContentPart[]): MessageContent {
+    return parts.length ? [{ type: "text", text }, ...parts] : text;
+}
+
+/** Render tool parameters concretely for a skill command (long values truncated). */
+function formatSkillParams(params: Record<string, unknown>): string {
+    return Object.entries(params)
+        .map(([key, value]) => {
+            const str = typeof value === "string" ? value : JSON.stringify(value);
+            const short = str.length > 80 ? `${str.slice(0, 80)}...` : str;
+            return `${key}=${JSON.stringify(short)}`;
+        })
+        .join(", ");
+}
+
+/** Token-set (Jaccard) similarity between two texts, 0-1. */
+function textSimilarity(a: string, b: string): number {
+    const tokenize = (t: string) => new Set(t.toLowerCase().split(/[^\p{L}\p{N}_]+/u).filter(Boolean));
+    const setA = tokenize(a);
+    const setB = tokenize(b);
+    if (setA.size === 0 && setB.size === 0) return 1;
+    let intersection = 0;
+    for (const token of setA) {
+        if (setB.has(token)) intersection++;
+    }
+    return intersection / (setA.size + setB.size - intersection);
+}
@@ -0,0 +1,49 @@
+// ============================================================================
+// ZEN AI Discord Bot — DM Handler Tests
+// Attachments are downloaded on arrival and reach the agent inline.
+// ============================================================================
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ChannelType, Events } from "discord.js";
+import { ZenDiscordBot } from "../src/bot.js";
+import type { ChatStreamChunk, MessageContent } from "@zen-ai/core";
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("ZenDiscordBot DMs", () => {
+    it("should hand attachments to the agent as inline data, not CDN URLs", async () => {
+        const png = Buffer.from([0x89, 0x50, 0x4e, 0x47]);
+        const fetchMock = vi.fn(async () => new Response(png, { headers: { "content-type": "image/png" } }));
+        vi.stubGlobal("fetch", fetchMock);
+
+        let received: (content: MessageContent) => void = () => {};
+        const sent = new Promise<MessageContent>((resolve) => { received = resolve; });
+        const agent = {
+            async *chatStream(content: MessageContent): AsyncGenerator<ChatStreamChunk> {
+                received(content);
+                yield { type: "done", response: { content: "nice picture" } };
+            },
+            getState: () => ({}),
+        };
+
+        const bot = new ZenDiscordBot({ token: "test" });
+        const internals = bot as unknown as { dmAgents: Map<string, unknown>; client: { emit(event: string, ...args: unknown[]): boolean } };
+        internals.dmAgents.set("u1", agent);
+        const url = "https://cdn.discordapp.com/attachments/1/2/cat.png?ex=abc&hm=def";
+        internals.client.emit(Events.MessageCreate, {
+            author: { id: "u1", bot: false },
+            channel: { type: ChannelType.DM, sendTyping: async () => {}, send: async () => {} },
+            content: "look",
+            attachments: new Map([["1", { url, contentType: "image/png", name: "cat.png" }]]),
+            reply: vi.fn(async () => ({})),
+        });
+
+        expect(await sent).toEqual([
+            { type: "text", text: "look" },
+            { type: "image", mimeType: "image/png", data: png.toString("base64") },
+        ]);
+        expect(fetchMock).toHaveBeenCalledWith(url, expect.anything());
+    });
+});
@@ -15,13 +15,14 @@ import {
     ChannelType,
     type ChatInputCommandInteraction,
     type Message,
+    type Attachment,
     ButtonBuilder,
     ButtonStyle,
     ActionRowBuilder,
     ComponentType,
 } from "discord.js";
-import { ZenAgent } from "@zen-ai/core";
-import type { ZenAgentConfig, Tool, LLMAdapter } from "@zen-ai/core";
+import { ZenAgent, RISKY_TOOL_RULES, resolveContent, toContentParts } from "@zen-ai/core";
+import type { ZenAgentConfig, PlannerOptions, ApprovalPolicy, Tool, LLMAdapter, ChatResponse, ContentPart, MessageContent } from "@zen-ai/core";
 import { OpenAIAdapter } from "@zen-ai/adapter-openai";
 import type { OpenAIAdapterConfig } from "@zen-ai/adapter-openai";
 import { SkillDB, FailureKnowledgeDB, KarmaMemory } from "@zen-ai/memory";
@@ -47,6 +48,27 @@ import {
 import { join } from "node:path";
 import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
 
+/** Discord message length limit. */
+const DISCORD_MESSAGE_LIMIT = 2000;
+/** Minimum interval between edits of a streamed reply (Discord rate-limits edits). */
+const STREAM_EDIT_INTERVAL_MS = 1000;
+/** Cursor shown at the end of a reply that is still being written. */
+const STREAM_CURSOR = " ▌";
+
+/**
+ * A Discord attachment as a message part (images by type, everything else as a file).
+ * Downloaded on arrival and inlined: CDN links are signed and expire, while
+ * the part lives on in the persisted chat history.
+ */
+async function attachmentPart(attachment: Attachment): Promise<ContentPart> {
+    const mimeType = attachment.contentType?.split(";")[0];
+    const part: ContentPart = mimeType?.startsWith("image/")
+        ? { type: "image", url: attachment.url, mimeType }
+        : { type: "file", url: attachment.url, mimeType, name: attachment.name };
+    const [message] = await resolveContent([{ role: "user", content: [part] }], { fetchUrls: true });
+    return toContentParts(message.content)[0];
+}
+
 /** Configuration for the ZEN AI Discord Bot. */
 export interface ZenDiscordBotConfig {
     /** Discord Bot Token. Defaults to DISCORD_BOT_TOKEN env var. */
@@ -55,6 +77,11 @@ export interface ZenDiscordBotConfig {
     clientId?: string;
     /** OpenAI adapter configuration. */
     llmConfig?: OpenAIAdapterConfig;
+    /**
+     * Factory for the LLM adapter of each agent (e.g. a LocalAdapter to run offline).
+     * Default: an OpenAIAdapter built from llmConfig.
+     */
+    createLLM?: () => LLMAdapter;
     /** Additional tools for agents. */
     tools?: Tool[];
     /** Default max steps per agent run. Default: 30. */
@@ -63,6 +90,16 @@ export interface ZenDiscordBotConfig {
     skillDBPath?: string;
     /** Enable FailureDB persistence. */
     failureDBPath?: string;
+    /**
+     * Let the LLM plan milestones for each run (see ZenAgentConfig.planner).
+     * `/zen run plan:` overrides it per task. Default: off.
+     */
+    planner?: boolean | PlannerOptions;
+    /**
+     * Tool calls of /zen runs that wait for approve/deny buttons, or false to
+     * run every call unasked. Default: { rules: RISKY_TOOL_RULES }.
+     */
+    approval?: ApprovalPolicy | false;
 }
 
 /**
@@ -152,9 +189,14 @@ export class ZenDiscordBot {
         console.log("✅ Slash commands deployed.");
     }
 
-    /** Create agent config from a goal string. */
-    private createAgentConfig(goal: string, maxSteps: number): ZenAgentConfig {
-        const llm = new OpenAIAdapter(this.config.llmConfig);
+    /** The LLM adapter for a new agent: the configured factory, else OpenAI. */
+    private createLLM(): LLMAdapter {
+        return this.config.createLLM?.() ?? new OpenAIAdapter(this.config.llmConfig);
+    }
+
+    /** Create agent config from a goal string (plan: per-task override of config.planner). */
+    private createAgentConfig(goal: string, maxSteps: number, plan = !!this.config.planner): ZenAgentConfig {
+        const llm = this.createLLM();
 
         // Forge tool needs a ref to addTool — we'll set it after agent creation
         const forgeDir = join(process.cwd(), "data", "forged-tools");
@@ -178,6 +220,14 @@ export class ZenDiscordBot {
             maxSteps: Math.min(maxSteps, this.config.maxStepsPerRun),
         };
 
+        if (plan) {
+            config.planner = this.config.planner || true;
+        }
+
+        if (this.config.approval !== false) {
+            config.approval = this.config.approval ?? { rules: RISKY_TOOL_RULES };
+        }
+
         if (this.config.skillDBPath) {
             config.skillDB = new SkillDB({
                 persistPath: this.config.skillDBPath,
@@ -212,8 +262,8 @@ export class ZenDiscordBot {
                         await handleZenRun(
                             interaction,
                             this.agents,
-                            (goal, maxSteps) =>
-                                this.createAgentConfig(goal, maxSteps),
+                            (goal, maxSteps, plan) =>
+                                this.createAgentConfig(goal, maxSteps, plan),
                         );
                         break;
 
@@ -229,6 +279,10 @@ export class ZenDiscordBot {
                         await this.handlePause(interaction);
                         break;
 
+                    case "resume":
+                        await this.handleResume(interaction);
+                        break;
+
                     case "ask":
                         await this.handleAsk(interaction);
                         break;
@@ -274,11 +328,17 @@ export class ZenDiscordBot {
 
             const userId = message.author.id;
             const userText = message.content.trim();
-            if (!userText) return;
+            if (!userText && message.attachments.size === 0) return;
 
             try {
                 await message.channel.sendTyping();
 
+                // Attachments go to the agent as image/file parts next to the text
+                const attachments = await Promise.all([...message.attachments.values()].map(attachmentPart));
+                const userMessage: MessageContent = attachments.length
+                    ? [...(userText ? [{ type: "text" as const, text: userText }] : []), ...attachments]
+                    : userText;
+
                 // Get or create persistent agent for this user
                 let agent = this.dmAgents.get(userId);
 
@@ -289,7 +349,7 @@ export class ZenDiscordBot {
                         mkdirSync(userDir, { recursive: true });
                     }
 
-                    const llm = new OpenAIAdapter(this.config.llmConfig);
+                    const llm = this.createLLM();
                     const failureDB = new FailureKnowledgeDB({
                         persistPath: join(userDir, "failures.json"),
                     });
@@ -348,13 +408,32 @@ export class ZenDiscordBot {
                     this.dmAgents.set(userId, agent);
                 }
 
-                // Chat with the agent
-                const reply = await agent.chat(userText);
+                // Chat with the agent, editing one reply message as tokens arrive
+                let reply: ChatResponse = { content: null };
+                let streamed: Message | undefined;
+                let streamedText = "";
+                let lastEdit = 0;
+                for await (const chunk of agent.chatStream(userMessage)) {
+                    if (chunk.type === "done") {
+                        reply = chunk.response;
+                        continue;
+                    }
+                    if (chunk.type !== "text") continue;
+
+                    streamedText += chunk.delta;
+                    if (Date.now() - lastEdit < STREAM_EDIT_INTERVAL_MS) continue;
+                    lastEdit = Date.now();
+
+                    const preview = streamedText.slice(0, DISCORD_MESSAGE_LIMIT - STREAM_CURSOR.length) + STREAM_CURSOR;
+                    if (streamed) await streamed.edit(preview);
+                    else streamed = await message.reply(preview);
+                }
 
                 // Check for task proposal
                 const taskTool = reply.toolCalls?.find(tc => tc.name === "start_task");
                 if (taskTool) {
                     const args = taskTool.arguments as { goal: string; reasoning?: string };
+                    await streamed?.delete().catch(() => { });
 
                     const confirmMsg = await message.reply({
                         content: `**提案**: タスク「${args.goal}」を開始しますか？\n(理由: ${args.reasoning ?? "なし"})`,
@@ -390,7 +469,9 @@ export class ZenDiscordBot {
                                 (g, s) => this.createAgentConfig(g, s),
                                 message.channel as unknown as TextBasedChannel,
                                 userId,
-                                30
+                                30,
+                                undefined,
+                                userId,
                             );
                         } else {
                             await confirmation.update({ content: "キャンセルしました。", components: [] });
@@ -402,14 +483,10 @@ export class ZenDiscordBot {
                     return;
                 }
 
-                // Calculate estimated cost (Simple calculation for now)
-                // GPT-4o: Input $5/1M, Output $15/1M
+                // Estimated cost, priced by the agent for its adapter's model
                 let costInfo = "";
                 if (reply.usage) {
-                    const inputCost = (reply.usage.promptTokens / 1_000_000) * 5.0;
-                    const outputCost = (reply.usage.completionTokens / 1_000_000) * 15.0;
-                    const totalCost = inputCost + outputCost;
-                    costInfo = `\n(💰 $${totalCost.toFixed(6)})`;
+                    costInfo = `\n(💰 $${agent.costOf(reply.usage).toFixed(6)})`;
                 }
 
                 // Save Chat History
@@ -424,18 +501,14 @@ export class ZenDiscordBot {
                 }
 
                 // Discord message limit: 2000 chars
-                // Append cost info to the last chunk
+                // Append cost info to the last chunk; the first chunk replaces the streamed preview
                 const totalContent = reply.content + costInfo;
 
-                if (totalContent.length <= 2000) {
-                    await message.reply(totalContent);
-                } else {
-                    // Split into chunks
-                    for (let i = 0; i < totalContent.length; i += 2000) {
-                        const chunk = totalContent.slice(i, i + 2000);
-                        if (i === 0) await message.reply(chunk);
-                        else await message.channel.send(chunk);
-                    }
+                for (let i = 0; i < totalContent.length; i += DISCORD_MESSAGE_LIMIT) {
+                    const chunk = totalContent.slice(i, i + DISCORD_MESSAGE_LIMIT);
+                    if (i > 0) await message.channel.send(chunk);
+                    else if (streamed) await streamed.edit(chunk);
+                    else await message.reply(chunk);
                 }
             } catch (error) {
                 const msg = error instanceof Error ? error.message : String(error);
@@ -490,6 +563,7 @@ export class ZenDiscordBot {
             delta: state.delta ?? undefined,
             currentMilestoneIndex: state.currentMilestoneIndex,
             running: true,
+            paused: agent.isPaused,
             buddhistMetrics: state.buddhistMetrics,
         });
 
@@ -501,7 +575,8 @@ export class ZenDiscordBot {
         interaction: ChatInputCommandInteraction,
     ): Promise<void> {
         const contextId = interaction.guildId ?? interaction.user.id;
-        if (!this.agents.has(contextId)) {
+        const agent = this.agents.get(contextId);
+        if (!agent || !agent.isRunning) {
             await interaction.reply({
                 content: "今はエージェント動いてないよ",
                 ephemeral: true,
@@ -509,14 +584,40 @@ export class ZenDiscordBot {
             return;
         }
 
-        const agent = this.agents.get(contextId)!;
+        if (agent.isPaused) {
+            await interaction.reply({
+                content: "もう一時停止してるよ。/zen resume で再開できる",
+                ephemeral: true,
+            });
+            return;
+        }
+
+        // Suspends at the next step boundary; runZenAgent reports agent:paused
+        agent.pause();
         const state = agent.getState();
-        agent.stop();
-        this.agents.delete(contextId);
-        this.llmAdapters.delete(contextId);
 
         await interaction.reply(
-            `⏸️ 一時停止したよ。ゴール「${state.goal}」、${state.stepCount}ステップ目まで進んでた`,
+            `⏸️ 一時停止するよ。ゴール「${state.goal.description}」、${state.stepCount}ステップ目まで進んでる。今のステップが終わったら止まるね`,
+        );
+    }
+
+    /** Handle /zen resume. */
+    private async handleResume(
+        interaction: ChatInputCommandInteraction,
+    ): Promise<void> {
+        const contextId = interaction.guildId ?? interaction.user.id;
+        const agent = this.agents.get(contextId);
+        if (!agent || !agent.isPaused) {
+            await interaction.reply({
+                content: "一時停止中のエージェントはいないよ",
+                ephemeral: true,
+            });
+            return;
+        }
+
+        agent.resume();
+        await interaction.reply(
+            `▶️ 再開するよ。${agent.getState().stepCount}ステップ目の続きから`,
         );
     }
 
@@ -529,7 +630,7 @@ export class ZenDiscordBot {
 
         let llm = this.llmAdapters.get(contextId);
         if (!llm) {
-            llm = new OpenAIAdapter(this.config.llmConfig);
+            llm = this.createLLM();
         }
 
         await interaction.deferReply();
@@ -563,7 +664,7 @@ export class ZenDiscordBot {
             return;
         }
 
-        const llm = new OpenAIAdapter(this.config.llmConfig);
+        const llm = this.createLLM();
         const db = new SkillDB({
             persistPath: this.config.skillDBPath,
             llm,
@@ -593,7 +694,7 @@ export class ZenDiscordBot {
             return;
         }
 
-        const llm = new OpenAIAdapter(this.config.llmConfig);
+        const llm = this.createLLM();
         const db = new FailureKnowledgeDB({
             persistPath: this.config.failureDBPath,
             llm,
@@ -3,9 +3,14 @@
 // ============================================================================
 
 import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
     ChatInputCommandInteraction,
+    ComponentType,
     SlashCommandBuilder,
     TextBasedChannel,
+    type Message,
 } from "discord.js";
 import { ZenAgent } from "@zen-ai/core";
 import { existsSync } from "node:fs";
@@ -32,6 +37,12 @@ export const zenRunCommand = new SlashCommandBuilder()
                     .setMinValue(1)
                     .setMaxValue(100)
                     .setRequired(false),
+            )
+            .addBooleanOption((opt) =>
+                opt
+                    .setName("plan")
+                    .setDescription("Plan milestones from the goal before starting (default: bot setting)")
+                    .setRequired(false),
             ),
     )
     .addSubcommand((sub) =>
@@ -43,6 +54,9 @@ export const zenRunCommand = new SlashCommandBuilder()
     .addSubcommand((sub) =>
         sub.setName("pause").setDescription("Pause the running agent"),
     )
+    .addSubcommand((sub) =>
+        sub.setName("resume").setDescription("Resume the paused agent"),
+    )
     .addSubcommand((sub) =>
         sub
             .setName("ask")
@@ -67,7 +81,7 @@ export const zenRunCommand = new SlashCommandBuilder()
 export async function handleZenRun(
     interaction: ChatInputCommandInteraction,
     agents: Map<string, ZenAgent>,
-    createAgentConfig: (goal: string, maxSteps: number) => ZenAgentConfig,
+    createAgentConfig: (goal: string, maxSteps: number, plan?: boolean) => ZenAgentConfig,
 ): Promise<void> {
     const contextId = interaction.guildId ?? interaction.user.id;
 
@@ -81,6 +95,7 @@ export async function handleZenRun(
 
     const goal = interaction.options.getString("goal", true);
     const maxSteps = interaction.options.getInteger("max_steps") ?? 30;
+    const plan = interaction.options.getBoolean("plan") ?? undefined;
 
     await interaction.deferReply();
     const channel = interaction.channel;
@@ -99,21 +114,27 @@ export async function handleZenRun(
         createAgentConfig,
         channel as TextBasedChannel,
         contextId,
-        maxSteps
+        maxSteps,
+        plan,
+        interaction.user.id,
     );
 }
 
 /**
  * Shared logic to run a ZenAgent in a channel.
  * Can be called from Slash Command or DM logic.
+ * Tool calls that need approval are asked in the channel with approve/deny
+ * buttons (only approverId may answer, when given).
  */
 export async function runZenAgent(
     goal: string,
     agents: Map<string, ZenAgent>,
-    createAgentConfig: (goal: string, maxSteps: number) => ZenAgentConfig,
+    createAgentConfig: (goal: string, maxSteps: number, plan?: boolean) => ZenAgentConfig,
     channel: TextBasedChannel,
     contextId: string,
-    maxSteps: number = 30
+    maxSteps: number = 30,
+    plan?: boolean,
+    approverId?: string,
 ): Promise<void> {
     // Check if agent exists (redundant if called from handleZenRun, but good for safety)
     if (agents.has(contextId)) {
@@ -123,7 +144,7 @@ export async function runZenAgent(
         return;
     }
 
-    const config = createAgentConfig(goal, maxSteps);
+    const config = createAgentConfig(goal, maxSteps, plan);
     const agent = new ZenAgent(config);
     agents.set(contextId, agent);
 
@@ -142,6 +163,61 @@ export async function runZenAgent(
         send(`🧘 了解、「${typeof g === "string" ? g : g.description}」に取り掛かるよ`);
     });
 
+    agent.on("agent:paused", ({ step }) => {
+        send(`⏸️ Step ${step}で一時停止中。/zen resume で再開するよ`);
+    });
+
+    agent.on("agent:resumed", ({ step }) => {
+        send(`▶️ Step ${step}から再開するよ`);
+    });
+
+    agent.on("approval:requested", async ({ requestId, toolName, parameters, reason, timeoutMs }) => {
+        if (!("send" in channel)) return;
+        const args = JSON.stringify(parameters, null, 2).slice(0, 1500);
+        let prompt: Message;
+        try {
+            prompt = await (channel as any).send({
+                content: `🔐 **承認待ち**: \`${toolName}\` — ${reason}\n\`\`\`json\n${args}\n\`\`\``,
+                components: [
+                    new ActionRowBuilder<ButtonBuilder>().addComponents(
+                        new ButtonBuilder()
+                            .setCustomId(`approve:${requestId}`)
+                            .setLabel("承認")
+                            .setStyle(ButtonStyle.Success),
+                        new ButtonBuilder()
+                            .setCustomId(`deny:${requestId}`)
+                            .setLabel("却下")
+                            .setStyle(ButtonStyle.Danger),
+                    ),
+                ],
+            });
+        } catch {
+            // Can't ask here; the request times out with the policy's default
+            return;
+        }
+
+        try {
+            const decision = await prompt.awaitMessageComponent({
+                filter: (i) => !approverId || i.user.id === approverId,
+                time: timeoutMs,
+                componentType: ComponentType.Button,
+            });
+            const approved = decision.customId === `approve:${requestId}`;
+            agent.resolveApproval(requestId, { approved, by: decision.user.username });
+            await decision.update({
+                content: `${approved ? "✅ 承認" : "🚫 却下"}: \`${toolName}\` (${decision.user.username})`,
+                components: [],
+            });
+        } catch {
+            await prompt.edit({ content: `⌛ 承認タイムアウト: \`${toolName}\``, components: [] }).catch(() => { });
+        }
+    });
+
+    agent.on("plan:created", ({ milestones, replan }) => {
+        const list = milestones.map((m, i) => `${i + 1}. ${m.description}`).join("\n");
+        send(`${replan ? "🔁 計画を立て直したよ" : "🗺️ こう進めるね"}\n${list}`);
+    });
+
     agent.on("milestone:reached", ({ milestoneId }) => {
         send(`✅ マイルストーン「${milestoneId}」達成。次いくね`);
     });
@@ -153,6 +229,10 @@ export async function runZenAgent(
         }
     });
 
+    agent.on("skill:acquired", ({ skillId }) => {
+        send(`📚 スキル習得: ${skillId}`);
+    });
+
     agent.on("failure:recorded", ({ proverb, condition }) => {
         send(`📝 学んだ: "${proverb}" — ${condition}`);
     });
@@ -199,6 +279,14 @@ export async function runZenAgent(
         send(text);
     });
 
+    agent.on("budget:warning", ({ limit, used, max }) => {
+        send(`⚠️ 予算の${Math.round((used / max) * 100)}%を使ったよ (${limit})`);
+    });
+
+    agent.on("budget:exceeded", ({ limit }) => {
+        send(`🛑 予算の上限に届いたから止めるね (${limit})`);
+    });
+
     // Report cost
     agent.on("agent:complete", ({ cost, usage }) => {
         send(`💰 Cost: $${cost.toFixed(6)} (In: ${usage.promptTokens}, Out: ${usage.completionTokens})`);
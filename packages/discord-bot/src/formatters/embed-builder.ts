@@ -160,6 +160,7 @@ export function agentStatusEmbed(state: {
     delta?: Delta;
     currentMilestoneIndex?: number;
     running: boolean;
+    paused?: boolean;
     buddhistMetrics?: {
         sufferingDelta?: number;
         egoNoise?: number;
@@ -175,7 +176,9 @@ export function agentStatusEmbed(state: {
             { name: "Goal", value: state.goal.description },
             {
                 name: "Status",
-                value: state.running ? "🟢 Running" : "⚪ Idle",
+                value: state.paused
+                    ? "⏸️ Paused"
+                    : state.running ? "🟢 Running" : "⚪ Idle",
                 inline: true,
             },
             { name: "Steps", value: String(state.stepCount), inline: true },
@@ -4,14 +4,22 @@
 //
 // Usage:
 //   DISCORD_BOT_TOKEN=... OPENAI_API_KEY=... node dist/index.js
+//   DISCORD_BOT_TOKEN=... LOCAL_LLM_BASE_URL=http://localhost:11434/v1 LOCAL_LLM_MODEL=llama3.1 node dist/index.js
 // ============================================================================
 
+import { LocalAdapter } from "@zen-ai/adapter-local";
 import { ZenDiscordBot } from "./bot.js";
 
+// Run against a local OpenAI-compatible server when one is configured
+const localBaseUrl = process.env.LOCAL_LLM_BASE_URL;
+
 const bot = new ZenDiscordBot({
     maxStepsPerRun: 30,
     skillDBPath: "./memory/skills.json",
     failureDBPath: "./memory/failures.json",
+    createLLM: localBaseUrl
+        ? () => new LocalAdapter({ baseUrl: localBaseUrl, model: process.env.LOCAL_LLM_MODEL })
+        : undefined,
 });
 
 // Graceful shutdown
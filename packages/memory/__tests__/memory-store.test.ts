@@ -56,4 +56,15 @@ describe("MemoryStore", () => {
         expect(entries).toHaveLength(1);
         expect(entries[0].embedding).toBeUndefined();
     });
+
+    it("should prefer a configured embedder over the LLM", async () => {
+        const embedder = { embed: vi.fn().mockResolvedValue([1, 0]) };
+        const withEmbedder = new MemoryStore<TestEntry>({ llm: mockLLM, embedder });
+
+        await withEmbedder.store({ id: "1", name: "Test" } as TestEntry, "embedding text");
+        await withEmbedder.retrieve("query");
+
+        expect(embedder.embed).toHaveBeenCalledTimes(2);
+        expect(mockLLM.embed).not.toHaveBeenCalled();
+    });
 });
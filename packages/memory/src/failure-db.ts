@@ -7,6 +7,7 @@ import type {
     FailureDB as IFailureDB,
     FailureEntry,
     LLMAdapter,
+    Embedder,
 } from "@zen-ai/core";
 import { MemoryStore } from "./memory-store.js";
 
@@ -16,6 +17,8 @@ export interface FailureDBConfig {
     persistPath?: string;
     /** LLM adapter for embedding generation. */
     llm?: LLMAdapter;
+    /** Embedder for embedding generation. Takes precedence over llm. */
+    embedder?: Embedder;
 }
 
 /**
@@ -37,6 +40,7 @@ export class FailureKnowledgeDB implements IFailureDB {
         this.memoryStore = new MemoryStore<FailureEntry>({
             persistPath: config.persistPath,
             llm: config.llm,
+            embedder: config.embedder,
         });
     }
 
@@ -7,6 +7,7 @@ import type {
     KarmaMemoryDB as IKarmaMemoryDB,
     KarmaEntry,
     LLMAdapter,
+    Embedder,
 } from "@zen-ai/core";
 import { MemoryStore } from "./memory-store.js";
 
@@ -16,6 +17,8 @@ export interface KarmaMemoryConfig {
     persistPath?: string;
     /** LLM adapter for embedding generation. */
     llm?: LLMAdapter;
+    /** Embedder for embedding generation. Takes precedence over llm. */
+    embedder?: Embedder;
 }
 
 /**
@@ -36,6 +39,7 @@ export class KarmaMemory implements IKarmaMemoryDB {
         this.memoryStore = new MemoryStore<KarmaEntry>({
             persistPath: config.persistPath,
             llm: config.llm,
+            embedder: config.embedder,
         });
     }
 
@@ -5,7 +5,7 @@
 
 import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
-import type { LLMAdapter } from "@zen-ai/core";
+import type { Embedder, LLMAdapter } from "@zen-ai/core";
 import { cosineSimilarity, topKSimilar } from "./vector-utils.js";
 
 /** A stored entry with an ID and optional embedding. */
@@ -21,31 +21,33 @@ export interface MemoryStoreConfig {
     persistPath?: string;
     /** LLM adapter for generating embeddings. */
     llm?: LLMAdapter;
+    /** Embedder for generating embeddings (e.g. BM25Embedder, HttpEmbedder). Takes precedence over llm. */
+    embedder?: Embedder;
 }
 
 /**
  * MemoryStore — In-memory vector store with JSON persistence.
  *
- * Stores entries with optional embedding vectors. When an LLM adapter
- * is provided, embeddings are generated automatically on store().
+ * Stores entries with optional embedding vectors. When an embedder (or an
+ * LLM adapter) is provided, embeddings are generated automatically on store().
  * Retrieval uses cosine similarity for semantic search.
  */
 export class MemoryStore<T extends StoreEntry> {
     private entries = new Map<string, T>();
     private persistPath?: string;
-    private llm?: LLMAdapter;
+    private embedder?: Embedder;
     private dirty = false;
 
     constructor(config: MemoryStoreConfig = {}) {
         this.persistPath = config.persistPath;
-        this.llm = config.llm;
+        this.embedder = config.embedder ?? config.llm;
     }
 
     /** Store an entry, optionally generating an embedding. */
     async store(entry: T, embeddingText?: string): Promise<void> {
-        // Generate embedding if LLM is available and text is provided
-        if (this.llm && embeddingText && !entry.embedding) {
-            entry.embedding = await this.llm.embed(embeddingText);
+        // Generate embedding if an embedder is available and text is provided
+        if (this.embedder && embeddingText && !entry.embedding) {
+            entry.embedding = await this.embedder.embed(embeddingText);
         }
 
         this.entries.set(entry.id, entry);
@@ -59,12 +61,12 @@ export class MemoryStore<T extends StoreEntry> {
 
     /** Retrieve entries by semantic similarity. */
     async retrieve(query: string, topK = 5): Promise<T[]> {
-        if (!this.llm) {
+        if (!this.embedder) {
             // Fallback: return all entries if no embedding capability
             return Array.from(this.entries.values()).slice(0, topK);
         }
 
-        const queryEmbedding = await this.llm.embed(query);
+        const queryEmbedding = await this.embedder.embed(query);
         const items = Array.from(this.entries.values());
         const results = topKSimilar(queryEmbedding, items, topK);
 
@@ -3,7 +3,7 @@
 // "Store skills concretely. Abstraction kills executability."
 // ============================================================================
 
-import type { SkillDB as ISkillDB, SkillEntry, LLMAdapter } from "@zen-ai/core";
+import type { SkillDB as ISkillDB, SkillEntry, LLMAdapter, Embedder } from "@zen-ai/core";
 import { MemoryStore } from "./memory-store.js";
 
 /** Configuration for SkillDB. */
@@ -12,6 +12,8 @@ export interface SkillDBConfig {
     persistPath?: string;
     /** LLM adapter for embedding generation. */
     llm?: LLMAdapter;
+    /** Embedder for embedding generation. Takes precedence over llm. */
+    embedder?: Embedder;
 }
 
 /**
@@ -28,6 +30,7 @@ export class SkillDB implements ISkillDB {
         this.memoryStore = new MemoryStore<SkillEntry>({
             persistPath: config.persistPath,
             llm: config.llm,
+            embedder: config.embedder,
         });
     }
 
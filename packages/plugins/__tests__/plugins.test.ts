@@ -716,6 +716,22 @@ describe("Prajna: Vector similarity search", () => {
         // Results should be separate objects (not same reference)
         expect(results1[0]).not.toBe(results2[0]);
     });
+
+    it("should embed with a configured embedder", async () => {
+        const { PrajnaMemoryStore } = await import("../../plugins/prajna/src/index.js");
+
+        const embedder = {
+            embed: vi.fn(async (text: string) => (text.includes("kyoto") ? [1, 0] : [0, 1])),
+        };
+        const store = new PrajnaMemoryStore({ embedder });
+
+        await store.store({ layer: "semantic", content: "temples of kyoto", metadata: {}, relevance: 1.0 });
+        await store.store({ layer: "semantic", content: "ramen in sapporo", metadata: {}, relevance: 1.0 });
+
+        const results = await store.retrieve("old capital kyoto", "semantic", 1);
+        expect(embedder.embed).toHaveBeenCalledTimes(3);
+        expect(results[0].content).toBe("temples of kyoto");
+    });
 });
 
 // ---------------------------------------------------------------------------
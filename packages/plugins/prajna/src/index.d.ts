@@ -1,4 +1,4 @@
-import type { ZenPlugin, MemoryLayer, MemoryEntry, HierarchicalMemory } from "@zen-ai/core";
+import type { ZenPlugin, MemoryLayer, MemoryEntry, HierarchicalMemory, Embedder } from "@zen-ai/core";
 /** Configuration for the Prajna plugin. */
 export interface PrajnaConfig {
     /** Directory for memory persistence. */
@@ -16,9 +16,12 @@ export interface PrajnaConfig {
     /** Minimum relevance to promote from working to episodic. Default: 0.3. */
     promotionThreshold?: number;
     /**
-     * Optional: LLM embedding function for true semantic search.
-     * When provided, uses real embeddings instead of TF-IDF.
-     * Example: `(text) => llm.embed(text)`
+     * Embedder for semantic search (e.g. HttpEmbedder, or an LLM adapter).
+     * Default: a local BM25Embedder.
+     */
+    embedder?: Embedder;
+    /**
+     * @deprecated Use `embedder`. Embedding function, e.g. `(text) => llm.embed(text)`.
      */
     embedFn?: (text: string) => Promise<number[]>;
 }
@@ -45,7 +48,7 @@ declare class PrajnaMemoryStore implements HierarchicalMemory {
     private workingDecay;
     private episodicDecay;
     private promotionThreshold;
-    private embedFn;
+    private embedder;
     constructor(config: PrajnaConfig);
     store(entry: Omit<MemoryEntry, "id" | "createdAt" | "lastAccessed" | "accessCount">): Promise<string>;
     retrieve(query: string, layer?: MemoryLayer, topK?: number): Promise<MemoryEntry[]>;
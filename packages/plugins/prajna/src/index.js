@@ -19,50 +19,12 @@
 //   - afterDelta:    Consolidate memories periodically
 //   - beforeDecide:  Inject relevant memories into LLM prompt
 // ============================================================================
+import { BM25Embedder } from "@zen-ai/core";
 import { randomUUID } from "node:crypto";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import { cosineSimilarity } from "@zen-ai/memory";
 // ---------------------------------------------------------------------------
-// Text → Vector (TF-IDF-like bag-of-words embedding)
-// ---------------------------------------------------------------------------
-/** Shared vocabulary built incrementally from all stored memories. */
-const vocabulary = new Map();
-let nextVocabIdx = 0;
-function tokenize(text) {
-    return text
-        .toLowerCase()
-        .replace(/[^a-z0-9\u3040-\u9faf]/g, " ")
-        .split(/\s+/)
-        .filter((t) => t.length > 1);
-}
-function textToVector(text) {
-    const tokens = tokenize(text);
-    // Expand vocabulary
-    for (const t of tokens) {
-        if (!vocabulary.has(t)) {
-            vocabulary.set(t, nextVocabIdx++);
-        }
-    }
-    // Build sparse vector as dense (vocabulary may be small for agent use)
-    const vec = new Array(vocabulary.size).fill(0);
-    for (const t of tokens) {
-        vec[vocabulary.get(t)] += 1;
-    }
-    // Normalize (TF normalization)
-    const len = tokens.length || 1;
-    for (let i = 0; i < vec.length; i++) {
-        vec[i] /= len;
-    }
-    return vec;
-}
-/** Pad a vector to match the current vocabulary size. */
-function padVector(vec) {
-    if (vec.length >= vocabulary.size)
-        return vec;
-    return [...vec, ...new Array(vocabulary.size - vec.length).fill(0)];
-}
-// ---------------------------------------------------------------------------
 // In-Memory Hierarchical Store
 // ---------------------------------------------------------------------------
 class PrajnaMemoryStore {
@@ -75,7 +37,7 @@ class PrajnaMemoryStore {
     workingDecay;
     episodicDecay;
     promotionThreshold;
-    embedFn;
+    embedder;
     constructor(config) {
         this.persistDir = config.persistDir ?? null;
         this.maxWorking = config.maxWorkingMemory ?? 20;
@@ -83,15 +45,13 @@ class PrajnaMemoryStore {
         this.workingDecay = config.workingDecayRate ?? 0.1;
         this.episodicDecay = config.episodicDecayRate ?? 0.02;
         this.promotionThreshold = config.promotionThreshold ?? 0.3;
-        this.embedFn = config.embedFn ?? null;
+        this.embedder = config.embedder
+            ?? (config.embedFn ? { embed: config.embedFn } : new BM25Embedder());
     }
     async store(entry) {
         const id = randomUUID();
         const now = new Date().toISOString();
-        // Use LLM embeddings if available, otherwise TF-IDF fallback
-        const vec = this.embedFn
-            ? await this.embedFn(entry.content)
-            : textToVector(entry.content);
+        const vec = await this.embedder.embed(entry.content);
         const full = {
             ...entry,
             id,
@@ -109,24 +69,16 @@ class PrajnaMemoryStore {
         return id;
     }
     async retrieve(query, layer, topK = 5) {
-        // Use LLM embeddings if available, otherwise TF-IDF fallback
-        const queryVec = this.embedFn
-            ? await this.embedFn(query)
-            : textToVector(query);
+        const queryVec = await this.embedder.embed(query);
         const queryLower = query.toLowerCase();
         const candidates = [];
         const searchLayer = (map) => {
             for (const entry of map.values()) {
                 let score = 0;
-                // Vector similarity (primary)
-                if (entry._vec) {
-                    const paddedEntry = padVector(entry._vec);
-                    const paddedQuery = padVector(queryVec);
-                    // Ensure same length
-                    const maxLen = Math.max(paddedEntry.length, paddedQuery.length);
-                    const a = [...paddedEntry, ...new Array(Math.max(0, maxLen - paddedEntry.length)).fill(0)];
-                    const b = [...paddedQuery, ...new Array(Math.max(0, maxLen - paddedQuery.length)).fill(0)];
-                    score = cosineSimilarity(a, b);
+                // Vector similarity (primary). Vectors persisted by another
+                // embedder can differ in length; those rely on the text match.
+                if (entry._vec && entry._vec.length === queryVec.length) {
+                    score = cosineSimilarity(entry._vec, queryVec);
                 }
                 // Fallback: substring match bonus
                 if (entry.content.toLowerCase().includes(queryLower)) {
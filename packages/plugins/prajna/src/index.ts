@@ -31,56 +31,15 @@ import type {
     MemoryLayer,
     MemoryEntry,
     HierarchicalMemory,
+    Embedder,
 } from "@zen-ai/core";
+import { BM25Embedder } from "@zen-ai/core";
 
 import { randomUUID } from "node:crypto";
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
 import { cosineSimilarity } from "@zen-ai/memory";
 
-// ---------------------------------------------------------------------------
-// Text → Vector (TF-IDF-like bag-of-words embedding)
-// ---------------------------------------------------------------------------
-
-/** Shared vocabulary built incrementally from all stored memories. */
-const vocabulary = new Map<string, number>();
-let nextVocabIdx = 0;
-
-function tokenize(text: string): string[] {
-    return text
-        .toLowerCase()
-        .replace(/[^a-z0-9\u3040-\u9faf]/g, " ")
-        .split(/\s+/)
-        .filter((t) => t.length > 1);
-}
-
-function textToVector(text: string): number[] {
-    const tokens = tokenize(text);
-    // Expand vocabulary
-    for (const t of tokens) {
-        if (!vocabulary.has(t)) {
-            vocabulary.set(t, nextVocabIdx++);
-        }
-    }
-    // Build sparse vector as dense (vocabulary may be small for agent use)
-    const vec = new Array(vocabulary.size).fill(0);
-    for (const t of tokens) {
-        vec[vocabulary.get(t)!] += 1;
-    }
-    // Normalize (TF normalization)
-    const len = tokens.length || 1;
-    for (let i = 0; i < vec.length; i++) {
-        vec[i] /= len;
-    }
-    return vec;
-}
-
-/** Pad a vector to match the current vocabulary size. */
-function padVector(vec: number[]): number[] {
-    if (vec.length >= vocabulary.size) return vec;
-    return [...vec, ...new Array(vocabulary.size - vec.length).fill(0)];
-}
-
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
@@ -102,9 +61,12 @@ export interface PrajnaConfig {
     /** Minimum relevance to promote from working to episodic. Default: 0.3. */
     promotionThreshold?: number;
     /**
-     * Optional: LLM embedding function for true semantic search.
-     * When provided, uses real embeddings instead of TF-IDF.
-     * Example: `(text) => llm.embed(text)`
+     * Embedder for semantic search (e.g. HttpEmbedder, or an LLM adapter).
+     * Default: a local BM25Embedder.
+     */
+    embedder?: Embedder;
+    /**
+     * @deprecated Use `embedder`. Embedding function, e.g. `(text) => llm.embed(text)`.
      */
     embedFn?: (text: string) => Promise<number[]>;
 }
@@ -141,7 +103,7 @@ class PrajnaMemoryStore implements HierarchicalMemory {
     private workingDecay: number;
     private episodicDecay: number;
     private promotionThreshold: number;
-    private embedFn: ((text: string) => Promise<number[]>) | null;
+    private embedder: Embedder;
 
     constructor(config: PrajnaConfig) {
         this.persistDir = config.persistDir ?? null;
@@ -150,16 +112,14 @@ class PrajnaMemoryStore implements HierarchicalMemory {
         this.workingDecay = config.workingDecayRate ?? 0.1;
         this.episodicDecay = config.episodicDecayRate ?? 0.02;
         this.promotionThreshold = config.promotionThreshold ?? 0.3;
-        this.embedFn = config.embedFn ?? null;
+        this.embedder = config.embedder
+            ?? (config.embedFn ? { embed: config.embedFn } : new BM25Embedder());
     }
 
     async store(entry: Omit<MemoryEntry, "id" | "createdAt" | "lastAccessed" | "accessCount">): Promise<string> {
         const id = randomUUID();
         const now = new Date().toISOString();
-        // Use LLM embeddings if available, otherwise TF-IDF fallback
-        const vec = this.embedFn
-            ? await this.embedFn(entry.content)
-            : textToVector(entry.content);
+        const vec = await this.embedder.embed(entry.content);
         const full: MemoryEntry & { _vec?: number[] } = {
             ...entry,
             id,
@@ -181,10 +141,7 @@ class PrajnaMemoryStore implements HierarchicalMemory {
     }
 
     async retrieve(query: string, layer?: MemoryLayer, topK = 5): Promise<MemoryEntry[]> {
-        // Use LLM embeddings if available, otherwise TF-IDF fallback
-        const queryVec = this.embedFn
-            ? await this.embedFn(query)
-            : textToVector(query);
+        const queryVec = await this.embedder.embed(query);
         const queryLower = query.toLowerCase();
 
         type ScoredEntry = { entry: MemoryEntry & { _vec?: number[] }; score: number };
@@ -194,15 +151,10 @@ class PrajnaMemoryStore implements HierarchicalMemory {
             for (const entry of map.values()) {
                 let score = 0;
 
-                // Vector similarity (primary)
-                if (entry._vec) {
-                    const paddedEntry = padVector(entry._vec);
-                    const paddedQuery = padVector(queryVec);
-                    // Ensure same length
-                    const maxLen = Math.max(paddedEntry.length, paddedQuery.length);
-                    const a = [...paddedEntry, ...new Array(Math.max(0, maxLen - paddedEntry.length)).fill(0)];
-                    const b = [...paddedQuery, ...new Array(Math.max(0, maxLen - paddedQuery.length)).fill(0)];
-                    score = cosineSimilarity(a, b);
+                // Vector similarity (primary). Vectors persisted by another
+                // embedder can differ in length; those rely on the text match.
+                if (entry._vec && entry._vec.length === queryVec.length) {
+                    score = cosineSimilarity(entry._vec, queryVec);
                 }
 
                 // Fallback: substring match bonus
@@ -15,6 +15,7 @@
 //   - beforeDecide: Inject synthesized tool descriptions
 //   - onError: Synthesize recovery tools from error patterns
 // ============================================================================
+import { defineTool } from "@zen-ai/core";
 import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from "node:fs";
 import { join } from "node:path";
 // Security denylist for synthesized tool implementations
@@ -47,7 +48,7 @@ function createToolFromBlueprint(blueprint, timeoutMs = 5000) {
             throw new Error(`Synthesized tool "${blueprint.name}" rejected: implementation contains forbidden pattern ${pattern}`);
         }
     }
-    return {
+    return defineTool({
         name: blueprint.name,
         description: blueprint.description,
         parameters: blueprint.parameters,
@@ -77,7 +78,7 @@ function createToolFromBlueprint(blueprint, timeoutMs = 5000) {
                 };
             }
         },
-    };
+    });
 }
 // ---------------------------------------------------------------------------
 // Blueprint Persistence
@@ -138,11 +139,11 @@ Rules:
 - Keep implementations simple and deterministic
 - Do NOT synthesize tools that duplicate existing capabilities`;
     try {
-        const response = await llm.complete([
+        const response = await llm.chat([
             { role: "system", content: "You are a tool synthesis engine. Respond with ONLY valid JSON." },
             { role: "user", content: prompt },
-        ], { temperature: 0.3 });
-        const text = response.content.trim();
+        ]);
+        const text = (response.content ?? "").trim();
         // Extract JSON from potential markdown code blocks
         const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/) ?? [null, text];
         const json = jsonMatch[1]?.trim() ?? text;
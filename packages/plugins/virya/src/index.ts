@@ -16,6 +16,7 @@
 //   - onError: Synthesize recovery tools from error patterns
 // ============================================================================
 
+import { defineTool } from "@zen-ai/core";
 import type {
     ZenPlugin,
     ZenPluginHooks,
@@ -101,11 +102,11 @@ function createToolFromBlueprint(blueprint: ToolBlueprint, timeoutMs = 5000): To
         }
     }
 
-    return {
+    return defineTool({
         name: blueprint.name,
         description: blueprint.description,
         parameters: blueprint.parameters,
-        async execute(params: Record<string, unknown>): Promise<ToolResult> {
+        async execute(params): Promise<ToolResult> {
             try {
                 // Create a sandboxed function from the implementation string
                 // The function receives params and must return { success, output }
@@ -135,7 +136,7 @@ function createToolFromBlueprint(blueprint: ToolBlueprint, timeoutMs = 5000): To
                 };
             }
         },
-    };
+    });
 }
 
 // ---------------------------------------------------------------------------
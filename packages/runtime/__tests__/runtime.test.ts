@@ -11,6 +11,9 @@ import { ZenDaemon } from "../src/daemon.js";
 import { TriggerSystem, createTaskId, taskFromTrigger } from "../src/triggers.js";
 import { HealthMonitor } from "../src/monitor.js";
 import { TaskScheduler } from "../src/scheduler.js";
+import { ZenOrchestrator } from "../src/orchestrator.js";
+import { RISKY_TOOL_RULES } from "@zen-ai/core";
+import type { LLMAdapter, ZenAgentConfig } from "@zen-ai/core";
 import type { TaskDef, TriggerDef } from "../src/types.js";
 
 const TEST_STATE_DIR = ".zen-runtime-test";
@@ -82,6 +85,25 @@ describe("ZenDaemon (色 / Form)", () => {
         expect(after).not.toBe(before);
         await daemon.stop();
     });
+
+    it("should track daily spend against the cap", async () => {
+        const daemon = new ZenDaemon(TEST_STATE_DIR, 1);
+        expect(daemon.remainingDailyBudget()).toBe(1);
+
+        daemon.recordSpend(0.4);
+        daemon.recordSpend(0.3);
+        expect(daemon.getDailySpend()).toBeCloseTo(0.7);
+        expect(daemon.isDailyBudgetExhausted()).toBe(false);
+
+        // Spend survives a restart
+        const daemon2 = new ZenDaemon(TEST_STATE_DIR, 1);
+        daemon2.recordSpend(0.5);
+        expect(daemon2.remainingDailyBudget()).toBe(0);
+        expect(daemon2.isDailyBudgetExhausted()).toBe(true);
+
+        // No cap → never exhausted
+        expect(new ZenDaemon(TEST_STATE_DIR).remainingDailyBudget()).toBe(Infinity);
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -137,7 +159,7 @@ describe("TriggerSystem (受 / Sensation)", () => {
             id: "t1",
             type: "cron",
             pattern: "0 9 * * *",
-            task: { goal: "Morning check", priority: 1, maxSteps: 20 },
+            task: { goal: "Morning check", priority: 1, maxSteps: 20, budget: { maxCostUsd: 0.5 } },
             enabled: true,
         };
 
@@ -145,6 +167,7 @@ describe("TriggerSystem (受 / Sensation)", () => {
         expect(task.goal).toBe("Morning check");
         expect(task.priority).toBe(1);
         expect(task.maxSteps).toBe(20);
+        expect(task.budget).toEqual({ maxCostUsd: 0.5 });
         expect(task.status).toBe("pending");
     });
 
@@ -326,3 +349,31 @@ describe("TaskScheduler (行 / Formation)", () => {
         expect(first!.goal).toBe("Task A");
     });
 });
+
+// ---------------------------------------------------------------------------
+// Orchestrator — agent configuration
+// ---------------------------------------------------------------------------
+describe("ZenOrchestrator agent config", () => {
+    beforeEach(cleanup);
+    afterEach(cleanup);
+
+    const llm: LLMAdapter = {
+        complete: async () => "",
+        embed: async () => [],
+        chat: async () => ({ content: null }),
+    };
+    const agentConfig = (orchestrator: ZenOrchestrator): ZenAgentConfig =>
+        (orchestrator as unknown as { createAgentConfig(goal: string, maxSteps: number): ZenAgentConfig })
+            .createAgentConfig("Deploy", 5);
+
+    it("should gate risky tools by default, unless approval is false", () => {
+        const gated = agentConfig(new ZenOrchestrator({ stateDir: TEST_STATE_DIR, createLLM: () => llm }));
+        expect(gated.approval).toEqual({ rules: RISKY_TOOL_RULES });
+
+        const custom = { rules: [{ tool: "shell_exec" }], timeoutMs: 1000 };
+        expect(agentConfig(new ZenOrchestrator({ stateDir: TEST_STATE_DIR, createLLM: () => llm, approval: custom })).approval).toBe(custom);
+
+        const ungated = agentConfig(new ZenOrchestrator({ stateDir: TEST_STATE_DIR, createLLM: () => llm, approval: false }));
+        expect(ungated.approval).toBeUndefined();
+    });
+});
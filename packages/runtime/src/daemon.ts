@@ -20,8 +20,14 @@ export class ZenDaemon {
     private startTime: number;
     private shutdownHandlers: Array<() => Promise<void> | void> = [];
     private signalsRegistered = false;
-
-    constructor(stateDir: string) {
+    private readonly dailyBudgetUsd: number | null;
+
+    /**
+     * @param stateDir Directory for the PID and state files.
+     * @param dailyBudgetUsd Spend cap in USD across all tasks per day (optional).
+     */
+    constructor(stateDir: string, dailyBudgetUsd?: number) {
+        this.dailyBudgetUsd = dailyBudgetUsd ?? null;
         if (!existsSync(stateDir)) {
             mkdirSync(stateDir, { recursive: true });
         }
@@ -119,6 +125,34 @@ export class ZenDaemon {
         this.saveState();
     }
 
+    /** Add a task's estimated cost to today's spend. */
+    recordSpend(costUsd: number): void {
+        const today = this.today();
+        if (this.state.dailySpend?.date !== today) {
+            this.state.dailySpend = { date: today, costUsd: 0 };
+        }
+        this.state.dailySpend.costUsd += costUsd;
+        this.saveState();
+    }
+
+    /** Estimated spend so far today in USD. */
+    getDailySpend(): number {
+        return this.state.dailySpend?.date === this.today()
+            ? this.state.dailySpend.costUsd
+            : 0;
+    }
+
+    /** USD left under the daily cap (Infinity when no cap is set). */
+    remainingDailyBudget(): number {
+        if (this.dailyBudgetUsd === null) return Infinity;
+        return Math.max(0, this.dailyBudgetUsd - this.getDailySpend());
+    }
+
+    /** True once today's spend has reached the daily cap. */
+    isDailyBudgetExhausted(): boolean {
+        return this.remainingDailyBudget() <= 0;
+    }
+
     /** Check if the daemon is running (via PID file). */
     isRunning(): boolean {
         if (!existsSync(this.pidFile)) return false;
@@ -134,6 +168,14 @@ export class ZenDaemon {
 
     // --- Private helpers ---
 
+    /** Local calendar date (YYYY-MM-DD) used to roll the daily spend over. */
+    private today(): string {
+        const now = new Date();
+        const month = String(now.getMonth() + 1).padStart(2, "0");
+        const day = String(now.getDate()).padStart(2, "0");
+        return `${now.getFullYear()}-${month}-${day}`;
+    }
+
     private updateUptime(): void {
         this.state.uptimeSeconds = Math.floor((Date.now() - this.startTime) / 1000);
     }
@@ -180,6 +222,7 @@ export class ZenDaemon {
                 // Carry over cumulative stats
                 this.state.tasksExecuted = loaded.tasksExecuted ?? 0;
                 this.state.tasksFailed = loaded.tasksFailed ?? 0;
+                this.state.dailySpend = loaded.dailySpend;
             }
         } catch {
             // Start fresh
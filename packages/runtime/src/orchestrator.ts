@@ -3,8 +3,8 @@
 // The integrating consciousness: agent lifecycle, task execution, main loop.
 // ============================================================================
 
-import { ZenAgent } from "@zen-ai/core";
-import type { ZenAgentConfig, Tool, LLMAdapter } from "@zen-ai/core";
+import { ZenAgent, RISKY_TOOL_RULES } from "@zen-ai/core";
+import type { ZenAgentConfig, Tool, LLMAdapter, Budget, PlannerOptions } from "@zen-ai/core";
 import { OpenAIAdapter } from "@zen-ai/adapter-openai";
 import { SkillDB, FailureKnowledgeDB, KarmaMemory } from "@zen-ai/memory";
 import {
@@ -54,6 +54,7 @@ export class ZenOrchestrator {
     private running = false;
     private currentAgent: ZenAgent | null = null;
     private healthInterval: ReturnType<typeof setInterval> | null = null;
+    private dailyCapLogged = false;
 
     constructor(config: OrchestratorConfig = {}) {
         const stateDir = config.stateDir ?? ".zen-runtime";
@@ -67,7 +68,7 @@ export class ZenOrchestrator {
             stateDir,
         };
 
-        this.daemon = new ZenDaemon(stateDir);
+        this.daemon = new ZenDaemon(stateDir, config.dailyBudgetUsd);
         this.scheduler = new TaskScheduler(stateDir);
         this.monitor = new HealthMonitor(this.config.memoryLimitMB);
 
@@ -158,10 +159,20 @@ export class ZenOrchestrator {
                 this.daemon.heartbeat();
                 this.monitor.setQueueLength(this.scheduler.length);
 
-                // Dequeue next task
-                const task = this.scheduler.dequeue();
-                if (task) {
-                    await this.runTask(task);
+                // Daily spend cap: leave tasks queued until the day rolls over
+                if (this.daemon.isDailyBudgetExhausted()) {
+                    if (!this.dailyCapLogged) {
+                        console.warn(`💸 Daily spend cap reached ($${this.daemon.getDailySpend().toFixed(6)}) — tasks stay queued`);
+                        this.dailyCapLogged = true;
+                    }
+                } else {
+                    this.dailyCapLogged = false;
+
+                    // Dequeue next task
+                    const task = this.scheduler.dequeue();
+                    if (task) {
+                        await this.runTask(task);
+                    }
                 }
 
                 // Sleep between iterations
@@ -178,12 +189,17 @@ export class ZenOrchestrator {
     }
 
     /** Enqueue a task manually. */
-    enqueue(goal: string, options: { priority?: number; maxSteps?: number } = {}): string {
+    enqueue(
+        goal: string,
+        options: { priority?: number; maxSteps?: number; budget?: Budget; planner?: boolean | PlannerOptions } = {},
+    ): string {
         const task: TaskDef = {
             id: createTaskId(),
             goal,
             priority: options.priority ?? 5,
             maxSteps: options.maxSteps ?? this.config.defaultMaxSteps,
+            budget: options.budget,
+            planner: options.planner,
             createdAt: new Date().toISOString(),
             status: "pending",
         };
@@ -193,12 +209,19 @@ export class ZenOrchestrator {
     }
 
     /** Run a single task immediately (bypass queue). */
-    async runTaskImmediate(goal: string, maxSteps?: number): Promise<void> {
+    async runTaskImmediate(
+        goal: string,
+        maxSteps?: number,
+        budget?: Budget,
+        planner?: boolean | PlannerOptions,
+    ): Promise<void> {
         const task: TaskDef = {
             id: createTaskId(),
             goal,
             priority: 0,
             maxSteps: maxSteps ?? this.config.defaultMaxSteps,
+            budget,
+            planner,
             createdAt: new Date().toISOString(),
             status: "running",
         };
@@ -231,18 +254,28 @@ export class ZenOrchestrator {
 
     /** Execute a single task by creating and running a ZenAgent. */
     private async runTask(task: TaskDef): Promise<void> {
+        if (this.daemon.isDailyBudgetExhausted()) {
+            // Not a task failure worth learning from — just out of money for today
+            this.scheduler.fail(task.id, "Daily spend cap reached");
+            console.warn(`💸 Task "${task.goal}" skipped: daily spend cap reached`);
+            return;
+        }
+
         console.log(`\n🎯 Running task: "${task.goal}"`);
         const startTime = Date.now();
+        let agent: ZenAgent | null = null;
 
         try {
             // Create agent config
             const agentConfig = this.createAgentConfig(
                 task.goal,
                 task.maxSteps ?? this.config.defaultMaxSteps,
+                this.taskBudget(task),
+                task.planner ?? this.config.defaultPlanner,
             );
 
             // Create and run agent
-            const agent = new ZenAgent(agentConfig);
+            agent = new ZenAgent(agentConfig);
             this.currentAgent = agent;
 
             // Track progress
@@ -252,14 +285,40 @@ export class ZenOrchestrator {
                 }
             });
 
+            agent.on("plan:created", ({ milestones, replan }) => {
+                console.log(`  🗺️ ${replan ? "Re-planned" : "Planned"}: ${milestones.map((m) => m.id).join(" → ")}`);
+            });
+
             agent.on("milestone:reached", ({ milestoneId }) => {
                 console.log(`  🏔️ Milestone reached: ${milestoneId}`);
             });
 
-            // Report cost
-            agent.on("agent:complete", ({ cost, usage }) => {
+            agent.on("milestone:failed", ({ milestoneId, error, policy }) => {
+                console.warn(`  ❌ Milestone failed: ${milestoneId} — ${error.message}${policy ? ` (${policy})` : ""}`);
+            });
+
+            agent.on("approval:requested", (request) => {
+                console.warn(`  🔐 Approval needed: ${request.toolName} — ${request.reason}`);
+                if (!this.config.approver) return;
+                Promise.resolve(this.config.approver(request))
+                    .then((decision) => agent?.resolveApproval(request.requestId, decision))
+                    .catch(() => {
+                        // Unanswered: the request times out with the policy's decision
+                    });
+            });
+
+            agent.on("budget:warning", ({ limit, used, max }) => {
+                console.warn(`  ⚠️ Budget warning: ${limit} ${used}/${max}`);
+            });
+
+            // Report cost (priced by the agent for its adapter's model)
+            const model = agentConfig.llm.model ?? "unknown model";
+            agent.on("agent:complete", ({ cost, usage, reason }) => {
+                if (reason === "budget:exceeded") {
+                    console.warn("  🛑 Budget exceeded — run ended early");
+                }
                 console.log(
-                    `  💰 Cost: $${cost.toFixed(6)} (In: ${usage.promptTokens}, Out: ${usage.completionTokens})`
+                    `  💰 Cost: $${cost.toFixed(6)} [${model}] (In: ${usage.promptTokens}, Out: ${usage.completionTokens})`
                 );
             });
 
@@ -281,14 +340,40 @@ export class ZenOrchestrator {
             // Record failure for future learning
             await this.recordRuntimeFailure(task, msg);
         } finally {
+            if (agent) this.daemon.recordSpend(agent.calculateCost());
             this.currentAgent = null;
         }
     }
 
-    /** Create a ZenAgentConfig from a goal. */
-    private createAgentConfig(goal: string, maxSteps: number): ZenAgentConfig {
+    /**
+     * The budget for a task run: the task's own (or the default),
+     * with maxCostUsd clamped to what is left of the daily cap.
+     */
+    private taskBudget(task: TaskDef): Budget | undefined {
+        const budget = task.budget ?? this.config.defaultBudget;
+        const remaining = this.daemon.remainingDailyBudget();
+        if (remaining === Infinity) return budget;
+        return {
+            ...budget,
+            maxCostUsd: Math.min(budget?.maxCostUsd ?? Infinity, remaining),
+        };
+    }
+
+    /** The LLM adapter for a new agent: the configured factory, else OpenAI. */
+    private createLLM(): LLMAdapter {
+        if (this.config.createLLM) return this.config.createLLM();
         const apiKey = this.config.openaiApiKey ?? process.env.OPENAI_API_KEY;
-        const llm: LLMAdapter = new OpenAIAdapter(apiKey ? { apiKey } : undefined);
+        return new OpenAIAdapter(apiKey ? { apiKey } : undefined);
+    }
+
+    /** Create a ZenAgentConfig from a goal. */
+    private createAgentConfig(
+        goal: string,
+        maxSteps: number,
+        budget?: Budget,
+        planner?: boolean | PlannerOptions,
+    ): ZenAgentConfig {
+        const llm = this.createLLM();
 
         const tools: Tool[] = [
             fileReadTool,
@@ -307,8 +392,14 @@ export class ZenOrchestrator {
             llm,
             tools,
             maxSteps,
+            budget,
+            planner,
         };
 
+        if (this.config.approval !== false) {
+            config.approval = this.config.approval ?? { rules: RISKY_TOOL_RULES };
+        }
+
         if (this.config.skillDBPath) {
             config.skillDB = new SkillDB({
                 persistPath: this.config.skillDBPath,
@@ -341,8 +432,7 @@ export class ZenOrchestrator {
         if (!this.config.failureDBPath) return;
 
         try {
-            const apiKey = this.config.openaiApiKey ?? process.env.OPENAI_API_KEY;
-            const llm = new OpenAIAdapter(apiKey ? { apiKey } : undefined);
+            const llm = this.createLLM();
             const failureDB = new FailureKnowledgeDB({
                 persistPath: this.config.failureDBPath,
                 llm,
@@ -4,6 +4,7 @@
 //Usage: node dist/start.js
 // ============================================================================
 
+import { LocalAdapter } from "@zen-ai/adapter-local";
 import { ZenOrchestrator } from "./orchestrator.js";
 import { join, resolve } from "node:path";
 import { config } from "dotenv";
@@ -18,6 +19,13 @@ async function main() {
         stateDir: join(process.cwd(), ".zen-runtime"),
         // Load API key from env
         openaiApiKey: process.env.OPENAI_API_KEY,
+        // Run fully offline against a local OpenAI-compatible server, if configured
+        createLLM: process.env.LOCAL_LLM_BASE_URL
+            ? () => new LocalAdapter({
+                baseUrl: process.env.LOCAL_LLM_BASE_URL,
+                model: process.env.LOCAL_LLM_MODEL,
+            })
+            : undefined,
         // Default intervals
         loopIntervalMs: 5000,
         healthCheckIntervalMs: 30000,
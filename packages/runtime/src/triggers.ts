@@ -185,6 +185,8 @@ export function taskFromTrigger(trigger: TriggerDef): TaskDef {
         goal: trigger.task.goal,
         priority: trigger.task.priority,
         maxSteps: trigger.task.maxSteps,
+        budget: trigger.task.budget,
+        planner: trigger.task.planner,
         createdAt: new Date().toISOString(),
         status: "pending",
     };
@@ -19,6 +19,10 @@ export interface TaskDef {
     schedule?: string;
     /** Maximum steps for this task. */
     maxSteps?: number;
+    /** Token / USD ceilings for this task's run. */
+    budget?: import("@zen-ai/core").Budget;
+    /** Let the LLM plan milestones for this task. Default: the orchestrator's defaultPlanner. */
+    planner?: boolean | import("@zen-ai/core").PlannerOptions;
     /** When this task was created. */
     createdAt: string;
     /** Current status. */
@@ -49,6 +53,8 @@ export interface DaemonState {
     lastHeartbeat: string;
     /** Uptime in seconds. */
     uptimeSeconds: number;
+    /** Estimated LLM spend for the current day (local date). */
+    dailySpend?: { date: string; costUsd: number };
 }
 
 // ---------------------------------------------------------------------------
@@ -109,8 +115,19 @@ export interface OrchestratorConfig {
     stateDir?: string;
     /** OpenAI API key. Defaults to OPENAI_API_KEY env var. */
     openaiApiKey?: string;
+    /**
+     * Factory for the LLM adapter of each agent (e.g. a LocalAdapter to run offline).
+     * Default: an OpenAIAdapter using openaiApiKey.
+     */
+    createLLM?: () => import("@zen-ai/core").LLMAdapter;
     /** Default max steps per task. Default: 50. */
     defaultMaxSteps?: number;
+    /** Default budget for tasks that don't carry their own. */
+    defaultBudget?: import("@zen-ai/core").Budget;
+    /** Milestone planner for tasks that don't set their own. Default: off. */
+    defaultPlanner?: boolean | import("@zen-ai/core").PlannerOptions;
+    /** Daily spend cap in USD across all tasks. Default: no cap. */
+    dailyBudgetUsd?: number;
     /** Main loop interval in ms. Default: 5000. */
     loopIntervalMs?: number;
     /** Health check interval in ms. Default: 30000. */
@@ -127,6 +144,19 @@ export interface OrchestratorConfig {
     triggers?: TriggerDef[];
     /** Additional tools for agents. */
     tools?: import("@zen-ai/core").Tool[];
+    /**
+     * Tool calls that need approval before they run, or false to run every
+     * call unasked. Default: { rules: RISKY_TOOL_RULES } (shell, file writes,
+     * sending HTTP requests).
+     */
+    approval?: import("@zen-ai/core").ApprovalPolicy | false;
+    /**
+     * Decides approval requests. Without it, requests wait for the policy's
+     * timeout and get its onTimeout decision.
+     */
+    approver?: (
+        request: import("@zen-ai/core").ZenAgentEvents["approval:requested"],
+    ) => Promise<import("@zen-ai/core").ApprovalDecision> | import("@zen-ai/core").ApprovalDecision;
 }
 
 // ---------------------------------------------------------------------------
@@ -2,7 +2,8 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { fileReadTool, fileWriteTool } from "../src/file-tool.js";
 import { httpTool } from "../src/http-tool.js";
 import { createShellTool } from "../src/shell-tool.js";
-import { writeFile, unlink, mkdir, rmdir } from "node:fs/promises";
+import { createPreviewTool } from "../src/preview-tool.js";
+import { writeFile, unlink, mkdir, rmdir, rm } from "node:fs/promises";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 
@@ -110,3 +111,36 @@ describe("httpTool", () => {
         expect(result.error).toBeDefined();
     });
 });
+
+describe("createPreviewTool", () => {
+    const previewDir = join(tmpdir(), "zen-ai-preview-" + Date.now());
+
+    afterEach(async () => {
+        await rm(previewDir, { recursive: true, force: true });
+    });
+
+    it("should attach a screenshot of the deployed page", async () => {
+        const screenshot = vi.fn(async () => new Uint8Array([137, 80, 78, 71]));
+        const tool = createPreviewTool(previewDir, "http://preview.test", { screenshot });
+
+        const result = await tool.execute({ project_name: "tetris", html: "<h1>Tetris</h1>" });
+
+        expect(result.success).toBe(true);
+        expect(screenshot).toHaveBeenCalledWith("http://preview.test/tetris/", undefined);
+        expect(result.content).toEqual([
+            { type: "image", data: Buffer.from([137, 80, 78, 71]).toString("base64"), mimeType: "image/png" },
+        ]);
+    });
+
+    it("should still report the deploy when the screenshot fails", async () => {
+        const tool = createPreviewTool(previewDir, "http://preview.test", {
+            screenshot: async () => { throw new Error("no browser"); },
+        });
+
+        const result = await tool.execute({ project_name: "tetris", html: "<h1>Tetris</h1>" });
+
+        expect(result.success).toBe(true);
+        expect(result.output).toContain("screenshot failed: no browser");
+        expect(result.content).toBeUndefined();
+    });
+});
@@ -5,7 +5,8 @@
 
 import { readdir, stat } from "node:fs/promises";
 import { join } from "node:path";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 interface DirEntry {
     name: string;
@@ -14,7 +15,7 @@ interface DirEntry {
 }
 
 /** Tool for listing directory contents. */
-export const directoryListTool: Tool = {
+export const directoryListTool = defineTool({
     name: "directory_list",
     description:
         "List files and directories at the given path. Returns name, type, and size for each entry.",
@@ -23,23 +24,21 @@ export const directoryListTool: Tool = {
         properties: {
             path: { type: "string", description: "Absolute path to the directory" },
             recursive: {
-                type: "string",
-                description: "If 'true', list recursively (default: 'false')",
+                type: "boolean",
+                description: "List recursively (default: false)",
+                default: false,
             },
             maxDepth: {
-                type: "string",
-                description: "Max recursion depth (default: '3')",
+                type: "integer",
+                description: "Max recursion depth (default: 3)",
+                default: 3,
             },
         },
         required: ["path"],
     },
-    async execute(params): Promise<ToolResult> {
+    async execute({ path, recursive, maxDepth }): Promise<ToolResult> {
         try {
-            const dirPath = params.path as string;
-            const recursive = (params.recursive as string) === "true";
-            const maxDepth = parseInt((params.maxDepth as string) ?? "3", 10);
-
-            const entries = await listDir(dirPath, recursive, maxDepth, 0);
+            const entries = await listDir(path, recursive, maxDepth, 0);
 
             return {
                 success: true,
@@ -53,7 +52,7 @@ export const directoryListTool: Tool = {
             };
         }
     },
-};
+});
 
 async function listDir(
     dirPath: string,
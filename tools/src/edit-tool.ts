@@ -4,14 +4,16 @@
 // ============================================================================
 
 import { readFile, writeFile } from "node:fs/promises";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 /** Tool for targeted code editing. */
-export const codeEditTool: Tool = {
+export const codeEditTool = defineTool({
     name: "code_edit",
     description:
         "Edit a file by replacing a specific text pattern with new content. " +
         "More precise than file_write — only changes the targeted portion.",
+    sideEffects: true,
     parameters: {
         type: "object",
         properties: {
@@ -27,12 +29,8 @@ export const codeEditTool: Tool = {
         },
         required: ["filePath", "search", "replace"],
     },
-    async execute(params): Promise<ToolResult> {
+    async execute({ filePath, search, replace }): Promise<ToolResult> {
         try {
-            const filePath = params.filePath as string;
-            const search = params.search as string;
-            const replace = params.replace as string;
-
             const content = await readFile(filePath, "utf-8");
 
             // Check if search pattern exists
@@ -72,7 +70,7 @@ export const codeEditTool: Tool = {
             };
         }
     },
-};
+});
 
 function countOccurrences(text: string, search: string): number {
     let count = 0;
@@ -5,10 +5,11 @@
 
 import { readFile, writeFile, mkdir } from "node:fs/promises";
 import { dirname } from "node:path";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 /** Tool for reading files. */
-export const fileReadTool: Tool = {
+export const fileReadTool = defineTool({
     name: "file_read",
     description: "Read the contents of a file at the given path.",
     parameters: {
@@ -20,7 +21,7 @@ export const fileReadTool: Tool = {
     },
     async execute(params): Promise<ToolResult> {
         try {
-            const content = await readFile(params.path as string, "utf-8");
+            const content = await readFile(params.path, "utf-8");
             return { success: true, output: content };
         } catch (error) {
             return {
@@ -30,13 +31,14 @@ export const fileReadTool: Tool = {
             };
         }
     },
-};
+});
 
 /** Tool for writing files. */
-export const fileWriteTool: Tool = {
+export const fileWriteTool = defineTool({
     name: "file_write",
     description:
         "Write content to a file at the given path. Creates parent directories if needed.",
+    sideEffects: true,
     parameters: {
         type: "object",
         properties: {
@@ -47,9 +49,9 @@ export const fileWriteTool: Tool = {
     },
     async execute(params): Promise<ToolResult> {
         try {
-            const filePath = params.path as string;
+            const filePath = params.path;
             await mkdir(dirname(filePath), { recursive: true });
-            await writeFile(filePath, params.content as string, "utf-8");
+            await writeFile(filePath, params.content, "utf-8");
             return { success: true, output: `Written to ${filePath}` };
         } catch (error) {
             return {
@@ -59,4 +61,4 @@ export const fileWriteTool: Tool = {
             };
         }
     },
-};
+});
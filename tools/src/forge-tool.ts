@@ -7,7 +7,8 @@
 import { readFile, writeFile, readdir, mkdir } from "node:fs/promises";
 import { existsSync } from "node:fs";
 import { join } from "node:path";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ParameterSchema, Tool, ToolResult } from "@zen-ai/core";
 
 // ---------------------------------------------------------------------------
 // Forge Directory — where tools live on disk
@@ -15,6 +16,9 @@ import type { Tool, ToolResult } from "@zen-ai/core";
 
 const DEFAULT_FORGE_DIR = join(process.cwd(), "data", "forged-tools");
 
+/** Maximum execution time for a forged tool (10 seconds). */
+const FORGED_TOOL_TIMEOUT = 10_000;
+
 /** Registry of forged tools loaded at runtime. */
 const forgedTools: Map<string, Tool> = new Map();
 
@@ -26,12 +30,8 @@ const forgedTools: Map<string, Tool> = new Map();
 export interface ForgedToolSpec {
     name: string;
     description: string;
-    parameters: {
-        type: string;
-        properties: Record<string, { type: string; description: string }>;
-        required?: string[];
-    };
-    /** JavaScript body. Receives `params` and `require`. Must return { success, output } or throw. */
+    parameters: ParameterSchema;
+    /** JavaScript body. Receives `params`, `require` and `signal`. Must return { success, output } or throw. */
     implementation: string;
     forgedAt: string;
     /** Optional: npm packages this tool depends on. */
@@ -40,26 +40,34 @@ export interface ForgedToolSpec {
 
 /**
  * Create a live Tool from a ForgedToolSpec.
- * The implementation runs in a sandboxed Function with a 10s timeout.
+ * The implementation runs in a sandboxed Function with a 10s timeout,
+ * and is abandoned as soon as the agent's signal aborts.
  */
 function createToolFromSpec(spec: ForgedToolSpec): Tool {
-    return {
+    return defineTool({
         name: spec.name,
         description: spec.description,
         parameters: spec.parameters,
-        async execute(params: Record<string, unknown>): Promise<ToolResult> {
+        async execute(params, ctx): Promise<ToolResult> {
+            const signal = ctx?.signal
+                ? AbortSignal.any([AbortSignal.timeout(FORGED_TOOL_TIMEOUT), ctx.signal])
+                : AbortSignal.timeout(FORGED_TOOL_TIMEOUT);
             try {
-                const fn = new Function("params", "require", `
+                const fn = new Function("params", "require", "signal", `
                     "use strict";
                     return (async () => {
                         ${spec.implementation}
                     })();
                 `);
                 const result = await Promise.race([
-                    fn(params, require),
-                    new Promise((_, reject) =>
-                        setTimeout(() => reject(new Error("Forged tool execution timed out (10s)")), 10_000),
-                    ),
+                    fn(params, require, signal),
+                    new Promise((_, reject) => {
+                        signal.addEventListener("abort", () => reject(
+                            signal.reason instanceof DOMException && signal.reason.name === "TimeoutError"
+                                ? new Error("Forged tool execution timed out (10s)")
+                                : signal.reason,
+                        ), { once: true });
+                    }),
                 ]);
                 // Normalize result
                 if (result && typeof result === "object" && "success" in result) {
@@ -74,7 +82,7 @@ function createToolFromSpec(spec: ForgedToolSpec): Tool {
                 };
             }
         },
-    };
+    });
 }
 
 // ---------------------------------------------------------------------------
@@ -134,14 +142,15 @@ export function createForgeTool(
     addTool: (tool: Tool) => void,
     forgeDir: string = DEFAULT_FORGE_DIR,
 ): Tool {
-    return {
+    return defineTool({
         name: "tool_forge",
         description:
             "Create a new tool that the agent can use. " +
             "The tool is saved to disk and survives restarts. " +
             "Use this when you need a capability you don't currently have. " +
-            "The implementation is JavaScript code that receives 'params' object and 'require' function. " +
+            "The implementation is JavaScript code that receives 'params' object, 'require' function and an AbortSignal 'signal'. " +
             "It must return { success: true, output: ... } or throw an error.",
+        sideEffects: true,
         parameters: {
             type: "object",
             properties: {
@@ -171,13 +180,11 @@ export function createForgeTool(
             },
             required: ["name", "description", "parameters_json", "implementation"],
         },
-        async execute(params): Promise<ToolResult> {
+        async execute(params, ctx): Promise<ToolResult> {
             try {
-                const name = params.name as string;
-                const description = params.description as string;
-                const parametersJson = params.parameters_json as string;
-                const implementation = params.implementation as string;
-                const depsStr = (params.dependencies as string) || "";
+                const { name, description, implementation } = params;
+                const parametersJson = params.parameters_json;
+                const depsStr = params.dependencies || "";
 
                 // Validate name
                 if (!/^[a-z][a-z0-9_]*$/.test(name)) {
@@ -220,6 +227,7 @@ export function createForgeTool(
                             await execAsync(`npm install ${dep} --save`, {
                                 cwd: process.cwd(),
                                 timeout: 60_000,
+                                signal: ctx?.signal,
                             });
                         } catch (e) {
                             return {
@@ -274,7 +282,7 @@ export function createForgeTool(
                 };
             }
         },
-    };
+    });
 }
 
 /** Get all currently loaded forged tools. */
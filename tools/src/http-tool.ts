@@ -3,15 +3,20 @@
 // Make HTTP GET/POST requests.
 // ============================================================================
 
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 /** Maximum response size (512KB). */
 const MAX_RESPONSE_SIZE = 512 * 1024;
 
+/** Request timeout (30 seconds), on top of the agent's signal. */
+const REQUEST_TIMEOUT = 30_000;
+
 /** HTTP request tool. */
-export const httpTool: Tool = {
+export const httpTool = defineTool({
     name: "http_request",
     description: "Make an HTTP request (GET or POST) to a URL and return the response.",
+    sideEffects: true,
     parameters: {
         type: "object",
         properties: {
@@ -31,12 +36,12 @@ export const httpTool: Tool = {
         },
         required: ["url"],
     },
-    async execute(params): Promise<ToolResult> {
+    async execute(params, ctx): Promise<ToolResult> {
         try {
-            const url = params.url as string;
-            const method = ((params.method as string) ?? "GET").toUpperCase();
+            const url = params.url;
+            const method = (params.method ?? "GET").toUpperCase();
             const headers: Record<string, string> = params.headers
-                ? JSON.parse(params.headers as string)
+                ? JSON.parse(params.headers)
                 : {};
 
             const fetchOptions: RequestInit = {
@@ -45,11 +50,13 @@ export const httpTool: Tool = {
                     "User-Agent": "ZEN-AI-SDK/1.0",
                     ...headers,
                 },
-                signal: AbortSignal.timeout(30_000),
+                signal: ctx?.signal
+                    ? AbortSignal.any([AbortSignal.timeout(REQUEST_TIMEOUT), ctx.signal])
+                    : AbortSignal.timeout(REQUEST_TIMEOUT),
             };
 
             if (method === "POST" && params.body) {
-                fetchOptions.body = params.body as string;
+                fetchOptions.body = params.body;
                 if (!headers["Content-Type"]) {
                     (fetchOptions.headers as Record<string, string>)["Content-Type"] =
                         "application/json";
@@ -84,4 +91,4 @@ export const httpTool: Tool = {
             };
         }
     },
-};
+});
@@ -13,3 +13,4 @@ export { projectScaffoldTool } from "./scaffold-tool.js";
 export { startSandboxTool } from "./sandbox-tool.js";
 export { createForgeTool, loadForgedTools } from "./forge-tool.js";
 export { createPreviewTool, startPreviewServer } from "./preview-tool.js";
+export type { PreviewToolOptions } from "./preview-tool.js";
@@ -10,6 +10,7 @@ import { join } from "node:path";
 import { createServer, type Server } from "node:http";
 import { readFile } from "node:fs/promises";
 import { extname } from "node:path";
+import { defineTool } from "@zen-ai/core";
 import type { Tool, ToolResult } from "@zen-ai/core";
 
 // ---------------------------------------------------------------------------
@@ -111,24 +112,38 @@ export function startPreviewServer(
 // Preview Deploy Tool
 // ---------------------------------------------------------------------------
 
+/** Optional behaviour of the preview deploy tool. */
+export interface PreviewToolOptions {
+    /**
+     * Capture the deployed page as a PNG (bytes, or base64). When set, the
+     * screenshot is returned as an image so the agent can see what it built.
+     * Bring your own browser, e.g. Playwright:
+     * `async (url) => (await browser.newPage()).goto(url).then(...).screenshot()`
+     */
+    screenshot?: (url: string, signal?: AbortSignal) => Promise<Uint8Array | string>;
+}
+
 /**
  * Create a preview deploy tool.
  * ZENNY uses this to deploy HTML apps and return playable URLs.
  *
  * @param previewDir - Base directory for preview files
  * @param baseUrl - Base URL for the preview server (default: http://localhost:3456)
+ * @param options - Screenshot capture, see PreviewToolOptions
  */
 export function createPreviewTool(
     previewDir: string,
     baseUrl?: string,
+    options: PreviewToolOptions = {},
 ): Tool {
-    return {
+    return defineTool({
         name: "preview_deploy",
         description:
             "Deploy an HTML/CSS/JS app to the preview server and return a playable URL. " +
             "Use this INSTEAD of just sending code in chat. " +
             "When the user asks you to make a game or web app, write the code and deploy it here. " +
             "The user can click the URL to play/view it immediately in their browser.",
+        sideEffects: true,
         parameters: {
             type: "object",
             properties: {
@@ -147,11 +162,12 @@ export function createPreviewTool(
             },
             required: ["project_name", "html"],
         },
-        async execute(params): Promise<ToolResult> {
+        async execute(params, ctx): Promise<ToolResult> {
             try {
-                const projectName = params.project_name as string;
-                const html = params.html as string;
-                const additionalFilesStr = (params.additional_files as string) || "{}";
+                const signal = ctx?.signal;
+                const projectName = params.project_name;
+                const html = params.html;
+                const additionalFilesStr = params.additional_files || "{}";
 
                 // Validate project name
                 if (!/^[a-z0-9][a-z0-9-]*$/.test(projectName)) {
@@ -169,7 +185,7 @@ export function createPreviewTool(
                 }
 
                 // Write index.html
-                await writeFile(join(projectDir, "index.html"), html, "utf-8");
+                await writeFile(join(projectDir, "index.html"), html, { encoding: "utf-8", signal });
 
                 // Write additional files
                 try {
@@ -179,7 +195,7 @@ export function createPreviewTool(
                             const filePath = join(projectDir, fileName);
                             // Security: prevent path traversal
                             if (filePath.startsWith(projectDir)) {
-                                await writeFile(filePath, content, "utf-8");
+                                await writeFile(filePath, content, { encoding: "utf-8", signal });
                             }
                         }
                     }
@@ -187,12 +203,36 @@ export function createPreviewTool(
                     // Ignore malformed additional_files
                 }
 
+                // Aborted mid-way: don't report a partial deploy as success
+                signal?.throwIfAborted();
+
                 const url = `${baseUrl ?? `http://localhost:${previewPort}`}/${projectName}/`;
 
-                return {
-                    success: true,
-                    output: `Deployed! Play here: ${url}`,
-                };
+                if (!options.screenshot) {
+                    return {
+                        success: true,
+                        output: `Deployed! Play here: ${url}`,
+                    };
+                }
+
+                // A failed capture doesn't undo the deploy
+                try {
+                    const png = await options.screenshot(url, signal);
+                    return {
+                        success: true,
+                        output: `Deployed! Play here: ${url} (screenshot attached)`,
+                        content: [{
+                            type: "image",
+                            data: typeof png === "string" ? png : Buffer.from(png).toString("base64"),
+                            mimeType: "image/png",
+                        }],
+                    };
+                } catch (error) {
+                    return {
+                        success: true,
+                        output: `Deployed! Play here: ${url} (screenshot failed: ${error instanceof Error ? error.message : String(error)})`,
+                    };
+                }
             } catch (error) {
                 return {
                     success: false,
@@ -201,5 +241,5 @@ export function createPreviewTool(
                 };
             }
         },
-    };
+    });
 }
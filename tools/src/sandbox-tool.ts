@@ -6,17 +6,19 @@
 import localtunnel from "localtunnel";
 import handler from "serve-handler";
 import http from "node:http";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 // Keep track of active tunnels to prevent garbage collection or to allow stopping
 const activeTunnels: Array<{ server: http.Server; tunnel: localtunnel.Tunnel }> =
     [];
 
 /** Tool for starting a sandbox server. */
-export const startSandboxTool: Tool = {
+export const startSandboxTool = defineTool({
     name: "start_sandbox",
     description:
         "Start a public web server for a local directory. Returns a public URL (https://...). use this to display web artifacts (HTML/JS) to the user.",
+    sideEffects: true,
     parameters: {
         type: "object",
         properties: {
@@ -28,9 +30,9 @@ export const startSandboxTool: Tool = {
         },
         required: ["directory"],
     },
-    async execute(params: Record<string, unknown>): Promise<ToolResult> {
+    async execute(params): Promise<ToolResult> {
         try {
-            const dir = params.directory as string;
+            const dir = params.directory;
             // Random port between 3000-4000
             const port = 3000 + Math.floor(Math.random() * 1000);
 
@@ -59,4 +61,4 @@ export const startSandboxTool: Tool = {
             };
         }
     },
-};
+});
@@ -6,7 +6,8 @@
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
 import { existsSync, mkdirSync } from "node:fs";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 const execAsync = promisify(exec);
 
@@ -34,11 +35,12 @@ const TEMPLATES: Record<string, { command: string; description: string }> = {
 };
 
 /** Tool for scaffolding new projects. */
-export const projectScaffoldTool: Tool = {
+export const projectScaffoldTool = defineTool({
     name: "project_scaffold",
     description:
         "Create a new project from a template. " +
         `Available templates: ${Object.entries(TEMPLATES).map(([k, v]) => `${k} (${v.description})`).join(", ")}`,
+    sideEffects: true,
     parameters: {
         type: "object",
         properties: {
@@ -56,8 +58,8 @@ export const projectScaffoldTool: Tool = {
     },
     async execute(params): Promise<ToolResult> {
         try {
-            const template = params.template as string;
-            const projectPath = params.path as string;
+            const template = params.template;
+            const projectPath = params.path;
 
             if (!TEMPLATES[template]) {
                 return {
@@ -99,4 +101,4 @@ export const projectScaffoldTool: Tool = {
             };
         }
     },
-};
+});
@@ -5,7 +5,8 @@
 
 import { readdir, readFile, stat } from "node:fs/promises";
 import { join, extname } from "node:path";
-import type { Tool, ToolResult } from "@zen-ai/core";
+import { defineTool } from "@zen-ai/core";
+import type { ToolResult } from "@zen-ai/core";
 
 interface SearchMatch {
     file: string;
@@ -25,7 +26,7 @@ const SEARCHABLE_EXTENSIONS = new Set([
 ]);
 
 /** Tool for searching code by pattern. */
-export const codeSearchTool: Tool = {
+export const codeSearchTool = defineTool({
     name: "code_search",
     description:
         "Search for a text pattern in files within a directory. Returns matching lines with file paths and line numbers.",
@@ -35,18 +36,15 @@ export const codeSearchTool: Tool = {
             pattern: { type: "string", description: "Text or regex pattern to search for" },
             path: { type: "string", description: "Directory to search in" },
             regex: {
-                type: "string",
-                description: "If 'true', treat pattern as regex (default: 'false')",
+                type: "boolean",
+                description: "Treat pattern as regex (default: false)",
+                default: false,
             },
         },
         required: ["pattern", "path"],
     },
-    async execute(params): Promise<ToolResult> {
+    async execute({ pattern, path: searchPath, regex: useRegex }): Promise<ToolResult> {
         try {
-            const pattern = params.pattern as string;
-            const searchPath = params.path as string;
-            const useRegex = (params.regex as string) === "true";
-
             const regex = useRegex
                 ? new RegExp(pattern, "gi")
                 : null;
@@ -70,7 +68,7 @@ export const codeSearchTool: Tool = {
             };
         }
     },
-};
+});
 
 async function searchDir(
     dirPath: string,
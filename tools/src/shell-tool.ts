@@ -5,6 +5,7 @@
 
 import { exec } from "node:child_process";
 import { promisify } from "node:util";
+import { defineTool } from "@zen-ai/core";
 import type { Tool, ToolResult } from "@zen-ai/core";
 
 const execAsync = promisify(exec);
@@ -65,13 +66,14 @@ export function createShellTool(
 ): Tool {
     const mode = options.mode ?? (options.unsafe ? "unsafe" : "sandboxed");
 
-    return {
+    return defineTool({
         name: "shell_exec",
         description:
             mode === "sandboxed"
                 ? "Execute a shell command (sandboxed: npm, node, git, curl, python, etc.). " +
                 "Cannot run destructive commands like rm -rf or sudo."
                 : "Execute any shell command. Use with caution.",
+        sideEffects: true,
         parameters: {
             type: "object",
             properties: {
@@ -83,8 +85,8 @@ export function createShellTool(
             },
             required: ["command"],
         },
-        async execute(params): Promise<ToolResult> {
-            const command = params.command as string;
+        async execute(params, ctx): Promise<ToolResult> {
+            const command = params.command;
 
             // Safety check in sandboxed mode
             if (mode === "sandboxed") {
@@ -100,9 +102,10 @@ export function createShellTool(
 
             try {
                 const { stdout, stderr } = await execAsync(command, {
-                    cwd: (params.cwd as string) ?? process.cwd(),
+                    cwd: params.cwd ?? process.cwd(),
                     timeout: SHELL_TIMEOUT,
                     maxBuffer: 1024 * 1024, // 1MB
+                    signal: ctx?.signal, // kills the process on agent stop / tool timeout
                 });
 
                 return {
@@ -117,5 +120,5 @@ export function createShellTool(
                 };
             }
         },
-    };
+    });
 }